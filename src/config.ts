@@ -1,8 +1,36 @@
 import { z } from "zod";
+import { RetentionPolicySchema } from "./memory/retention.js";
+import { SecretPolicySchema } from "./memory/secrets.js";
+import { ScoringPolicySchema } from "./memory/scoring.js";
+import { SyncConfigSchema } from "./memory/sync.js";
 
 export const clpMcpConfig = z.object({
 
   debug: z.boolean().default(false).describe("Enable debug mode"),
+  memory: z.object({
+    storageDir: z.string().optional().describe("Directory for the memory journal and snapshots (memory is not persisted when unset)"),
+    snapshotEvery: z.number().int().positive().default(500).describe("Number of journal records between snapshots"),
+    embedder: z.enum(["hashing", "ollama", "openai"]).default("hashing").describe("Embedder for semantic recall (hashing runs fully offline)"),
+    embeddingModel: z.string().optional().describe("Embedding model name for the ollama or openai embedder"),
+    semanticWeight: z.number().min(0).max(1).default(0.5).describe("Weight of semantic vs. lexical relevance in recall"),
+    namespaceFrom: z.enum(["project", "session", "none"]).default("project").describe("Derive the memory namespace from the .clp-project.json profile, the MCP session, or not at all"),
+    projectRoot: z.string().optional().describe("Directory holding the active .clp-project.json (defaults to the working directory)"),
+    dedupeThreshold: z.number().min(0).max(1).default(0.85).describe("Content similarity at which a new memory is merged into an existing one"),
+    relatedThreshold: z.number().min(0).max(1).default(0.3).describe("Relatedness (content, context and tag overlap) at which memories are linked"),
+    notifyDebounceMs: z.number().int().min(0).default(250).describe("Delay for collecting memory changes into one resource update notification"),
+    retention: RetentionPolicySchema.optional().describe("Decay, TTL and archival policy (memories are kept forever when unset)"),
+    secrets: SecretPolicySchema.optional().describe("How secrets found in stored memories are handled (redacted when unset)"),
+    encryptionKeyEnv: z.string().default("CLP_MEMORY_KEY").describe("Environment variable holding the memory encryption key"),
+    encryptionKeyFile: z.string().optional().describe("File holding the memory encryption key, used when the environment variable is unset"),
+    previousKeyFiles: z.array(z.string()).optional().describe("Earlier encryption keys, kept to read content sealed before a rotation"),
+    scoring: ScoringPolicySchema.optional().describe("Keywords and limits for automatic importance scoring"),
+    sync: SyncConfigSchema.optional().describe("Shared directory for syncing memories with other instances (no sync when unset)"),
+  }).optional().describe("Long-term memory storage settings"),
+  graph: z.object({
+    storageDir: z.string().optional().describe("Directory for the knowledge graph log and snapshots (defaults to a graph directory under memory.storageDir; not persisted when neither is set)"),
+    snapshotEvery: z.number().int().positive().default(500).describe("Number of log records between snapshots"),
+    dependencyTypes: z.array(z.string()).optional().describe("Relationship types meaning the source depends on the target, followed by graph_impact (defaults to depends_on, requires, uses, calls, reads_from and writes_to)"),
+  }).optional().describe("Knowledge graph storage and analysis settings"),
 } )
 
-export default clpMcpConfig;
\ No newline at end of file
+export default clpMcpConfig;
@@ -0,0 +1,364 @@
+import type { Entity, Relationship } from "./knowledge-graph.js";
+
+/**
+ * The entities and relationships an analysis runs over
+ */
+export interface AnalyticsInput {
+  entities: Entity[];
+  relationships: Relationship[];
+}
+
+export interface AnalyticsOptions {
+  relationshipTypes?: string[]; // analyze only these relationship types; all when unset
+}
+
+export interface PageRankOptions extends AnalyticsOptions {
+  damping?: number; // default 0.85
+  iterations?: number; // most iterations, default 100
+  tolerance?: number; // stop once scores change less than this in total, default 1e-6
+}
+
+export interface CentralityScore {
+  entity: Entity;
+  score: number;
+}
+
+/**
+ * A closed chain of relationships: entities[0] is repeated at the end
+ */
+export interface GraphCycle {
+  entities: Entity[];
+  relationships: Relationship[];
+}
+
+/**
+ * A strongly connected component with more than one entity, or a single
+ * entity related to itself, and the shortest cycle through its first member
+ */
+export interface CircularDependency {
+  entities: Entity[];
+  cycle: GraphCycle;
+}
+
+export interface SinglePointsOfFailure {
+  articulationPoints: Entity[]; // removing one splits the graph
+  bridges: Relationship[]; // removing one splits the graph
+}
+
+/**
+ * Graph with entities numbered 0..n-1 and adjacency lists, built once per
+ * analysis
+ */
+interface IndexedGraph {
+  entities: Entity[];
+  out: Array<Array<{ to: number; relationship: Relationship }>>;
+}
+
+function indexGraph(input: AnalyticsInput, options: AnalyticsOptions): IndexedGraph {
+  const index = new Map<string, number>();
+  input.entities.forEach((entity, i) => index.set(entity.id, i));
+  const out: IndexedGraph["out"] = input.entities.map(() => []);
+
+  for (const relationship of input.relationships) {
+    if (options.relationshipTypes?.length && !options.relationshipTypes.includes(relationship.type)) continue;
+    const from = index.get(relationship.sourceId);
+    const to = index.get(relationship.targetId);
+    if (from !== undefined && to !== undefined) out[from]!.push({ to, relationship });
+  }
+
+  return { entities: input.entities, out };
+}
+
+/**
+ * PageRank over relationship directions, so an entity ranks high when
+ * highly ranked entities point at it (for `depends_on`, when important
+ * things depend on it). Relationship weights split each entity's rank
+ * among its targets (missing weights count as 1); entities with no
+ * outgoing relationships share their rank with every entity.
+ */
+export function pageRank(input: AnalyticsInput, options: PageRankOptions = {}): CentralityScore[] {
+  const graph = indexGraph(input, options);
+  const n = graph.entities.length;
+  if (n === 0) return [];
+
+  const damping = options.damping ?? 0.85;
+  const iterations = options.iterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-6;
+  const weightOf = (r: Relationship) => Math.max(0, r.metadata.weight ?? 1);
+  const outWeight = graph.out.map((edges) => edges.reduce((sum, e) => sum + weightOf(e.relationship), 0));
+
+  let rank = new Float64Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let dangling = 0;
+    for (let i = 0; i < n; i++) if (outWeight[i] === 0) dangling += rank[i]!;
+
+    const next = new Float64Array(n).fill((1 - damping) / n + (damping * dangling) / n);
+    for (let i = 0; i < n; i++) {
+      if (outWeight[i] === 0) continue;
+      const share = (damping * rank[i]!) / outWeight[i]!;
+      for (const { to, relationship } of graph.out[i]!) next[to] = next[to]! + share * weightOf(relationship);
+    }
+
+    let change = 0;
+    for (let i = 0; i < n; i++) change += Math.abs(next[i]! - rank[i]!);
+    rank = next;
+    if (change < tolerance) break;
+  }
+
+  return ranked(graph.entities, rank);
+}
+
+/**
+ * Betweenness centrality by Brandes' algorithm: the share of shortest
+ * directed paths between other entities that pass through each entity,
+ * normalized to 0-1. Entities that many paths funnel through are
+ * bottlenecks. Runs in O(entities x relationships); results are cached by
+ * KnowledgeGraph.
+ */
+export function betweenness(input: AnalyticsInput, options: AnalyticsOptions = {}): CentralityScore[] {
+  const graph = indexGraph(input, options);
+  const n = graph.entities.length;
+  const centrality = new Float64Array(n);
+
+  // Parallel relationships are one path step
+  const neighbors = graph.out.map((edges) => Array.from(new Set(edges.map((e) => e.to))));
+  const sigma = new Float64Array(n);
+  const distance = new Int32Array(n);
+  const delta = new Float64Array(n);
+  const predecessors: number[][] = Array.from({ length: n }, () => []);
+  const order = new Int32Array(n);
+  const queue = new Int32Array(n);
+
+  for (let s = 0; s < n; s++) {
+    sigma.fill(0);
+    distance.fill(-1);
+    delta.fill(0);
+    predecessors.forEach((p) => (p.length = 0));
+    sigma[s] = 1;
+    distance[s] = 0;
+
+    let head = 0;
+    let tail = 0;
+    let visited = 0;
+    queue[tail++] = s;
+    while (head < tail) {
+      const v = queue[head++]!;
+      order[visited++] = v;
+      for (const w of neighbors[v]!) {
+        if (distance[w] === -1) {
+          distance[w] = distance[v]! + 1;
+          queue[tail++] = w;
+        }
+        if (distance[w] === distance[v]! + 1) {
+          sigma[w] = sigma[w]! + sigma[v]!;
+          predecessors[w]!.push(v);
+        }
+      }
+    }
+
+    for (let i = visited - 1; i > 0; i--) {
+      const w = order[i]!;
+      for (const v of predecessors[w]!) delta[v] = delta[v]! + (sigma[v]! / sigma[w]!) * (1 + delta[w]!);
+      centrality[w] = centrality[w]! + delta[w]!;
+    }
+  }
+
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 1;
+  return ranked(graph.entities, centrality.map((c) => c * scale));
+}
+
+/**
+ * Strongly connected components by Tarjan's algorithm, largest first. Every
+ * entity appears in exactly one component.
+ */
+export function stronglyConnectedComponents(input: AnalyticsInput, options: AnalyticsOptions = {}): Entity[][] {
+  return tarjan(indexGraph(input, options))
+    .map((component) => component.map((i) => input.entities[i]!))
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Circular dependencies: each strongly connected component in which
+ * entities depend on each other, largest first, with the shortest cycle
+ * through its first member as an example
+ */
+export function findCycles(input: AnalyticsInput, options: AnalyticsOptions = {}): CircularDependency[] {
+  const graph = indexGraph(input, options);
+  const result: CircularDependency[] = [];
+
+  for (const component of tarjan(graph)) {
+    const start = component[0]!;
+    const selfLoop = graph.out[start]!.find((e) => e.to === start);
+    if (component.length === 1 && !selfLoop) continue;
+
+    const members = new Set(component);
+    const cycle = selfLoop
+      ? { entities: [graph.entities[start]!, graph.entities[start]!], relationships: [selfLoop.relationship] }
+      : shortestCycle(graph, start, members);
+    result.push({ entities: component.map((i) => graph.entities[i]!), cycle });
+  }
+
+  return result.sort((a, b) => b.entities.length - a.entities.length);
+}
+
+/**
+ * Articulation points and bridges, ignoring relationship direction: the
+ * entities and relationships whose removal would split a connected part of
+ * the graph in two. Parallel relationships between the same entities are
+ * never bridges.
+ */
+export function singlePointsOfFailure(input: AnalyticsInput, options: AnalyticsOptions = {}): SinglePointsOfFailure {
+  const graph = indexGraph(input, options);
+  const n = graph.entities.length;
+
+  const adjacent: Array<Array<{ to: number; relationship: Relationship }>> = Array.from({ length: n }, () => []);
+  graph.out.forEach((edges, from) =>
+    edges.forEach(({ to, relationship }) => {
+      if (to === from) return;
+      adjacent[from]!.push({ to, relationship });
+      adjacent[to]!.push({ to: from, relationship });
+    })
+  );
+
+  const discovered = new Int32Array(n).fill(-1);
+  const low = new Int32Array(n);
+  const articulation = new Set<number>();
+  const bridges: Relationship[] = [];
+  let time = 0;
+
+  // Iterative DFS: each frame is an entity, the relationship it was reached
+  // by and how far through its adjacency list the search has got
+  for (let root = 0; root < n; root++) {
+    if (discovered[root] !== -1) continue;
+    let rootChildren = 0;
+    discovered[root] = low[root] = time++;
+    const stack: Array<{ v: number; via?: string; next: number }> = [{ v: root, next: 0 }];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1]!;
+      const edge = adjacent[frame.v]![frame.next++];
+
+      if (edge) {
+        if (edge.relationship.id === frame.via) continue;
+        if (discovered[edge.to] === -1) {
+          discovered[edge.to] = low[edge.to] = time++;
+          if (frame.v === root) rootChildren++;
+          stack.push({ v: edge.to, via: edge.relationship.id, next: 0 });
+        } else {
+          low[frame.v] = Math.min(low[frame.v]!, discovered[edge.to]!);
+        }
+        continue;
+      }
+
+      stack.pop();
+      const parent = stack[stack.length - 1];
+      if (!parent) continue;
+      low[parent.v] = Math.min(low[parent.v]!, low[frame.v]!);
+      if (parent.v !== root && low[frame.v]! >= discovered[parent.v]!) articulation.add(parent.v);
+      if (low[frame.v]! > discovered[parent.v]!) {
+        bridges.push(adjacent[parent.v]![parent.next - 1]!.relationship);
+      }
+    }
+
+    if (rootChildren > 1) articulation.add(root);
+  }
+
+  return {
+    articulationPoints: Array.from(articulation, (i) => graph.entities[i]!),
+    bridges,
+  };
+}
+
+/**
+ * Tarjan's algorithm, iteratively so long dependency chains can't overflow
+ * the call stack
+ */
+function tarjan(graph: IndexedGraph): number[][] {
+  const n = graph.entities.length;
+  const index = new Int32Array(n).fill(-1);
+  const low = new Int32Array(n);
+  const onStack = new Uint8Array(n);
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  for (let root = 0; root < n; root++) {
+    if (index[root] !== -1) continue;
+    const frames: Array<{ v: number; next: number }> = [{ v: root, next: 0 }];
+    index[root] = low[root] = counter++;
+    stack.push(root);
+    onStack[root] = 1;
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]!;
+      const edge = graph.out[frame.v]![frame.next++];
+
+      if (edge) {
+        if (index[edge.to] === -1) {
+          index[edge.to] = low[edge.to] = counter++;
+          stack.push(edge.to);
+          onStack[edge.to] = 1;
+          frames.push({ v: edge.to, next: 0 });
+        } else if (onStack[edge.to]) {
+          low[frame.v] = Math.min(low[frame.v]!, index[edge.to]!);
+        }
+        continue;
+      }
+
+      frames.pop();
+      const parent = frames[frames.length - 1];
+      if (parent) low[parent.v] = Math.min(low[parent.v]!, low[frame.v]!);
+
+      if (low[frame.v] === index[frame.v]) {
+        const component: number[] = [];
+        let w: number;
+        do {
+          w = stack.pop()!;
+          onStack[w] = 0;
+          component.push(w);
+        } while (w !== frame.v);
+        components.push(component.reverse());
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Shortest cycle through `start`, staying inside its component
+ */
+function shortestCycle(graph: IndexedGraph, start: number, members: Set<number>): GraphCycle {
+  const via = new Map<number, { from: number; relationship: Relationship }>();
+  const queue = [start];
+
+  for (let head = 0; head < queue.length; head++) {
+    const v = queue[head]!;
+    for (const { to, relationship } of graph.out[v]!) {
+      if (!members.has(to)) continue;
+      if (to === start) {
+        const entities = [graph.entities[start]!];
+        const relationships = [relationship];
+        for (let w = v; w !== start; w = via.get(w)!.from) {
+          entities.unshift(graph.entities[w]!);
+          relationships.unshift(via.get(w)!.relationship);
+        }
+        entities.unshift(graph.entities[start]!);
+        return { entities, relationships };
+      }
+      if (!via.has(to) && to !== start) {
+        via.set(to, { from: v, relationship });
+        queue.push(to);
+      }
+    }
+  }
+
+  // Unreachable for a strongly connected component
+  return { entities: [graph.entities[start]!], relationships: [] };
+}
+
+function ranked(entities: Entity[], scores: ArrayLike<number>): CentralityScore[] {
+  return entities
+    .map((entity, i) => ({ entity, score: Math.round(scores[i]! * 1e6) / 1e6 }))
+    .sort((a, b) => b.score - a.score);
+}
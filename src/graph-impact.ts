@@ -0,0 +1,191 @@
+import type { Entity, Relationship } from "./knowledge-graph.js";
+
+/**
+ * Relationship types that mean "source needs target to work", used when
+ * the configuration doesn't name its own
+ */
+export const DEFAULT_DEPENDENCY_TYPES = ["depends_on", "requires", "uses", "calls", "reads_from", "writes_to"];
+
+export interface ImpactOptions {
+  dependencyTypes?: string[]; // default DEFAULT_DEPENDENCY_TYPES
+  maxDepth?: number; // dependency hops to follow, unlimited by default
+}
+
+/**
+ * An entity that stops working when the analyzed entity goes down
+ */
+export interface ImpactedEntity {
+  entity: Entity;
+  distance: number; // dependency hops to the analyzed entity
+  path: {
+    entities: Entity[]; // from this entity down to the analyzed one
+    relationships: Relationship[];
+  };
+  criticality: number; // 0-1, see criticalityOf()
+}
+
+export interface ImpactReport {
+  root: Entity;
+  dependencyTypes: string[];
+  affected: ImpactedEntity[]; // most critical first, then closest
+  relationships: Relationship[]; // every dependency among the root and affected entities
+}
+
+/**
+ * Graph lookups impact analysis runs against
+ */
+export interface ImpactSource {
+  entity(id: string): Entity | undefined;
+  relationshipsOf(entityId: string): Relationship[];
+}
+
+const CRITICALITY_LEVELS: Record<string, number> = {
+  critical: 1,
+  high: 0.75,
+  medium: 0.5,
+  low: 0.25,
+};
+
+/**
+ * Everything that depends on `rootId`, directly or transitively. A
+ * dependency relationship points from the dependent entity to what it
+ * depends on, so the walk follows them backwards, breadth first, giving
+ * each affected entity its shortest dependency chain.
+ */
+export function analyzeImpact(source: ImpactSource, rootId: string, options: ImpactOptions = {}): ImpactReport | null {
+  const root = source.entity(rootId);
+  if (!root) return null;
+
+  const dependencyTypes = options.dependencyTypes?.length ? options.dependencyTypes : DEFAULT_DEPENDENCY_TYPES;
+  const maxDepth = options.maxDepth ?? Infinity;
+  const reached = new Map<string, ImpactedEntity>();
+  const relationships = new Map<string, Relationship>();
+  const rootPath = { entities: [root], relationships: [] as Relationship[] };
+
+  let frontier: Array<{ entity: Entity; path: ImpactedEntity["path"] }> = [{ entity: root, path: rootPath }];
+  for (let distance = 1; frontier.length > 0 && distance <= maxDepth; distance++) {
+    const next: typeof frontier = [];
+
+    for (const { entity, path } of frontier) {
+      for (const relationship of source.relationshipsOf(entity.id)) {
+        if (relationship.targetId !== entity.id || !dependencyTypes.includes(relationship.type)) continue;
+        const dependent = source.entity(relationship.sourceId);
+        if (!dependent) continue;
+        relationships.set(relationship.id, relationship);
+        if (dependent.id === root.id || reached.has(dependent.id)) continue;
+
+        const dependentPath = {
+          entities: [dependent, ...path.entities],
+          relationships: [relationship, ...path.relationships],
+        };
+        reached.set(dependent.id, { entity: dependent, distance, path: dependentPath, criticality: criticalityOf(dependent) });
+        next.push({ entity: dependent, path: dependentPath });
+      }
+    }
+
+    frontier = next;
+  }
+
+  // Entities at the depth limit weren't expanded; still draw dependencies
+  // between them and other reported entities
+  for (const { entity } of frontier) {
+    for (const relationship of source.relationshipsOf(entity.id)) {
+      const inReport = relationship.sourceId === root.id || reached.has(relationship.sourceId);
+      if (relationship.targetId === entity.id && inReport && dependencyTypes.includes(relationship.type)) {
+        relationships.set(relationship.id, relationship);
+      }
+    }
+  }
+
+  return {
+    root,
+    dependencyTypes,
+    affected: Array.from(reached.values()).sort(
+      (a, b) => b.criticality - a.criticality || a.distance - b.distance || entityName(a.entity).localeCompare(entityName(b.entity))
+    ),
+    relationships: Array.from(relationships.values()),
+  };
+}
+
+/**
+ * How critical an entity is, 0-1, from the highest of:
+ * - a `criticality` property: critical, high, medium or low, or a number
+ *   (0-1, or 1-5 where 5 is most critical)
+ * - a `tier` property: tier 0 (or "tier-0", "t0") is most critical
+ * - a `critical` tag
+ * Entities with none of these score 0.
+ */
+export function criticalityOf(entity: Entity): number {
+  const scores = [0];
+
+  const criticality = entity.properties.criticality;
+  if (typeof criticality === "string" && criticality.toLowerCase() in CRITICALITY_LEVELS) {
+    scores.push(CRITICALITY_LEVELS[criticality.toLowerCase()]!);
+  } else if (typeof criticality === "number" && criticality >= 0) {
+    scores.push(criticality <= 1 ? criticality : Math.min(criticality, 5) / 5);
+  }
+
+  const tierText = String(entity.properties.tier ?? "").trim().replace(/^(tier|t)[-_ ]?/i, "");
+  const tier = Number(tierText);
+  if (tierText !== "" && Number.isInteger(tier) && tier >= 0) {
+    scores.push(Math.max(0.25, 1 - tier * 0.25));
+  }
+
+  if (entity.metadata.tags?.some((tag) => tag.toLowerCase() === "critical")) scores.push(1);
+
+  return Math.max(...scores);
+}
+
+/**
+ * Name for a criticality score, as used in reports
+ */
+export function criticalityLabel(score: number): string {
+  if (score >= 1) return "critical";
+  if (score >= 0.75) return "high";
+  if (score >= 0.5) return "medium";
+  if (score > 0) return "low";
+  return "unrated";
+}
+
+/**
+ * Mermaid flowchart of the impact: the analyzed entity, everything affected
+ * and the dependencies between them, arrows pointing from dependent to
+ * dependency. The analyzed entity and critical entities are highlighted.
+ */
+export function impactMermaid(report: ImpactReport): string {
+  const ids = new Map<string, string>();
+  const lines = ["graph LR"];
+
+  const node = (entity: Entity) => {
+    const id = `n${ids.size}`;
+    ids.set(entity.id, id);
+    lines.push(`  ${id}["${mermaidText(`${entityName(entity)} (${entity.type})`)}"]`);
+  };
+  node(report.root);
+  report.affected.forEach(({ entity }) => node(entity));
+
+  for (const relationship of report.relationships) {
+    const from = ids.get(relationship.sourceId);
+    const to = ids.get(relationship.targetId);
+    if (from && to) lines.push(`  ${from} -->|${mermaidText(relationship.type)}| ${to}`);
+  }
+
+  lines.push("  classDef down fill:#f8d7da,stroke:#c0392b,stroke-width:2px");
+  lines.push("  classDef critical fill:#fff3cd,stroke:#e67e22");
+  lines.push(`  class ${ids.get(report.root.id)} down`);
+  const critical = report.affected.filter((a) => a.criticality >= 0.75).map((a) => ids.get(a.entity.id));
+  if (critical.length > 0) lines.push(`  class ${critical.join(",")} critical`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Display name of an entity: its name or title property, or its ID
+ */
+export function entityName(entity: Entity): string {
+  return String(entity.properties.name || entity.properties.title || entity.id);
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/[|<>]/g, (c) => `#${c.charCodeAt(0)};`).replace(/\s+/g, " ");
+}
@@ -0,0 +1,342 @@
+import type { Entity, Relationship } from "./knowledge-graph.js";
+
+/**
+ * How a relationship's weight turns into the cost of following it:
+ * - cost: the weight is the cost (distance, latency); missing weights cost 1
+ * - strength: stronger relationships are cheaper, costing 1 / weight
+ * - hops: every relationship costs 1, ignoring weights
+ */
+export type PathWeighting = "cost" | "strength" | "hops";
+
+export interface PathOptions {
+  k?: number; // return the k cheapest loopless paths; all paths when unset
+  relationshipTypes?: string[]; // follow only these types
+  direction?: "out" | "in" | "both"; // default both
+  weighting?: PathWeighting; // default cost
+  maxResults?: number; // most paths returned, default 100
+}
+
+/**
+ * A path with the summed cost of its relationships
+ */
+export interface WeightedPath {
+  entities: Entity[];
+  relationships: Relationship[];
+  cost: number;
+}
+
+/**
+ * Graph lookups the path algorithms run against
+ */
+export interface PathSource {
+  entity(id: string): Entity | undefined;
+  relationshipsOf(entityId: string): Relationship[];
+}
+
+/**
+ * Deepest search `allPaths` runs; deeper requests are clamped to it
+ */
+export const MAX_PATH_DEPTH = 10;
+
+/**
+ * Relationships `allPaths` may follow before it stops enumerating
+ */
+const MAX_PATH_STEPS = 100_000;
+
+interface Step {
+  relationship: Relationship;
+  next: Entity;
+  cost: number;
+}
+
+/**
+ * Cost of following a relationship. Negative weights are treated as 0 so
+ * Dijkstra's algorithm stays correct; under `strength` a weight of 0 or less
+ * makes the relationship unusable.
+ */
+export function relationshipCost(relationship: Relationship, weighting: PathWeighting = "cost"): number {
+  const weight = relationship.metadata.weight;
+  switch (weighting) {
+    case "hops":
+      return 1;
+    case "strength":
+      if (weight === undefined) return 1;
+      return weight > 0 ? 1 / weight : Infinity;
+    case "cost":
+      return weight === undefined ? 1 : Math.max(0, weight);
+  }
+}
+
+/**
+ * Cheapest path from `fromId` to `toId` using at most `maxDepth`
+ * relationships, or null when there is none. Dijkstra's algorithm runs over
+ * (entity, depth) states so the depth limit never hides a longer but
+ * cheaper path; a state is skipped once its entity was settled at the same
+ * or a lower depth, since it can only do worse. Relationships and entities
+ * listed in `excluded` are not used (entities other than `fromId`).
+ */
+export function shortestPath(
+  source: PathSource,
+  fromId: string,
+  toId: string,
+  maxDepth: number,
+  options: PathOptions = {},
+  excluded: { relationships?: Set<string>; entities?: Set<string> } = {}
+): WeightedPath | null {
+  const from = source.entity(fromId);
+  if (!from || !source.entity(toId)) return null;
+
+  interface State {
+    entity: Entity;
+    depth: number;
+    cost: number;
+    previous?: State;
+    via?: Relationship;
+  }
+
+  const settledDepth = new Map<string, number>(); // entity ID -> lowest depth it was settled at
+  const heap = new MinHeap<State>((a, b) => a.cost - b.cost || a.depth - b.depth);
+  heap.push({ entity: from, depth: 0, cost: 0 });
+
+  while (heap.size > 0) {
+    const state = heap.pop()!;
+    const settled = settledDepth.get(state.entity.id);
+    if (settled !== undefined && settled <= state.depth) continue;
+    settledDepth.set(state.entity.id, state.depth);
+
+    if (state.entity.id === toId) {
+      const entities: Entity[] = [];
+      const relationships: Relationship[] = [];
+      for (let s: State | undefined = state; s; s = s.previous) {
+        entities.unshift(s.entity);
+        if (s.via) relationships.unshift(s.via);
+      }
+      return { entities, relationships, cost: state.cost };
+    }
+    if (state.depth >= maxDepth) continue;
+
+    for (const step of steps(source, state.entity.id, options)) {
+      if (excluded.relationships?.has(step.relationship.id) || excluded.entities?.has(step.next.id)) continue;
+      if (!Number.isFinite(step.cost)) continue;
+      const nextSettled = settledDepth.get(step.next.id);
+      if (nextSettled !== undefined && nextSettled <= state.depth + 1) continue;
+      heap.push({
+        entity: step.next,
+        depth: state.depth + 1,
+        cost: state.cost + step.cost,
+        previous: state,
+        via: step.relationship,
+      });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The `k` cheapest loopless paths, cheapest first, by Yen's algorithm: each
+ * next path branches off a prefix of the previous one, avoiding the
+ * relationships that earlier paths with the same prefix took next. With
+ * Lawler's refinement, a path only branches at or after the point where it
+ * branched off itself; earlier branches were already tried.
+ */
+export function kShortestPaths(
+  source: PathSource,
+  fromId: string,
+  toId: string,
+  k: number,
+  maxDepth: number,
+  options: PathOptions = {}
+): WeightedPath[] {
+  const first = shortestPath(source, fromId, toId, maxDepth, options);
+  if (!first || k < 1) return [];
+
+  const found: WeightedPath[] = [first];
+  const seen = new Set<string>([pathKey(first)]);
+  const branchedAt = new Map<WeightedPath, number>([[first, 0]]);
+  const candidates = new MinHeap<WeightedPath>(
+    (a, b) => a.cost - b.cost || a.relationships.length - b.relationships.length
+  );
+
+  while (found.length < k) {
+    const previous = found[found.length - 1]!;
+
+    for (let i = branchedAt.get(previous) ?? 0; i < previous.relationships.length; i++) {
+      const spur = previous.entities[i]!;
+      const rootRelationships = previous.relationships.slice(0, i);
+
+      // Don't retake the relationship that any found path with this root took next
+      const excludedRelationships = new Set<string>();
+      for (const path of found) {
+        if (path.relationships.length > i && rootRelationships.every((r, j) => path.relationships[j]!.id === r.id)) {
+          excludedRelationships.add(path.relationships[i]!.id);
+        }
+      }
+      // The root's own entities stay off the spur so paths remain loopless
+      const excludedEntities = new Set(previous.entities.slice(0, i).map((e) => e.id));
+
+      const spurPath = shortestPath(source, spur.id, toId, maxDepth - i, options, {
+        relationships: excludedRelationships,
+        entities: excludedEntities,
+      });
+      if (!spurPath) continue;
+
+      const rootCost = rootRelationships.reduce((sum, r) => sum + relationshipCost(r, options.weighting), 0);
+      const candidate: WeightedPath = {
+        entities: [...previous.entities.slice(0, i), ...spurPath.entities],
+        relationships: [...rootRelationships, ...spurPath.relationships],
+        cost: rootCost + spurPath.cost,
+      };
+      const key = pathKey(candidate);
+      if (!seen.has(key)) {
+        seen.add(key);
+        branchedAt.set(candidate, i);
+        candidates.push(candidate);
+      }
+    }
+
+    const next = candidates.pop();
+    if (!next) break;
+    found.push(next);
+  }
+
+  return found;
+}
+
+/**
+ * Every loopless path of at most `maxDepth` relationships (clamped to
+ * MAX_PATH_DEPTH), cheapest first. Each path tracks its own visited
+ * entities, so one path passing through an entity doesn't hide other paths
+ * through it. When there are more than `limit` paths, or enumerating them
+ * would follow more than MAX_PATH_STEPS relationships, the search falls back
+ * to the `limit` cheapest paths from kShortestPaths and sets `truncated`.
+ */
+export function allPaths(
+  source: PathSource,
+  fromId: string,
+  toId: string,
+  maxDepth: number,
+  limit: number,
+  options: PathOptions = {}
+): { paths: WeightedPath[]; truncated: boolean } {
+  const from = source.entity(fromId);
+  if (!from || !source.entity(toId)) return { paths: [], truncated: false };
+
+  const depth = Math.min(maxDepth, MAX_PATH_DEPTH);
+  const paths: WeightedPath[] = [];
+  const entities: Entity[] = [from];
+  const relationships: Relationship[] = [];
+  const onPath = new Set<string>([fromId]);
+  let explored = 0;
+  let truncated = false;
+
+  const walk = (current: Entity, cost: number) => {
+    if (current.id === toId) {
+      if (paths.length >= limit) {
+        truncated = true;
+        return;
+      }
+      paths.push({ entities: [...entities], relationships: [...relationships], cost });
+      return;
+    }
+    if (relationships.length >= depth) return;
+
+    for (const step of steps(source, current.id, options)) {
+      if (truncated) return;
+      if (onPath.has(step.next.id) || !Number.isFinite(step.cost)) continue;
+      if (++explored > MAX_PATH_STEPS) {
+        truncated = true;
+        return;
+      }
+      onPath.add(step.next.id);
+      entities.push(step.next);
+      relationships.push(step.relationship);
+      walk(step.next, cost + step.cost);
+      relationships.pop();
+      entities.pop();
+      onPath.delete(step.next.id);
+    }
+  };
+
+  walk(from, 0);
+  if (truncated) {
+    // What the walk found is in discovery order, not the cheapest
+    const cheapest = kShortestPaths(source, fromId, toId, limit + 1, depth, options);
+    return { paths: cheapest.slice(0, limit), truncated: cheapest.length > limit };
+  }
+  paths.sort((a, b) => a.cost - b.cost || a.relationships.length - b.relationships.length);
+  return { paths, truncated };
+}
+
+/**
+ * Relationships that can be followed from an entity under the type and
+ * direction filters
+ */
+function steps(source: PathSource, entityId: string, options: PathOptions): Step[] {
+  const direction = options.direction ?? "both";
+  const result: Step[] = [];
+
+  for (const relationship of source.relationshipsOf(entityId)) {
+    if (options.relationshipTypes?.length && !options.relationshipTypes.includes(relationship.type)) continue;
+
+    const nextId =
+      direction === "out" ? (relationship.sourceId === entityId ? relationship.targetId : undefined)
+      : direction === "in" ? (relationship.targetId === entityId ? relationship.sourceId : undefined)
+      : relationship.sourceId === entityId ? relationship.targetId : relationship.sourceId;
+    const next = nextId !== undefined ? source.entity(nextId) : undefined;
+    if (next) result.push({ relationship, next, cost: relationshipCost(relationship, options.weighting) });
+  }
+
+  return result;
+}
+
+function pathKey(path: WeightedPath): string {
+  return `${path.entities[0]?.id}|${path.relationships.map((r) => r.id).join(",")}`;
+}
+
+/**
+ * Binary min-heap ordered by `compare`
+ */
+export class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i]!, items[parent]!) >= 0) break;
+      [items[i], items[parent]] = [items[parent]!, items[i]!];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.compare(items[left]!, items[smallest]!) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right]!, items[smallest]!) < 0) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest]!, items[i]!];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,977 @@
+import type { Entity, GraphQueryResult, Relationship } from "./knowledge-graph.js";
+
+/**
+ * Raised for graph queries that don't parse or use unsupported syntax.
+ * `position` is the character offset the problem was found at, when known.
+ */
+export class GraphQueryError extends Error {
+  constructor(message: string, readonly position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = "GraphQueryError";
+  }
+}
+
+export type GraphLiteral = string | number | boolean | null;
+
+export type GraphCompareOp = "=" | "<>" | "<" | "<=" | ">" | ">=" | "CONTAINS" | "STARTS WITH" | "ENDS WITH" | "IN";
+
+/**
+ * `(variable:type {key: value})`
+ */
+export interface NodePattern {
+  variable?: string;
+  type?: string;
+  properties: Record<string, GraphLiteral>;
+  pos: number;
+}
+
+/**
+ * `-[variable:type|other*min..max]->`
+ */
+export interface RelationshipPattern {
+  variable?: string;
+  types: string[]; // any of these, or any type when empty
+  direction: "out" | "in" | "both";
+  minHops: number;
+  maxHops: number;
+  variableLength: boolean;
+  pos: number;
+}
+
+/**
+ * A chain of nodes joined by relationships: nodes[i] -rels[i]- nodes[i + 1]
+ */
+export interface PathPattern {
+  nodes: NodePattern[];
+  relationships: RelationshipPattern[];
+}
+
+export type GraphOperand =
+  | { kind: "literal"; value: GraphLiteral | GraphLiteral[] }
+  | { kind: "field"; variable: string; path: string[]; pos: number };
+
+/**
+ * Parsed WHERE expression
+ */
+export type GraphExpr =
+  | { type: "and"; clauses: GraphExpr[] }
+  | { type: "or"; clauses: GraphExpr[] }
+  | { type: "not"; clause: GraphExpr }
+  | { type: "compare"; left: GraphOperand; op: GraphCompareOp; right: GraphOperand }
+  | { type: "null"; operand: GraphOperand; negated: boolean };
+
+export interface GraphQuery {
+  patterns: PathPattern[];
+  where?: GraphExpr;
+  returns: string[]; // variables, in RETURN order
+  limit?: number;
+}
+
+/**
+ * Longest variable-length relationship a query may ask for; `*` with no
+ * upper bound means up to this many hops
+ */
+export const MAX_HOPS = 10;
+
+const ENTITY_FIELDS = ["id", "type", "tags", "created", "updated"];
+const RELATIONSHIP_FIELDS = ["id", "type", "weight", "sourceId", "targetId", "created"];
+const UNSUPPORTED_CLAUSES = [
+  "CREATE", "MERGE", "DELETE", "DETACH", "SET", "REMOVE", "OPTIONAL", "WITH", "UNWIND",
+  "ORDER", "SKIP", "UNION", "CALL", "FOREACH", "LOAD",
+];
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type Punctuation =
+  | "(" | ")" | "[" | "]" | "{" | "}" | "," | ":" | "." | ".." | "|" | "*"
+  | "-" | "->" | "<-" | "=" | "<>" | "<" | "<=" | ">" | ">=";
+
+type Token =
+  | { kind: "punct"; text: Punctuation; pos: number }
+  | { kind: "word"; text: string; pos: number; quoted: boolean } // identifiers and keywords
+  | { kind: "string"; text: string; pos: number }
+  | { kind: "number"; value: number; text: string; pos: number };
+
+// Longest first so "<-" isn't read as "<" and "-"
+const PUNCTUATION: Punctuation[] = [
+  "..", "->", "<-", "<>", "<=", ">=",
+  "(", ")", "[", "]", "{", "}", ",", ":", ".", "|", "*", "-", "=", "<", ">",
+];
+
+function tokenizeGraphQuery(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"' || char === "'" || char === "`") {
+      const start = i;
+      let text = "";
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        text += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw new GraphQueryError(char === "`" ? "Unterminated quoted name" : "Unterminated string", start);
+      }
+      i++;
+      tokens.push(char === "`" ? { kind: "word", text, pos: start, quoted: true } : { kind: "string", text, pos: start });
+    } else if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(input.slice(i))!;
+      tokens.push({ kind: "number", value: Number(match[0]), text: match[0], pos: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i))!;
+      tokens.push({ kind: "word", text: match[0], pos: i, quoted: false });
+      i += match[0].length;
+    } else {
+      // != is accepted as a spelling of <>
+      if (input.startsWith("!=", i)) {
+        tokens.push({ kind: "punct", text: "<>", pos: i });
+        i += 2;
+        continue;
+      }
+      const punct = PUNCTUATION.find((p) => input.startsWith(p, i));
+      if (!punct) throw new GraphQueryError(`Unexpected character "${char}"`, i);
+      tokens.push({ kind: "punct", text: punct, pos: i });
+      i += punct.length;
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Parse a graph query, a read-only subset of Cypher:
+ *
+ * ```
+ * query    := MATCH pattern ("," pattern)* (WHERE expr)? RETURN ("*" | var ("," var)*) (LIMIT n)?
+ * pattern  := node (rel node)*
+ * node     := "(" var? (":" type)? ("{" key ":" literal ("," key ":" literal)* "}")? ")"
+ * rel      := "-[" detail "]->" | "<-[" detail "]-" | "-[" detail "]-" | "-->" | "<--" | "--"
+ * detail   := var? (":" type ("|" type)*)? ("*" (n | n ".." m? | ".." m)?)?
+ * expr     := and (OR and)*,  and := unary (AND unary)*,  unary := NOT unary | "(" expr ")" | predicate
+ * predicate:= operand op operand | operand IS [NOT] NULL
+ * op       := = <> != < <= > >= CONTAINS "STARTS WITH" "ENDS WITH" IN
+ * operand  := var "." field | string | number | true | false | null | "[" literal ("," literal)* "]"
+ * ```
+ *
+ * Entity fields are id, type, tags, created, updated and properties.<path>;
+ * relationship fields are id, type, weight, sourceId, targetId, created and
+ * properties.<path>. Keywords are case-insensitive; types and names with
+ * other characters can be quoted in backticks.
+ */
+export function parseGraphQuery(input: string): GraphQuery {
+  const tokens = tokenizeGraphQuery(input);
+  if (tokens.length === 0) throw new GraphQueryError("Empty query");
+
+  let index = 0;
+  const peek = (offset = 0) => tokens[index + offset];
+  const end = () => input.length;
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.kind === "word" && !token.quoted && token.text.toUpperCase() === keyword;
+  const isPunct = (token: Token | undefined, text: Punctuation) => token?.kind === "punct" && token.text === text;
+
+  const expectPunct = (text: Punctuation, context: string): Token => {
+    const token = peek();
+    if (!isPunct(token, text)) {
+      throw new GraphQueryError(`Expected "${text}" ${context}, found ${describe(token)}`, token?.pos ?? end());
+    }
+    index++;
+    return token!;
+  };
+
+  const expectName = (what: string): string => {
+    const token = peek();
+    if (token?.kind !== "word") {
+      throw new GraphQueryError(`Expected ${what}, found ${describe(token)}`, token?.pos ?? end());
+    }
+    index++;
+    return token.text;
+  };
+
+  const expectKeyword = (keyword: string, context: string) => {
+    const token = peek();
+    if (!isKeyword(token, keyword)) {
+      if (token?.kind === "word" && UNSUPPORTED_CLAUSES.includes(token.text.toUpperCase())) unsupportedClause(token);
+      throw new GraphQueryError(`Expected ${keyword} ${context}, found ${describe(token)}`, token?.pos ?? end());
+    }
+    index++;
+  };
+
+  const parseLiteral = (): GraphLiteral => {
+    const token = peek();
+    if (token?.kind === "string") {
+      index++;
+      return token.text;
+    }
+    if (token?.kind === "number") {
+      index++;
+      return token.value;
+    }
+    const next = peek(1);
+    if (isPunct(token, "-") && next?.kind === "number") {
+      index += 2;
+      return -next.value;
+    }
+    if (isKeyword(token, "TRUE") || isKeyword(token, "FALSE")) {
+      index++;
+      return isKeyword(token, "TRUE");
+    }
+    if (isKeyword(token, "NULL")) {
+      index++;
+      return null;
+    }
+    throw new GraphQueryError(`Expected a string, number, true, false or null, found ${describe(token)}`, token?.pos ?? end());
+  };
+
+  const parseNode = (): NodePattern => {
+    const open = expectPunct("(", "to start a node pattern");
+    const node: NodePattern = { properties: {}, pos: open.pos };
+
+    if (peek()?.kind === "word") node.variable = expectName("a variable");
+    if (isPunct(peek(), ":")) {
+      index++;
+      node.type = expectName("an entity type after \":\"");
+      if (isPunct(peek(), ":")) {
+        throw new GraphQueryError("Nodes can have only one type", peek()!.pos);
+      }
+    }
+    if (isPunct(peek(), "{")) {
+      index++;
+      if (!isPunct(peek(), "}")) {
+        for (;;) {
+          const key = expectName("a property name");
+          expectPunct(":", `after property "${key}"`);
+          node.properties[key] = parseLiteral();
+          if (!isPunct(peek(), ",")) break;
+          index++;
+        }
+      }
+      expectPunct("}", "to close the property map");
+    }
+    expectPunct(")", "to close the node pattern");
+    return node;
+  };
+
+  const parseRelationship = (): RelationshipPattern => {
+    const start = peek()!;
+    const incoming = isPunct(start, "<-");
+    if (!incoming && !isPunct(start, "-")) {
+      throw new GraphQueryError(`Expected a relationship such as -[:type]-> or a node, found ${describe(start)}`, start.pos);
+    }
+    index++;
+
+    const rel: RelationshipPattern = {
+      types: [],
+      direction: "both",
+      minHops: 1,
+      maxHops: 1,
+      variableLength: false,
+      pos: start.pos,
+    };
+
+    if (isPunct(peek(), "[")) {
+      index++;
+      if (peek()?.kind === "word") rel.variable = expectName("a variable");
+      if (isPunct(peek(), ":")) {
+        index++;
+        rel.types.push(expectName("a relationship type after \":\""));
+        while (isPunct(peek(), "|")) {
+          index++;
+          if (isPunct(peek(), ":")) index++;
+          rel.types.push(expectName("a relationship type after \"|\""));
+        }
+      }
+      if (isPunct(peek(), "*")) {
+        const star = peek()!;
+        index++;
+        parseHops(rel, star.pos);
+      }
+      if (isPunct(peek(), "{")) {
+        throw new GraphQueryError("Property maps on relationships are not supported; use WHERE r.properties.<name> instead", peek()!.pos);
+      }
+      expectPunct("]", "to close the relationship pattern");
+    }
+
+    const close = peek();
+    if (isPunct(close, "->")) {
+      if (incoming) throw new GraphQueryError("A relationship cannot point both ways (<-...->)", close!.pos);
+      rel.direction = "out";
+    } else if (isPunct(close, "-")) {
+      rel.direction = incoming ? "in" : "both";
+    } else {
+      throw new GraphQueryError(`Expected "-" or "->" to finish the relationship, found ${describe(close)}`, close?.pos ?? end());
+    }
+    index++;
+    return rel;
+  };
+
+  const parseHops = (rel: RelationshipPattern, pos: number) => {
+    rel.variableLength = true;
+    rel.minHops = 1;
+    rel.maxHops = MAX_HOPS;
+
+    const readCount = (): number => {
+      const token = peek() as Extract<Token, { kind: "number" }>;
+      if (!Number.isInteger(token.value)) throw new GraphQueryError("Hop counts must be whole numbers", token.pos);
+      index++;
+      return token.value;
+    };
+
+    if (peek()?.kind === "number") {
+      rel.minHops = readCount();
+      if (isPunct(peek(), "..")) {
+        index++;
+        if (peek()?.kind === "number") rel.maxHops = readCount();
+      } else {
+        rel.maxHops = rel.minHops;
+      }
+    } else if (isPunct(peek(), "..")) {
+      index++;
+      if (peek()?.kind !== "number") throw new GraphQueryError('Expected a number after ".."', peek()?.pos ?? end());
+      rel.maxHops = readCount();
+    }
+
+    if (rel.maxHops > MAX_HOPS) {
+      throw new GraphQueryError(`Variable-length relationships are limited to ${MAX_HOPS} hops`, pos);
+    }
+    if (rel.minHops > rel.maxHops) {
+      throw new GraphQueryError(`Invalid hop range ${rel.minHops}..${rel.maxHops}`, pos);
+    }
+  };
+
+  const parsePattern = (): PathPattern => {
+    const pattern: PathPattern = { nodes: [parseNode()], relationships: [] };
+    while (isPunct(peek(), "-") || isPunct(peek(), "<-")) {
+      pattern.relationships.push(parseRelationship());
+      pattern.nodes.push(parseNode());
+    }
+    return pattern;
+  };
+
+  const parseOperand = (): GraphOperand => {
+    const token = peek();
+    if (token?.kind === "word" && isPunct(peek(1), ".")) {
+      index += 2;
+      const path = [expectName(`a field of ${token.text}`)];
+      while (isPunct(peek(), ".")) {
+        index++;
+        path.push(expectName("a property name"));
+      }
+      return { kind: "field", variable: token.text, path, pos: token.pos };
+    }
+    if (isPunct(token, "[")) {
+      index++;
+      const values: GraphLiteral[] = [];
+      if (!isPunct(peek(), "]")) {
+        values.push(parseLiteral());
+        while (isPunct(peek(), ",")) {
+          index++;
+          values.push(parseLiteral());
+        }
+      }
+      expectPunct("]", "to close the list");
+      return { kind: "literal", value: values };
+    }
+    if (token?.kind === "word" && !["TRUE", "FALSE", "NULL"].includes(token.text.toUpperCase())) {
+      throw new GraphQueryError(
+        `Expected a field such as ${token.text}.properties.name or a literal, found ${describe(token)}`,
+        token.pos
+      );
+    }
+    return { kind: "literal", value: parseLiteral() };
+  };
+
+  const parseCompareOp = (): GraphCompareOp => {
+    const token = peek();
+    if (token?.kind === "punct" && ["=", "<>", "<", "<=", ">", ">="].includes(token.text)) {
+      index++;
+      return token.text as GraphCompareOp;
+    }
+    if (isKeyword(token, "CONTAINS") || isKeyword(token, "IN")) {
+      index++;
+      return (token as Extract<Token, { kind: "word" }>).text.toUpperCase() as GraphCompareOp;
+    }
+    if ((isKeyword(token, "STARTS") || isKeyword(token, "ENDS")) && isKeyword(peek(1), "WITH")) {
+      index += 2;
+      return isKeyword(token, "STARTS") ? "STARTS WITH" : "ENDS WITH";
+    }
+    if (isPunct(token, "<-")) {
+      throw new GraphQueryError('Write "< -n" with a space to compare with a negative number', token!.pos);
+    }
+    throw new GraphQueryError(
+      `Expected a comparison (=, <>, <, <=, >, >=, CONTAINS, STARTS WITH, ENDS WITH, IN or IS NULL), found ${describe(token)}`,
+      token?.pos ?? end()
+    );
+  };
+
+  const parsePredicate = (): GraphExpr => {
+    const left = parseOperand();
+    if (isKeyword(peek(), "IS")) {
+      index++;
+      const negated = isKeyword(peek(), "NOT");
+      if (negated) index++;
+      expectKeyword("NULL", "after IS");
+      return { type: "null", operand: left, negated };
+    }
+    const op = parseCompareOp();
+    const right = parseOperand();
+    if (op === "IN" && !(right.kind === "field" || Array.isArray(right.value))) {
+      throw new GraphQueryError("IN expects a list such as ['a', 'b'] or a list field such as n.tags", tokens[index - 1]?.pos);
+    }
+    return { type: "compare", left, op, right };
+  };
+
+  const parseUnary = (): GraphExpr => {
+    const token = peek();
+    if (!token) throw new GraphQueryError("Unexpected end of query in WHERE", end());
+    if (isKeyword(token, "NOT")) {
+      index++;
+      return { type: "not", clause: parseUnary() };
+    }
+    // "(" opens a group; patterns aren't allowed in WHERE
+    if (isPunct(token, "(")) {
+      index++;
+      const expr = parseOr();
+      expectPunct(")", "to close the group");
+      return expr;
+    }
+    return parsePredicate();
+  };
+
+  const parseAnd = (): GraphExpr => {
+    const clauses = [parseUnary()];
+    while (isKeyword(peek(), "AND")) {
+      index++;
+      clauses.push(parseUnary());
+    }
+    return clauses.length === 1 ? clauses[0]! : { type: "and", clauses };
+  };
+
+  const parseOr = (): GraphExpr => {
+    const clauses = [parseAnd()];
+    while (isKeyword(peek(), "OR")) {
+      index++;
+      clauses.push(parseAnd());
+    }
+    return clauses.length === 1 ? clauses[0]! : { type: "or", clauses };
+  };
+
+  // MATCH
+  expectKeyword("MATCH", "at the start of the query");
+  const patterns = [parsePattern()];
+  while (isPunct(peek(), ",")) {
+    index++;
+    patterns.push(parsePattern());
+  }
+
+  // WHERE
+  let where: GraphExpr | undefined;
+  if (isKeyword(peek(), "WHERE")) {
+    index++;
+    where = parseOr();
+  }
+
+  // RETURN
+  if (isKeyword(peek(), "MATCH")) {
+    throw new GraphQueryError("Only one MATCH clause is supported; separate patterns with commas instead", peek()!.pos);
+  }
+  expectKeyword("RETURN", "after the MATCH pattern");
+  const returns: string[] = [];
+  let returnAll = false;
+  if (isKeyword(peek(), "DISTINCT")) {
+    throw new GraphQueryError("RETURN DISTINCT is not supported; returned entities are already distinct", peek()!.pos);
+  }
+  if (isPunct(peek(), "*")) {
+    index++;
+    returnAll = true;
+  } else {
+    for (;;) {
+      const token = peek();
+      const name = expectName("a variable to return");
+      if (isPunct(peek(), ".") || isPunct(peek(), "(") || isKeyword(peek(), "AS")) {
+        throw new GraphQueryError("RETURN only accepts variables, such as RETURN s, d; fields, functions and aliases are not supported", token!.pos);
+      }
+      returns.push(name);
+      if (!isPunct(peek(), ",")) break;
+      index++;
+    }
+  }
+
+  // LIMIT
+  let limit: number | undefined;
+  if (isKeyword(peek(), "LIMIT")) {
+    index++;
+    const token = peek();
+    if (token?.kind !== "number" || !Number.isInteger(token.value) || token.value < 1) {
+      throw new GraphQueryError("LIMIT expects a positive whole number", token?.pos ?? end());
+    }
+    index++;
+    limit = token.value;
+  }
+
+  const rest = peek();
+  if (rest) {
+    if (rest.kind === "word" && UNSUPPORTED_CLAUSES.includes(rest.text.toUpperCase())) unsupportedClause(rest);
+    throw new GraphQueryError(`Unexpected ${describe(rest)}`, rest.pos);
+  }
+
+  const query: GraphQuery = { patterns, where, returns, limit };
+  validateVariables(query, returnAll);
+  return query;
+}
+
+function unsupportedClause(token: Extract<Token, { kind: "word" }>): never {
+  throw new GraphQueryError(
+    `${token.text.toUpperCase()} is not supported; graph queries are read-only and support MATCH, WHERE, RETURN and LIMIT`,
+    token.pos
+  );
+}
+
+function describe(token: Token | undefined): string {
+  if (!token) return "end of query";
+  switch (token.kind) {
+    case "punct":
+      return `"${token.text}"`;
+    case "string":
+      return `string "${token.text}"`;
+    case "number":
+      return token.text;
+    case "word":
+      return `"${token.text}"`;
+  }
+}
+
+/**
+ * Check that every variable is declared in the pattern and used consistently,
+ * and that fields exist. Fills in `returns` for RETURN *.
+ */
+function validateVariables(query: GraphQuery, returnAll: boolean): void {
+  const kinds = new Map<string, "node" | "relationship" | "path">();
+
+  for (const pattern of query.patterns) {
+    for (const node of pattern.nodes) {
+      if (!node.variable) continue;
+      const kind = kinds.get(node.variable);
+      if (kind && kind !== "node") {
+        throw new GraphQueryError(`${node.variable} is already used for a relationship`, node.pos);
+      }
+      kinds.set(node.variable, "node");
+    }
+    for (const rel of pattern.relationships) {
+      if (!rel.variable) continue;
+      if (kinds.has(rel.variable)) {
+        throw new GraphQueryError(`${rel.variable} is already used in the pattern`, rel.pos);
+      }
+      kinds.set(rel.variable, rel.variableLength ? "path" : "relationship");
+    }
+  }
+
+  const checkOperand = (operand: GraphOperand) => {
+    if (operand.kind !== "field") return;
+    const kind = kinds.get(operand.variable);
+    if (!kind) throw new GraphQueryError(`Variable ${operand.variable} is not defined in the MATCH pattern`, operand.pos);
+    if (kind === "path") {
+      throw new GraphQueryError(
+        `${operand.variable} is a variable-length relationship and cannot be compared; filter on the nodes it connects instead`,
+        operand.pos
+      );
+    }
+
+    const [field, ...rest] = operand.path;
+    const fields = kind === "node" ? ENTITY_FIELDS : RELATIONSHIP_FIELDS;
+    if (field === "properties") {
+      if (rest.length === 0) {
+        throw new GraphQueryError(`Name a property: ${operand.variable}.properties.<name>`, operand.pos);
+      }
+      return;
+    }
+    if (!fields.includes(field!) || rest.length > 0) {
+      throw new GraphQueryError(
+        `Unknown field ${operand.variable}.${operand.path.join(".")}; ${kind === "node" ? "entity" : "relationship"} fields are ${fields.join(", ")} and properties.<name>`,
+        operand.pos
+      );
+    }
+  };
+
+  const checkExpr = (expr: GraphExpr) => {
+    switch (expr.type) {
+      case "and":
+      case "or":
+        expr.clauses.forEach(checkExpr);
+        break;
+      case "not":
+        checkExpr(expr.clause);
+        break;
+      case "compare":
+        checkOperand(expr.left);
+        checkOperand(expr.right);
+        break;
+      case "null":
+        checkOperand(expr.operand);
+        break;
+    }
+  };
+  if (query.where) checkExpr(query.where);
+
+  if (returnAll) {
+    if (kinds.size === 0) throw new GraphQueryError("RETURN * needs at least one named variable in the pattern");
+    query.returns = Array.from(kinds.keys());
+  }
+  for (const name of query.returns) {
+    if (!kinds.has(name)) throw new GraphQueryError(`Variable ${name} in RETURN is not defined in the MATCH pattern`);
+  }
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Graph lookups a query runs against
+ */
+export interface GraphQuerySource {
+  entities(): Iterable<Entity>;
+  entity(id: string): Entity | undefined;
+  entitiesOfType(type: string): Entity[];
+  relationshipsOf(entityId: string): Relationship[];
+}
+
+export interface GraphQueryOptions {
+  limit?: number; // matches returned when the query has no LIMIT, default 100
+  maxExpansions?: number; // relationships followed before giving up, default 1,000,000
+}
+
+type Binding = Entity | Relationship | Relationship[];
+
+interface Conjunct {
+  expr: GraphExpr;
+  variables: Set<string>;
+}
+
+/**
+ * Find every match of the query's patterns. Each match becomes one path
+ * holding all of its entities and relationships in pattern order; the
+ * result's `entities` and `relationships` are the distinct values bound to
+ * the returned variables. A relationship is used at most once per match.
+ * WHERE clauses joined by AND are checked as soon as their variables are
+ * bound, so filters prune the search instead of running after it.
+ */
+export function executeGraphQuery(
+  query: GraphQuery,
+  source: GraphQuerySource,
+  options: GraphQueryOptions = {}
+): GraphQueryResult {
+  const limit = query.limit ?? options.limit ?? 100;
+  const maxExpansions = options.maxExpansions ?? 1_000_000;
+
+  const conjuncts: Conjunct[] = splitConjuncts(query.where).map((expr) => ({ expr, variables: variablesOf(expr) }));
+  if (conjuncts.some((c) => c.variables.size === 0 && !evaluate(c.expr, new Map()))) {
+    return { entities: [], relationships: [], paths: [] };
+  }
+
+  const chains = planChains(query.patterns);
+  const bindings = new Map<string, Binding>();
+  const usedRelationships = new Set<string>();
+  const trails = chains.map(() => ({ entities: [] as Entity[], relationships: [] as Relationship[] }));
+  const paths: NonNullable<GraphQueryResult["paths"]> = [];
+  const returnedEntities = new Map<string, Entity>();
+  const returnedRelationships = new Map<string, Relationship>();
+  let expansions = 0;
+  let truncated = false;
+
+  // One match past the limit is looked for, so `truncated` is only set when more exist
+  const stop = () => truncated;
+
+  // Bind a variable, then check the WHERE clauses that just became decidable
+  const bind = (variable: string | undefined, value: Binding, then: () => void) => {
+    if (!variable) return then();
+    bindings.set(variable, value);
+    const passes = conjuncts.every(
+      (c) => !c.variables.has(variable) || !Array.from(c.variables).every((v) => bindings.has(v)) || evaluate(c.expr, bindings)
+    );
+    if (passes) then();
+    bindings.delete(variable);
+  };
+
+  const emit = () => {
+    if (paths.length >= limit) {
+      truncated = true;
+      return;
+    }
+    const path = { entities: [] as Entity[], relationships: [] as Relationship[] };
+    chains.forEach((chain, i) => {
+      const trail = trails[i]!;
+      const entities = chain.reversed ? [...trail.entities].reverse() : trail.entities;
+      // Patterns joined on a shared node continue the path instead of repeating it
+      const joined = path.entities.length > 0 && path.entities[path.entities.length - 1] === entities[0];
+      path.entities.push(...(joined ? entities.slice(1) : entities));
+      path.relationships.push(...(chain.reversed ? [...trail.relationships].reverse() : trail.relationships));
+    });
+    paths.push(path);
+
+    for (const name of query.returns) {
+      const value = bindings.get(name);
+      if (Array.isArray(value)) value.forEach((r) => returnedRelationships.set(r.id, r));
+      else if (value && "sourceId" in value) returnedRelationships.set(value.id, value);
+      else if (value) returnedEntities.set(value.id, value);
+    }
+  };
+
+  const matchChain = (chainIndex: number) => {
+    if (chainIndex === chains.length) return emit();
+    const chain = chains[chainIndex]!;
+    const first = chain.nodes[0]!;
+    const bound = first.variable ? bindings.get(first.variable) : undefined;
+    const candidates = bound
+      ? [bound as Entity]
+      : first.type ? source.entitiesOfType(first.type) : source.entities();
+
+    for (const entity of candidates) {
+      if (stop()) return;
+      matchNode(chainIndex, 0, entity);
+    }
+  };
+
+  const matchNode = (chainIndex: number, nodeIndex: number, entity: Entity) => {
+    const chain = chains[chainIndex]!;
+    const node = chain.nodes[nodeIndex]!;
+    if (!nodeMatches(node, entity)) return;
+
+    const previous = node.variable ? bindings.get(node.variable) : undefined;
+    if (previous && (previous as Entity).id !== entity.id) return;
+
+    const trail = trails[chainIndex]!;
+    trail.entities.push(entity);
+    const next = () => {
+      if (nodeIndex === chain.relationships.length) matchChain(chainIndex + 1);
+      else expand(chainIndex, nodeIndex, entity);
+    };
+    if (previous) next();
+    else bind(node.variable, entity, next);
+    trail.entities.pop();
+  };
+
+  // Follow relationship `relIndex` of a chain from `from`, hop by hop
+  const expand = (chainIndex: number, relIndex: number, from: Entity) => {
+    const chain = chains[chainIndex]!;
+    const rel = chain.relationships[relIndex]!;
+    const trail = trails[chainIndex]!;
+    const hops: Relationship[] = [];
+
+    const arrive = (entity: Entity) => {
+      const value: Binding = rel.variableLength ? [...(chain.reversed ? [...hops].reverse() : hops)] : hops[0]!;
+      // The entity is already last on the trail (zero hops leave it where
+      // the walk started); matchNode puts it back
+      trail.entities.pop();
+      bind(rel.variable, value, () => matchNode(chainIndex, relIndex + 1, entity));
+      trail.entities.push(entity);
+    };
+
+    const walk = (current: Entity) => {
+      if (stop()) return;
+      if (hops.length >= rel.minHops) {
+        // Zero hops stay on the same entity and add no relationship to the trail
+        arrive(current);
+      }
+      if (hops.length === rel.maxHops) return;
+
+      for (const relationship of source.relationshipsOf(current.id)) {
+        if (stop()) return;
+        if (usedRelationships.has(relationship.id)) continue;
+        if (rel.types.length > 0 && !rel.types.includes(relationship.type)) continue;
+
+        const nextId =
+          rel.direction === "out" ? (relationship.sourceId === current.id ? relationship.targetId : undefined)
+          : rel.direction === "in" ? (relationship.targetId === current.id ? relationship.sourceId : undefined)
+          : relationship.sourceId === current.id ? relationship.targetId : relationship.sourceId;
+        const next = nextId !== undefined ? source.entity(nextId) : undefined;
+        if (!next) continue;
+        if (++expansions > maxExpansions) {
+          throw new GraphQueryError(
+            `Query stopped after following ${maxExpansions} relationships; narrow the pattern with types, a shorter hop range or a LIMIT`
+          );
+        }
+
+        usedRelationships.add(relationship.id);
+        hops.push(relationship);
+        trail.relationships.push(relationship);
+        trail.entities.push(next);
+        walk(next);
+        trail.entities.pop();
+        trail.relationships.pop();
+        hops.pop();
+        usedRelationships.delete(relationship.id);
+      }
+    };
+
+    walk(from);
+  };
+
+  matchChain(0);
+
+  return {
+    entities: Array.from(returnedEntities.values()),
+    relationships: Array.from(returnedRelationships.values()),
+    paths,
+    truncated,
+  };
+}
+
+/**
+ * Order each pattern so matching starts from its most selective end: an
+ * entity bound by an earlier pattern, then a typed node, then anything
+ */
+function planChains(patterns: PathPattern[]): Array<PathPattern & { reversed: boolean }> {
+  const bound = new Set<string>();
+  const selectivity = (node: NodePattern) =>
+    node.variable && bound.has(node.variable) ? 0 : node.type ? (Object.keys(node.properties).length > 0 ? 1 : 2) : 3;
+
+  return patterns.map((pattern) => {
+    const reversed = selectivity(pattern.nodes[pattern.nodes.length - 1]!) < selectivity(pattern.nodes[0]!);
+    const chain = reversed
+      ? {
+          nodes: [...pattern.nodes].reverse(),
+          relationships: [...pattern.relationships].reverse().map((rel) => ({
+            ...rel,
+            direction: rel.direction === "out" ? "in" as const : rel.direction === "in" ? "out" as const : rel.direction,
+          })),
+          reversed,
+        }
+      : { ...pattern, reversed };
+    pattern.nodes.forEach((node) => node.variable && bound.add(node.variable));
+    return chain;
+  });
+}
+
+function nodeMatches(node: NodePattern, entity: Entity): boolean {
+  if (node.type && entity.type !== node.type) return false;
+  return Object.entries(node.properties).every(([key, value]) => equals(entity.properties[key], value));
+}
+
+function splitConjuncts(expr: GraphExpr | undefined): GraphExpr[] {
+  if (!expr) return [];
+  return expr.type === "and" ? expr.clauses.flatMap(splitConjuncts) : [expr];
+}
+
+function variablesOf(expr: GraphExpr): Set<string> {
+  const variables = new Set<string>();
+  const visit = (e: GraphExpr) => {
+    switch (e.type) {
+      case "and":
+      case "or":
+        e.clauses.forEach(visit);
+        break;
+      case "not":
+        visit(e.clause);
+        break;
+      case "compare":
+        [e.left, e.right].forEach((o) => o.kind === "field" && variables.add(o.variable));
+        break;
+      case "null":
+        if (e.operand.kind === "field") variables.add(e.operand.variable);
+        break;
+    }
+  };
+  visit(expr);
+  return variables;
+}
+
+/**
+ * Whether bound values satisfy an expression. As in Cypher, a comparison
+ * with a missing value is false, so `n.properties.x <> 'a'` skips entities
+ * without an `x`.
+ */
+function evaluate(expr: GraphExpr, bindings: Map<string, Binding>): boolean {
+  switch (expr.type) {
+    case "and":
+      return expr.clauses.every((clause) => evaluate(clause, bindings));
+    case "or":
+      return expr.clauses.some((clause) => evaluate(clause, bindings));
+    case "not":
+      return !evaluate(expr.clause, bindings);
+    case "null": {
+      const value = resolve(expr.operand, bindings);
+      return (value === undefined || value === null) !== expr.negated;
+    }
+    case "compare":
+      return compare(resolve(expr.left, bindings), expr.op, resolve(expr.right, bindings));
+  }
+}
+
+function resolve(operand: GraphOperand, bindings: Map<string, Binding>): unknown {
+  if (operand.kind === "literal") return operand.value;
+
+  const bound = bindings.get(operand.variable) as Entity | Relationship | undefined;
+  if (!bound) return undefined;
+  const [field, ...rest] = operand.path;
+
+  if (field === "properties") {
+    let value: any = bound.properties;
+    for (const part of rest) {
+      if (value === null || typeof value !== "object") return undefined;
+      value = value[part];
+    }
+    return value;
+  }
+  if (field === "tags") return (bound as Entity).metadata.tags ?? [];
+  if (field === "weight") return (bound as Relationship).metadata.weight;
+  if (field === "created" || field === "updated") {
+    const date = (bound.metadata as Record<string, unknown>)[field];
+    return date instanceof Date ? date.getTime() : undefined;
+  }
+  return (bound as unknown as Record<string, unknown>)[field!];
+}
+
+function compare(left: unknown, op: GraphCompareOp, right: unknown): boolean {
+  if (left === undefined || left === null || right === undefined || right === null) return false;
+
+  switch (op) {
+    case "=":
+      return equals(left, right);
+    case "<>":
+      return !equals(left, right);
+    case "IN":
+      return Array.isArray(right) && right.some((item) => equals(left, item));
+    case "CONTAINS":
+      if (Array.isArray(left)) return left.some((item) => equals(item, right));
+      return typeof left === "string" && typeof right === "string" && left.includes(right);
+    case "STARTS WITH":
+      return typeof left === "string" && typeof right === "string" && left.startsWith(right);
+    case "ENDS WITH":
+      return typeof left === "string" && typeof right === "string" && left.endsWith(right);
+  }
+
+  // Ordering only between two numbers or two strings
+  if (typeof left !== typeof right || (typeof left !== "number" && typeof left !== "string")) return false;
+  const [a, b] = [left as number | string, right as number | string];
+  switch (op) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+  }
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equals(item, b[i]));
+  }
+  return a === b;
+}
@@ -0,0 +1,285 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Entity, Relationship } from "./knowledge-graph.js";
+
+/**
+ * A single write-ahead log record, one JSON object per line
+ */
+export type GraphJournalRecord =
+  | { seq: number; at: number; op: "entity"; entity: Entity }
+  | { seq: number; at: number; op: "relationship"; relationship: Relationship }
+  | { seq: number; at: number; op: "clear" };
+
+/**
+ * A log record before it is assigned a sequence number
+ */
+export type GraphJournalInput =
+  | { op: "entity"; entity: Entity }
+  | { op: "relationship"; relationship: Relationship }
+  | { op: "clear" };
+
+/**
+ * On-disk snapshot of the whole graph
+ */
+export interface GraphSnapshot {
+  version: 1;
+  seq: number;
+  createdAt: number;
+  entities: Entity[];
+  relationships: Relationship[];
+}
+
+/**
+ * Outcome of loading the snapshot and replaying the log on startup
+ */
+export interface GraphRecoveryReport {
+  snapshotLoaded: boolean;
+  snapshotCorrupt: boolean;
+  journalRecords: number;
+  skippedRecords: number; // unreadable lines
+  danglingRelationships: number; // dropped because an endpoint is missing
+  seq: number;
+}
+
+const SNAPSHOT_FILE = "graph-snapshot.json";
+const JOURNAL_FILE = "graph-journal.jsonl";
+
+/**
+ * Durable storage for KnowledgeGraph: a write-ahead log that every change
+ * is appended and fsynced to before it is acknowledged, plus periodic
+ * snapshots that compact the log
+ */
+export class GraphPersistence {
+  readonly directory: string;
+  readonly snapshotEvery: number;
+  private seq: number = 0;
+  private pending: number = 0;
+
+  constructor(options: { directory: string; snapshotEvery?: number }) {
+    this.directory = options.directory;
+    this.snapshotEvery = options.snapshotEvery ?? 500;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  get snapshotPath(): string {
+    return path.join(this.directory, SNAPSHOT_FILE);
+  }
+
+  get journalPath(): string {
+    return path.join(this.directory, JOURNAL_FILE);
+  }
+
+  /**
+   * Whether enough records have accumulated to warrant a new snapshot
+   */
+  get snapshotDue(): boolean {
+    return this.pending >= this.snapshotEvery;
+  }
+
+  /**
+   * Load the latest snapshot and replay the log on top of it. An unreadable
+   * snapshot is quarantined and unparsable log lines (a write cut short by a
+   * crash) are skipped, so a crash never prevents the server from starting.
+   * Relationships whose endpoints no longer exist are dropped.
+   */
+  load(): { entities: Entity[]; relationships: Relationship[]; report: GraphRecoveryReport } {
+    const entities = new Map<string, Entity>();
+    const relationships = new Map<string, Relationship>();
+    const report: GraphRecoveryReport = {
+      snapshotLoaded: false,
+      snapshotCorrupt: false,
+      journalRecords: 0,
+      skippedRecords: 0,
+      danglingRelationships: 0,
+      seq: 0,
+    };
+
+    const snapshot = this.readSnapshot();
+    if (snapshot === "corrupt") {
+      report.snapshotCorrupt = true;
+      this.quarantine(this.snapshotPath);
+    } else if (snapshot) {
+      report.snapshotLoaded = true;
+      report.seq = snapshot.seq;
+      snapshot.entities.forEach((entity) => entities.set(entity.id, entity));
+      snapshot.relationships.forEach((relationship) => relationships.set(relationship.id, relationship));
+    }
+
+    if (fs.existsSync(this.journalPath)) {
+      for (const line of fs.readFileSync(this.journalPath, "utf8").split("\n")) {
+        if (!line.trim()) continue;
+
+        const record = parseRecord(line);
+        if (!record) {
+          report.skippedRecords++;
+          continue;
+        }
+        // Records already folded into the snapshot
+        if (record.seq <= report.seq && report.snapshotLoaded) continue;
+
+        switch (record.op) {
+          case "entity":
+            entities.set(record.entity.id, record.entity);
+            break;
+          case "relationship":
+            relationships.set(record.relationship.id, record.relationship);
+            break;
+          case "clear":
+            entities.clear();
+            relationships.clear();
+            break;
+        }
+        report.journalRecords++;
+        report.seq = Math.max(report.seq, record.seq);
+      }
+    }
+
+    const kept = Array.from(relationships.values()).filter(
+      (r) => entities.has(r.sourceId) && entities.has(r.targetId)
+    );
+    report.danglingRelationships = relationships.size - kept.length;
+
+    this.seq = report.seq;
+    this.pending = report.journalRecords;
+
+    return { entities: Array.from(entities.values()), relationships: kept, report };
+  }
+
+  /**
+   * Append a record to the log and fsync it, so a change that returned
+   * survives a crash
+   */
+  append(record: GraphJournalInput): GraphJournalRecord {
+    const full = { ...record, seq: ++this.seq, at: Date.now() } as GraphJournalRecord;
+    const fd = fs.openSync(this.journalPath, "a");
+    try {
+      fs.writeSync(fd, JSON.stringify(full) + "\n");
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.pending++;
+    return full;
+  }
+
+  /**
+   * Write a snapshot of the graph and truncate the log. The snapshot is
+   * written to a temporary file and renamed into place, and records it
+   * covers are ignored on replay, so a crash at any point leaves a loadable
+   * graph.
+   */
+  snapshot(entities: Entity[], relationships: Relationship[]): void {
+    const snapshot: GraphSnapshot = {
+      version: 1,
+      seq: this.seq,
+      createdAt: Date.now(),
+      entities,
+      relationships,
+    };
+
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    const fd = fs.openSync(tmpPath, "w");
+    try {
+      fs.writeSync(fd, JSON.stringify(snapshot));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, this.snapshotPath);
+    fs.writeFileSync(this.journalPath, "", "utf8");
+    this.pending = 0;
+  }
+
+  private readSnapshot(): GraphSnapshot | "corrupt" | null {
+    if (!fs.existsSync(this.snapshotPath)) return null;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.snapshotPath, "utf8"));
+      if (!raw || raw.version !== 1 || !Array.isArray(raw.entities) || !Array.isArray(raw.relationships)) {
+        return "corrupt";
+      }
+
+      return {
+        version: 1,
+        seq: typeof raw.seq === "number" ? raw.seq : 0,
+        createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+        entities: raw.entities.map(reviveEntity).filter((e: Entity | null): e is Entity => e !== null),
+        relationships: raw.relationships
+          .map(reviveRelationship)
+          .filter((r: Relationship | null): r is Relationship => r !== null),
+      };
+    } catch {
+      return "corrupt";
+    }
+  }
+
+  private quarantine(filePath: string): void {
+    try {
+      fs.renameSync(filePath, `${filePath}.corrupt-${Date.now()}`);
+    } catch {
+      // Best effort: a missing file needs no quarantine
+    }
+  }
+}
+
+function parseRecord(line: string): GraphJournalRecord | null {
+  let raw: any;
+  try {
+    raw = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw.seq !== "number") return null;
+
+  switch (raw.op) {
+    case "entity": {
+      const entity = reviveEntity(raw.entity);
+      return entity ? { seq: raw.seq, at: raw.at, op: "entity", entity } : null;
+    }
+    case "relationship": {
+      const relationship = reviveRelationship(raw.relationship);
+      return relationship ? { seq: raw.seq, at: raw.at, op: "relationship", relationship } : null;
+    }
+    case "clear":
+      return { seq: raw.seq, at: raw.at, op: "clear" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * An entity read back from JSON, with its dates restored
+ */
+function reviveEntity(raw: any): Entity | null {
+  if (!raw || typeof raw.id !== "string" || typeof raw.type !== "string") return null;
+  return {
+    id: raw.id,
+    type: raw.type,
+    properties: raw.properties ?? {},
+    metadata: {
+      created: new Date(raw.metadata?.created ?? 0),
+      updated: new Date(raw.metadata?.updated ?? raw.metadata?.created ?? 0),
+      tags: raw.metadata?.tags,
+    },
+  };
+}
+
+/**
+ * A relationship read back from JSON, with its date restored
+ */
+function reviveRelationship(raw: any): Relationship | null {
+  if (!raw || typeof raw.id !== "string" || typeof raw.sourceId !== "string" || typeof raw.targetId !== "string") {
+    return null;
+  }
+  return {
+    id: raw.id,
+    sourceId: raw.sourceId,
+    targetId: raw.targetId,
+    type: String(raw.type),
+    properties: raw.properties,
+    metadata: {
+      created: new Date(raw.metadata?.created ?? 0),
+      weight: raw.metadata?.weight,
+    },
+  };
+}
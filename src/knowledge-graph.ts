@@ -1,4 +1,20 @@
 import { v4 as uuidv4 } from "uuid";
+import type { GraphPersistence, GraphRecoveryReport } from "./knowledge-graph-persistence.js";
+import { executeGraphQuery, parseGraphQuery, type GraphQueryOptions } from "./graph-query.js";
+import { allPaths, kShortestPaths, type PathOptions, type PathSource, type WeightedPath } from "./graph-paths.js";
+import { analyzeImpact, type ImpactOptions, type ImpactReport } from "./graph-impact.js";
+import {
+  betweenness,
+  findCycles,
+  pageRank,
+  singlePointsOfFailure,
+  stronglyConnectedComponents,
+  type AnalyticsOptions,
+  type CentralityScore,
+  type CircularDependency,
+  type PageRankOptions,
+  type SinglePointsOfFailure,
+} from "./graph-analytics.js";
 
 /**
  * Core entity interface for knowledge graph nodes
@@ -38,7 +54,9 @@ export interface GraphQueryResult {
   paths?: Array<{
     entities: Entity[];
     relationships: Relationship[];
+    cost?: number; // summed relationship costs, for paths from findPaths
   }>;
+  truncated?: boolean; // more matches or paths exist than were returned
 }
 
 /**
@@ -49,6 +67,20 @@ export class KnowledgeGraph {
   private relationships: Map<string, Relationship> = new Map();
   private entityRelationships: Map<string, Set<string>> = new Map(); // entityId -> relationshipIds
   private typeIndex: Map<string, Set<string>> = new Map(); // type -> entityIds
+  private persistence?: GraphPersistence;
+  private analyticsCache: Map<string, unknown> = new Map(); // analysis + options -> result, cleared on every change
+
+  /**
+   * Report from loading the persisted graph, if persistence is enabled
+   */
+  readonly recovery?: GraphRecoveryReport;
+
+  constructor(options: { persistence?: GraphPersistence } = {}) {
+    if (options.persistence) {
+      this.persistence = options.persistence;
+      this.recovery = this.replay();
+    }
+  }
 
   /**
    * Add or update an entity in the knowledge graph
@@ -75,12 +107,14 @@ export class KnowledgeGraph {
     };
 
     this.entities.set(entityId, entity);
-    
-    // Update type index
-    if (!this.typeIndex.has(type)) {
-      this.typeIndex.set(type, new Set());
+    this.analyticsCache.clear();
+    if (existingEntity && existingEntity.type !== type) {
+      this.removeFromTypeIndex(existingEntity);
     }
-    this.typeIndex.get(type)!.add(entityId);
+    this.indexEntity(entity);
+
+    this.persistence?.append({ op: "entity", entity });
+    this.compactIfDue();
 
     return entity;
   }
@@ -133,17 +167,11 @@ export class KnowledgeGraph {
     };
 
     this.relationships.set(relationshipId, relationship);
+    this.indexRelationship(relationship);
+    this.analyticsCache.clear();
 
-    // Update entity relationship index
-    if (!this.entityRelationships.has(sourceId)) {
-      this.entityRelationships.set(sourceId, new Set());
-    }
-    if (!this.entityRelationships.has(targetId)) {
-      this.entityRelationships.set(targetId, new Set());
-    }
-    
-    this.entityRelationships.get(sourceId)!.add(relationshipId);
-    this.entityRelationships.get(targetId)!.add(relationshipId);
+    this.persistence?.append({ op: "relationship", relationship });
+    this.compactIfDue();
 
     return relationship;
   }
@@ -241,71 +269,30 @@ export class KnowledgeGraph {
   }
 
   /**
-   * Find paths between two entities using BFS
+   * Find paths between two entities, cheapest first. With `k` set, returns
+   * the k cheapest loopless paths (Dijkstra and Yen's algorithm); otherwise
+   * every loopless path of at most `maxDepth` relationships, or the
+   * cheapest `maxResults` of them when there are more. Relationship weights are costs unless `weighting` says
+   * otherwise; see PathWeighting.
    */
   public findPaths(
     sourceId: string,
     targetId: string,
-    maxDepth: number = 5
+    maxDepth: number = 5,
+    options: PathOptions = {}
   ): GraphQueryResult {
-    const visited = new Set<string>();
-    const queue: Array<{
-      entityId: string;
-      path: Array<{ entity: Entity; relationship?: Relationship }>;
-      depth: number;
-    }> = [];
-
-    const sourceEntity = this.entities.get(sourceId);
-    if (!sourceEntity) {
-      return { entities: [], relationships: [] };
-    }
-
-    queue.push({
-      entityId: sourceId,
-      path: [{ entity: sourceEntity }],
-      depth: 0,
-    });
-
-    const foundPaths: Array<{
-      entities: Entity[];
-      relationships: Relationship[];
-    }> = [];
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-
-      if (current.entityId === targetId) {
-        // Found a path
-        const entities = current.path.map(p => p.entity);
-        const relationships = current.path
-          .filter(p => p.relationship)
-          .map(p => p.relationship!);
-        
-        foundPaths.push({ entities, relationships });
-        continue;
-      }
-
-      if (current.depth >= maxDepth) {
-        continue;
-      }
-
-      if (visited.has(current.entityId)) {
-        continue;
-      }
+    const source: PathSource = {
+      entity: (id) => this.entities.get(id),
+      relationshipsOf: (entityId) => this.getEntityRelationships(entityId),
+    };
+    const maxResults = options.maxResults ?? 100;
 
-      visited.add(current.entityId);
-
-      // Explore neighbors
-      const related = this.getRelatedEntities(current.entityId);
-      for (const { entity, relationship } of related) {
-        if (!visited.has(entity.id)) {
-          queue.push({
-            entityId: entity.id,
-            path: [...current.path, { entity, relationship }],
-            depth: current.depth + 1,
-          });
-        }
-      }
+    let foundPaths: WeightedPath[];
+    let truncated = false;
+    if (options.k !== undefined) {
+      foundPaths = kShortestPaths(source, sourceId, targetId, Math.min(options.k, maxResults), maxDepth, options);
+    } else {
+      ({ paths: foundPaths, truncated } = allPaths(source, sourceId, targetId, maxDepth, maxResults, options));
     }
 
     // Collect all unique entities and relationships from found paths
@@ -325,9 +312,80 @@ export class KnowledgeGraph {
       entities: Array.from(allEntities.values()),
       relationships: Array.from(allRelationships.values()),
       paths: foundPaths,
+      truncated,
     };
   }
 
+  /**
+   * Run a Cypher-like pattern query, e.g.
+   * `MATCH (s:service)-[:depends_on*1..3]->(d:database) WHERE d.properties.env = 'prod' RETURN s, d`.
+   * Throws GraphQueryError for syntax it doesn't support; see parseGraphQuery().
+   */
+  public query(text: string, options: GraphQueryOptions = {}): GraphQueryResult {
+    return executeGraphQuery(
+      parseGraphQuery(text),
+      {
+        entities: () => this.entities.values(),
+        entity: (id) => this.entities.get(id),
+        entitiesOfType: (type) => this.getEntitiesByType(type),
+        relationshipsOf: (entityId) => this.getEntityRelationships(entityId),
+      },
+      options
+    );
+  }
+
+  /**
+   * Everything that depends on an entity, directly or through other
+   * entities, ranked by criticality. Returns null for an unknown entity.
+   */
+  public impact(entityId: string, options: ImpactOptions = {}): ImpactReport | null {
+    return analyzeImpact(
+      {
+        entity: (id) => this.entities.get(id),
+        relationshipsOf: (id) => this.getEntityRelationships(id),
+      },
+      entityId,
+      options
+    );
+  }
+
+  /**
+   * PageRank of every entity, highest first. Cached until the graph changes,
+   * as are the other analyses.
+   */
+  public pageRank(options: PageRankOptions = {}): CentralityScore[] {
+    return this.analyze("pageRank", options, () => pageRank(this.analyticsInput(), options));
+  }
+
+  /**
+   * Betweenness centrality of every entity, highest first
+   */
+  public betweenness(options: AnalyticsOptions = {}): CentralityScore[] {
+    return this.analyze("betweenness", options, () => betweenness(this.analyticsInput(), options));
+  }
+
+  /**
+   * Strongly connected components, largest first
+   */
+  public stronglyConnectedComponents(options: AnalyticsOptions = {}): Entity[][] {
+    return this.analyze("components", options, () => stronglyConnectedComponents(this.analyticsInput(), options));
+  }
+
+  /**
+   * Groups of entities that depend on each other in a circle
+   */
+  public findCycles(options: AnalyticsOptions = {}): CircularDependency[] {
+    return this.analyze("cycles", options, () => findCycles(this.analyticsInput(), options));
+  }
+
+  /**
+   * Articulation points and bridges, the entities and relationships whose
+   * loss disconnects the graph
+   */
+  public singlePointsOfFailure(options: AnalyticsOptions = {}): SinglePointsOfFailure {
+    return this.analyze("spof", options, () => singlePointsOfFailure(this.analyticsInput(), options));
+  }
+
   /**
    * Get graph statistics
    */
@@ -382,5 +440,90 @@ export class KnowledgeGraph {
     this.relationships.clear();
     this.entityRelationships.clear();
     this.typeIndex.clear();
+    this.analyticsCache.clear();
+
+    this.persistence?.append({ op: "clear" });
+    this.compactIfDue();
+  }
+
+  /**
+   * Write a snapshot of the graph and truncate the write-ahead log
+   */
+  public flush(): void {
+    this.persistence?.snapshot(Array.from(this.entities.values()), Array.from(this.relationships.values()));
+  }
+
+  /**
+   * Load the persisted snapshot and log, then rebuild the type and
+   * relationship indices
+   */
+  private replay(): GraphRecoveryReport {
+    const { entities, relationships, report } = this.persistence!.load();
+
+    entities.forEach((entity) => {
+      this.entities.set(entity.id, entity);
+      this.indexEntity(entity);
+    });
+    relationships.forEach((relationship) => {
+      this.relationships.set(relationship.id, relationship);
+      this.indexRelationship(relationship);
+    });
+
+    // Rewrite a damaged log so later appends don't land after garbage
+    if (report.skippedRecords > 0 || report.snapshotCorrupt) {
+      console.error(
+        `[graph] Recovered ${entities.length} entities and ${relationships.length} relationships from ${this.persistence!.directory} ` +
+          `(skipped ${report.skippedRecords} unreadable log records${report.snapshotCorrupt ? ", snapshot was corrupt" : ""})`
+      );
+      this.flush();
+    }
+
+    return report;
+  }
+
+  /**
+   * Cached result of an analysis. Results are shared between callers and
+   * must not be modified.
+   */
+  private analyze<T>(name: string, options: object, compute: () => T): T {
+    const key = `${name}:${JSON.stringify(options)}`;
+    if (!this.analyticsCache.has(key)) {
+      this.analyticsCache.set(key, compute());
+    }
+    return this.analyticsCache.get(key) as T;
+  }
+
+  private analyticsInput(): { entities: Entity[]; relationships: Relationship[] } {
+    return { entities: Array.from(this.entities.values()), relationships: Array.from(this.relationships.values()) };
+  }
+
+  private indexEntity(entity: Entity): void {
+    if (!this.typeIndex.has(entity.type)) {
+      this.typeIndex.set(entity.type, new Set());
+    }
+    this.typeIndex.get(entity.type)!.add(entity.id);
+  }
+
+  private removeFromTypeIndex(entity: Entity): void {
+    const ids = this.typeIndex.get(entity.type);
+    ids?.delete(entity.id);
+    if (ids && ids.size === 0) {
+      this.typeIndex.delete(entity.type);
+    }
+  }
+
+  private indexRelationship(relationship: Relationship): void {
+    for (const entityId of [relationship.sourceId, relationship.targetId]) {
+      if (!this.entityRelationships.has(entityId)) {
+        this.entityRelationships.set(entityId, new Set());
+      }
+      this.entityRelationships.get(entityId)!.add(relationship.id);
+    }
+  }
+
+  private compactIfDue(): void {
+    if (this.persistence?.snapshotDue) {
+      this.flush();
+    }
   }
 }
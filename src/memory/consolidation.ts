@@ -0,0 +1,151 @@
+import type { MemoryEntry } from "./index.js";
+import { contentSimilarity } from "./dedupe.js";
+import { STOP_WORDS, tokenize } from "./embedding.js";
+
+/**
+ * Turns a cluster of related memories into the content of a summary memory
+ */
+export interface Summarizer {
+  readonly name: string;
+  summarize(memories: MemoryEntry[], options: { label: string }): Promise<string>;
+}
+
+/**
+ * Options accepted by LongTermMemory.consolidate()
+ */
+export interface ConsolidateOptions {
+  context?: string; // only consolidate memories in this context
+  namespace?: string; // defaults to the default namespace
+  minClusterSize?: number; // smallest cluster that gets a summary (default: 3)
+  threshold?: number; // pair similarity needed to join a cluster (default: 0.5)
+  demote?: "none" | "lower" | "archive"; // what happens to the originals (default: none)
+  dryRun?: boolean; // report clusters and summaries without storing anything
+  summarizer?: Summarizer; // overrides the configured summarizer
+  author?: string;
+}
+
+/**
+ * A cluster of related memories and the summary written for it
+ */
+export interface ConsolidationCluster {
+  label: string;
+  memoryIds: string[];
+  summary: string;
+  summaryId?: string; // unset on dry runs
+}
+
+export interface ConsolidationReport {
+  dryRun: boolean;
+  scanned: number;
+  summarizer: string;
+  patterns: Array<{ pattern: string; count: number; memoryIds: string[] }>;
+  clusters: ConsolidationCluster[];
+  demoted: string[];
+}
+
+/**
+ * Extractive summarizer: keeps the sentences whose words recur most across
+ * the cluster, weighted by the importance of the memory they came from
+ */
+export class ExtractiveSummarizer implements Summarizer {
+  readonly name = "extractive";
+
+  constructor(private readonly maxSentences: number = 3) {}
+
+  async summarize(memories: MemoryEntry[], options: { label: string }): Promise<string> {
+    // How many memories each term appears in
+    const documentFrequency = new Map<string, number>();
+    memories.forEach((memory) => {
+      new Set(terms(memory.content)).forEach((term) =>
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+      );
+    });
+
+    const sentences = memories
+      .slice()
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .flatMap((memory) =>
+        splitSentences(memory.content).map((text) => {
+          const sentenceTerms = Array.from(new Set(terms(text)));
+          const coverage = sentenceTerms.reduce((sum, term) => sum + (documentFrequency.get(term) || 0), 0);
+          return {
+            text,
+            score: sentenceTerms.length > 0 ? (coverage / Math.sqrt(sentenceTerms.length)) * (0.5 + memory.importance) : 0,
+          };
+        })
+      );
+
+    // Best sentences first, skipping near-repeats, then back in time order
+    const chosen: typeof sentences = [];
+    for (const sentence of sentences.slice().sort((a, b) => b.score - a.score)) {
+      if (chosen.length >= this.maxSentences) break;
+      if (chosen.some((c) => contentSimilarity(c.text, sentence.text) >= 0.8)) continue;
+      chosen.push(sentence);
+    }
+    chosen.sort((a, b) => sentences.indexOf(a) - sentences.indexOf(b));
+
+    return `Summary of ${memories.length} memories (${options.label}): ${chosen
+      .map((s) => (/[.!?]$/.test(s.text) ? s.text : `${s.text}.`))
+      .join(" ")}`;
+  }
+}
+
+/**
+ * Minimal shape of an MCP `sampling/createMessage` call, so this module does
+ * not depend on the SDK
+ */
+export type CreateMessage = (request: {
+  messages: Array<{ role: "user" | "assistant"; content: { type: "text"; text: string } }>;
+  systemPrompt?: string;
+  maxTokens: number;
+}) => Promise<{ content: { type: string; text?: string } }>;
+
+/**
+ * Summarizer that asks the MCP client's model via sampling, falling back to
+ * another summarizer when the request fails or returns no text
+ */
+export class SamplingSummarizer implements Summarizer {
+  readonly name = "sampling";
+
+  constructor(
+    private readonly createMessage: CreateMessage,
+    private readonly fallback: Summarizer = new ExtractiveSummarizer(),
+    private readonly maxTokens: number = 400
+  ) {}
+
+  async summarize(memories: MemoryEntry[], options: { label: string }): Promise<string> {
+    const listing = memories
+      .map((m) => `- [${new Date(m.timestamp).toISOString()}] ${m.content}`)
+      .join("\n");
+
+    try {
+      const result = await this.createMessage({
+        systemPrompt:
+          "You consolidate notes from a long-term memory store. Write one concise paragraph that keeps every decision, fact and open question. Do not add information.",
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: `Summarize these ${memories.length} related memories about ${options.label}:\n\n${listing}` },
+          },
+        ],
+        maxTokens: this.maxTokens,
+      });
+      const text = result.content.type === "text" ? result.content.text?.trim() : undefined;
+      if (text) return text;
+    } catch (error) {
+      console.error(`[memory] Sampling summarizer failed, using ${this.fallback.name}:`, error);
+    }
+    return this.fallback.summarize(memories, options);
+  }
+}
+
+function terms(text: string): string[] {
+  return tokenize(text).filter((token) => !STOP_WORDS.has(token));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,191 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { ProjectProfile } from "../resource/project/index.js";
+import type { MemoryEntry } from "./index.js";
+
+export type DecisionStatus = "proposed" | "accepted" | "superseded";
+
+/**
+ * An option that was considered and not chosen
+ */
+export interface DecisionAlternative {
+  option: string;
+  reason?: string; // why it was not chosen
+}
+
+/**
+ * Fields supplied when recording a decision
+ */
+export interface DecisionInput {
+  title: string;
+  context: string;
+  decision: string;
+  status?: Exclude<DecisionStatus, "superseded">; // default: proposed
+  alternatives?: DecisionAlternative[];
+  consequences?: string[];
+  entities?: string[]; // knowledge graph entity IDs
+  memories?: string[]; // IDs of related memories
+}
+
+/**
+ * An architecture decision record. Decisions are stored as memories with
+ * `metadata.kind` set to "decision"; this is the view of one.
+ */
+export interface DecisionRecord {
+  id: string; // memory ID
+  number: number; // sequential per namespace, as in ADR file names
+  title: string;
+  status: DecisionStatus;
+  date: number;
+  context: string;
+  decision: string;
+  alternatives: DecisionAlternative[];
+  consequences: string[];
+  entities: string[];
+  memories: string[];
+  supersedes?: string;
+  supersededBy?: string;
+  namespace: string;
+}
+
+/**
+ * Read a decision record from its memory
+ */
+export function toDecisionRecord(memory: MemoryEntry): DecisionRecord | undefined {
+  const meta = memory.metadata;
+  if (meta.kind !== "decision") return undefined;
+
+  return {
+    id: memory.id,
+    number: typeof meta.number === "number" ? meta.number : 0,
+    title: String(meta.title ?? ""),
+    status: meta.status === "accepted" || meta.status === "superseded" ? meta.status : "proposed",
+    date: memory.timestamp,
+    context: String(meta.context ?? ""),
+    decision: String(meta.decision ?? ""),
+    alternatives: Array.isArray(meta.alternatives) ? meta.alternatives : [],
+    consequences: stringList(meta.consequences),
+    entities: stringList(meta.entities),
+    memories: stringList(meta.memories),
+    supersedes: typeof meta.supersedes === "string" ? meta.supersedes : undefined,
+    supersededBy: typeof meta.supersededBy === "string" ? meta.supersededBy : undefined,
+    namespace: memory.namespace,
+  };
+}
+
+/**
+ * Searchable memory content for a decision. Status is kept out so a status
+ * change doesn't rewrite the content.
+ */
+export function decisionContent(input: DecisionInput): string {
+  return [
+    input.title,
+    `Context: ${input.context}`,
+    `Decision: ${input.decision}`,
+    ...(input.alternatives || []).map(
+      (a) => `Alternative: ${a.option}${a.reason ? ` (${a.reason})` : ""}`
+    ),
+    ...(input.consequences || []).map((c) => `Consequence: ${c}`),
+  ].join("\n");
+}
+
+/**
+ * File name for a decision, e.g. `0003-use-postgres-for-billing.md`
+ */
+export function adrFileName(record: Pick<DecisionRecord, "number" | "title">): string {
+  const slug = record.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${String(record.number).padStart(4, "0")}-${slug || "decision"}.md`;
+}
+
+/**
+ * Render a decision as an ADR in the Nygard format: title, date, status,
+ * context, decision and consequences, plus the alternatives and links kept
+ * with the record. `lookup` resolves superseding records for their links.
+ */
+export function renderAdr(
+  record: DecisionRecord,
+  lookup: (id: string) => DecisionRecord | undefined = () => undefined,
+  describeEntity: (id: string) => string = (id) => id
+): string {
+  const link = (id: string) => {
+    const other = lookup(id);
+    return other ? `[${other.number}. ${other.title}](${adrFileName(other)})` : id;
+  };
+
+  const status = [capitalize(record.status)];
+  if (record.supersededBy) status[0] = `Superseded by ${link(record.supersededBy)}`;
+  if (record.supersedes) status.push(`Supersedes ${link(record.supersedes)}`);
+
+  const sections = [
+    `# ${record.number}. ${record.title}`,
+    `Date: ${new Date(record.date).toISOString().slice(0, 10)}`,
+    `## Status\n\n${status.join("\n\n")}`,
+    `## Context\n\n${record.context}`,
+    `## Decision\n\n${record.decision}`,
+  ];
+  if (record.alternatives.length > 0) {
+    sections.push(
+      `## Alternatives Considered\n\n${record.alternatives
+        .map((a) => `- **${a.option}**${a.reason ? `: ${a.reason}` : ""}`)
+        .join("\n")}`
+    );
+  }
+  sections.push(
+    `## Consequences\n\n${
+      record.consequences.length > 0 ? record.consequences.map((c) => `- ${c}`).join("\n") : "None recorded."
+    }`
+  );
+  if (record.entities.length > 0 || record.memories.length > 0) {
+    sections.push(
+      [
+        "## Links",
+        "",
+        ...record.entities.map((id) => `- Entity: ${describeEntity(id)}`),
+        ...record.memories.map((id) => `- Memory: ${id}`),
+      ].join("\n")
+    );
+  }
+  return sections.join("\n\n") + "\n";
+}
+
+/**
+ * Write each decision to `<directory>/<NNNN-title>.md`, creating the
+ * directory if needed. Returns the paths written.
+ */
+export async function writeAdrFiles(
+  records: DecisionRecord[],
+  directory: string,
+  describeEntity?: (id: string) => string
+): Promise<string[]> {
+  const byId = new Map(records.map((record) => [record.id, record]));
+  await fs.mkdir(directory, { recursive: true });
+
+  const written: string[] = [];
+  for (const record of records.slice().sort((a, b) => a.number - b.number)) {
+    const filePath = path.join(directory, adrFileName(record));
+    await fs.writeFile(filePath, renderAdr(record, (id) => byId.get(id), describeEntity), "utf8");
+    written.push(filePath);
+  }
+  return written;
+}
+
+/**
+ * Where a project keeps its ADRs: `adr/` under the profile's docs path,
+ * resolved against the project root. Undefined when no docs path is set.
+ */
+export function adrDirectory(profile: ProjectProfile): string | undefined {
+  if (!profile.paths.docs) return undefined;
+  return path.resolve(profile.paths.root, profile.paths.docs, "adr");
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,94 @@
+import { STOP_WORDS, tokenize } from "./embedding.js";
+
+/**
+ * Provenance left on a memory each time a duplicate is merged into it
+ */
+export interface MergeProvenance {
+  mergedAt: number;
+  similarity: number;
+  sourceId?: string;
+  content?: string;
+  context?: string;
+  author?: string;
+}
+
+/**
+ * What happened when a duplicate was folded into an existing memory
+ */
+export interface MergeReport {
+  targetId: string;
+  sourceId?: string;
+  similarity: number;
+  addedTags: string[];
+  importance: { before: number; after: number };
+}
+
+/**
+ * A group of near-duplicate memories and the one they collapse into
+ */
+export interface DuplicateCluster {
+  canonicalId: string;
+  duplicateIds: string[];
+  similarity: number;
+}
+
+/**
+ * Jaccard similarity of the content word sets, ignoring case, punctuation and
+ * stop words. 1 means the same words in any order.
+ */
+export function contentSimilarity(a: string, b: string): number {
+  const setA = contentTerms(a);
+  const setB = contentTerms(b);
+  if (setA.size === 0 && setB.size === 0) return a.trim() === b.trim() ? 1 : 0;
+
+  let intersection = 0;
+  for (const term of setA) {
+    if (setB.has(term)) intersection++;
+  }
+  return intersection / (setA.size + setB.size - intersection);
+}
+
+function contentTerms(text: string): Set<string> {
+  return new Set(tokenize(text).filter((token) => !STOP_WORDS.has(token)));
+}
+
+/**
+ * Minimal union-find used to group duplicate pairs into clusters
+ */
+export class DisjointSet {
+  private parents: Map<string, string> = new Map();
+
+  find(id: string): string {
+    let root = id;
+    while (this.parents.has(root) && this.parents.get(root) !== root) {
+      root = this.parents.get(root)!;
+    }
+    // Path compression
+    let current = id;
+    while (current !== root) {
+      const next = this.parents.get(current)!;
+      this.parents.set(current, root);
+      current = next;
+    }
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) {
+      this.parents.set(rootA, rootA);
+      this.parents.set(rootB, rootA);
+    }
+  }
+
+  groups(): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const id of this.parents.keys()) {
+      const root = this.find(id);
+      if (!groups.has(root)) groups.set(root, []);
+      groups.get(root)!.push(id);
+    }
+    return groups;
+  }
+}
@@ -0,0 +1,457 @@
+/**
+ * Embedding kept as 32-bit floats. Model embeddings are dense; hashed
+ * embeddings are mostly zeros, so only their nonzero buckets are kept,
+ * indices ascending.
+ */
+export type Vector = Float32Array | SparseVector;
+
+export interface SparseVector {
+  dimensions: number;
+  indices: Uint32Array;
+  values: Float32Array;
+}
+
+/**
+ * Pluggable text embedders used for semantic memory recall
+ */
+export interface Embedder {
+  readonly name: string;
+
+  /**
+   * Embed stored memory texts
+   */
+  embedDocuments(texts: string[]): Promise<Vector[]>;
+
+  /**
+   * Embed a recall query
+   */
+  embedQuery(text: string): Promise<Vector>;
+
+  /**
+   * Synchronous variants, implemented by offline embedders so that
+   * recall() can score inline without awaiting a remote model
+   */
+  embedDocumentsSync?(texts: string[]): Vector[];
+  embedQuerySync?(text: string): Vector;
+
+  /**
+   * Corpus statistics hooks, called as memories are added and removed
+   */
+  addDocument?(text: string): void;
+  removeDocument?(text: string): void;
+}
+
+/**
+ * Common DevOps shorthand folded onto a canonical term so that, e.g.,
+ * "DB creds" and "postgres password" share features
+ */
+export const DEFAULT_SYNONYMS: Record<string, string> = {
+  db: "database",
+  dbs: "database",
+  postgres: "database",
+  postgresql: "database",
+  pg: "database",
+  mysql: "database",
+  mariadb: "database",
+  mongo: "database",
+  mongodb: "database",
+  creds: "credential",
+  cred: "credential",
+  credentials: "credential",
+  password: "credential",
+  passwords: "credential",
+  passwd: "credential",
+  pwd: "credential",
+  secret: "credential",
+  secrets: "credential",
+  token: "credential",
+  tokens: "credential",
+  k8s: "kubernetes",
+  kube: "kubernetes",
+  tf: "terraform",
+  env: "environment",
+  envs: "environment",
+  prod: "production",
+  stg: "staging",
+  dev: "development",
+  cfg: "configuration",
+  config: "configuration",
+  conf: "configuration",
+  repo: "repository",
+  repos: "repository",
+  auth: "authentication",
+  authn: "authentication",
+  authz: "authorization",
+  deploy: "deployment",
+  deploys: "deployment",
+  infra: "infrastructure",
+};
+
+export const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "into",
+  "is", "it", "of", "on", "or", "our", "that", "the", "this", "to", "was", "we",
+  "with",
+]);
+
+/**
+ * Fully offline embedder based on hashed word and character n-gram TF-IDF.
+ *
+ * Documents are embedded with log term frequency only, so cached vectors never
+ * go stale; inverse document frequency is applied on the query side from
+ * corpus statistics maintained through addDocument/removeDocument.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name = "hashing";
+  readonly dimensions: number;
+  private synonyms: Record<string, string>;
+  private documentFrequency: Map<number, number> = new Map();
+  private documentCount: number = 0;
+
+  constructor(options: { dimensions?: number; synonyms?: Record<string, string> } = {}) {
+    this.dimensions = options.dimensions ?? 1024;
+    this.synonyms = options.synonyms ?? DEFAULT_SYNONYMS;
+  }
+
+  async embedDocuments(texts: string[]): Promise<Vector[]> {
+    return this.embedDocumentsSync(texts);
+  }
+
+  async embedQuery(text: string): Promise<Vector> {
+    return this.embedQuerySync(text);
+  }
+
+  embedDocumentsSync(texts: string[]): SparseVector[] {
+    return texts.map((text) => this.vectorize(text, false));
+  }
+
+  embedQuerySync(text: string): SparseVector {
+    return this.vectorize(text, true);
+  }
+
+  addDocument(text: string): void {
+    this.documentCount++;
+    for (const bucket of new Set(this.buckets(text).keys())) {
+      this.documentFrequency.set(bucket, (this.documentFrequency.get(bucket) || 0) + 1);
+    }
+  }
+
+  removeDocument(text: string): void {
+    this.documentCount = Math.max(0, this.documentCount - 1);
+    for (const bucket of new Set(this.buckets(text).keys())) {
+      const count = (this.documentFrequency.get(bucket) || 0) - 1;
+      if (count > 0) {
+        this.documentFrequency.set(bucket, count);
+      } else {
+        this.documentFrequency.delete(bucket);
+      }
+    }
+  }
+
+  private vectorize(text: string, weightByIdf: boolean): SparseVector {
+    const buckets = Array.from(this.buckets(text)).sort((a, b) => a[0] - b[0]);
+    const indices = new Uint32Array(buckets.length);
+    const values = new Float32Array(buckets.length);
+
+    buckets.forEach(([bucket, { count, sign }], i) => {
+      let weight = 1 + Math.log(count);
+      if (weightByIdf) {
+        const df = this.documentFrequency.get(bucket) || 0;
+        weight *= Math.log((this.documentCount + 1) / (df + 1)) + 1;
+      }
+      indices[i] = bucket;
+      values[i] = sign * weight;
+    });
+
+    return { dimensions: this.dimensions, indices, values: normalize(values) };
+  }
+
+  private buckets(text: string): Map<number, { count: number; sign: number }> {
+    const buckets = new Map<number, { count: number; sign: number }>();
+
+    for (const feature of this.features(text)) {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimensions;
+      const sign = (hash >>> 31) & 1 ? -1 : 1;
+      const existing = buckets.get(bucket);
+      if (existing) {
+        existing.count++;
+      } else {
+        buckets.set(bucket, { count: 1, sign });
+      }
+    }
+
+    return buckets;
+  }
+
+  private features(text: string): string[] {
+    const features: string[] = [];
+    const words = tokenize(text)
+      .filter((word) => !STOP_WORDS.has(word))
+      .map((word) => this.synonyms[word] || word)
+      .map(stem);
+
+    for (const word of words) {
+      features.push(`w:${word}`);
+
+      // Character trigrams catch partial overlaps such as "rotate"/"rotation"
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`c:${padded.slice(i, i + 3)}`);
+      }
+    }
+
+    for (let i = 0; i + 1 < words.length; i++) {
+      features.push(`b:${words[i]} ${words[i + 1]}`);
+    }
+
+    return features;
+  }
+}
+
+/**
+ * Embedder backed by a local Ollama model (e.g. `nomic-embed-text`)
+ */
+export class OllamaEmbedder implements Embedder {
+  readonly name: string;
+  private model: string;
+  private host?: string;
+  private client?: Promise<{ embed(request: { model: string; input: string[] }): Promise<{ embeddings: number[][] }> }>;
+
+  constructor(options: { model?: string; host?: string } = {}) {
+    this.model = options.model ?? "nomic-embed-text";
+    this.host = options.host;
+    this.name = `ollama:${this.model}`;
+  }
+
+  async embedDocuments(texts: string[]): Promise<Vector[]> {
+    if (texts.length === 0) return [];
+    const client = await this.getClient();
+    const response = await client.embed({ model: this.model, input: texts });
+    return response.embeddings.map((embedding) => normalize(Float32Array.from(embedding)));
+  }
+
+  async embedQuery(text: string): Promise<Vector> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector ?? new Float32Array(0);
+  }
+
+  private getClient() {
+    if (!this.client) {
+      this.client = import("ollama").then(({ Ollama }) => new Ollama({ host: this.host }));
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Embedder backed by the OpenAI embeddings API (reads OPENAI_API_KEY)
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly name: string;
+  private model: string;
+  private apiKey?: string;
+  private client?: Promise<{
+    embeddings: { create(body: { model: string; input: string[] }): Promise<{ data: Array<{ embedding: number[]; index: number }> }> };
+  }>;
+
+  constructor(options: { model?: string; apiKey?: string } = {}) {
+    this.model = options.model ?? "text-embedding-3-small";
+    this.apiKey = options.apiKey;
+    this.name = `openai:${this.model}`;
+  }
+
+  async embedDocuments(texts: string[]): Promise<Vector[]> {
+    if (texts.length === 0) return [];
+    const client = await this.getClient();
+    const response = await client.embeddings.create({ model: this.model, input: texts });
+    return response.data
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map((item) => normalize(Float32Array.from(item.embedding)));
+  }
+
+  async embedQuery(text: string): Promise<Vector> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector ?? new Float32Array(0);
+  }
+
+  private getClient() {
+    if (!this.client) {
+      this.client = import("openai").then(({ default: OpenAI }) => new OpenAI({ apiKey: this.apiKey }));
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Create an embedder from the memory server config
+ */
+export function createEmbedder(options: {
+  embedder?: "hashing" | "ollama" | "openai";
+  embeddingModel?: string;
+}): Embedder {
+  switch (options.embedder) {
+    case "ollama":
+      return new OllamaEmbedder({ model: options.embeddingModel, host: process.env.OLLAMA_HOST });
+    case "openai":
+      return new OpenAIEmbedder({ model: options.embeddingModel });
+    default:
+      return new HashingEmbedder();
+  }
+}
+
+/**
+ * Cosine similarity of two vectors, dense or sparse (0 when either is empty
+ * or their dimensions differ)
+ */
+export function cosineSimilarity(a: Vector, b: Vector): number {
+  if (dimensionsOf(a) === 0 || dimensionsOf(a) !== dimensionsOf(b)) return 0;
+
+  const normA = Math.sqrt(dot(a, a));
+  const normB = Math.sqrt(dot(b, b));
+  if (normA === 0 || normB === 0) return 0;
+  return dot(a, b) / (normA * normB);
+}
+
+/**
+ * Embeddings by memory ID, with postings over the nonzero buckets of sparse
+ * embeddings so the memories nearest a query are found without comparing it
+ * to every memory. Dense embeddings from remote models can't be indexed this
+ * way and are compared one by one.
+ */
+export class VectorIndex {
+  private vectors: Map<string, Vector> = new Map();
+  private postings: Map<number, Map<string, number>> = new Map(); // bucket -> memory ID -> unit-length value
+
+  get(id: string): Vector | undefined {
+    return this.vectors.get(id);
+  }
+
+  /**
+   * Index an embedding, replacing any previous one with the same ID
+   */
+  add(id: string, vector: Vector): void {
+    this.remove(id);
+    this.vectors.set(id, vector);
+    if (vector instanceof Float32Array) return;
+
+    const norm = Math.sqrt(dot(vector, vector));
+    if (norm === 0) return;
+    vector.indices.forEach((bucket, i) => {
+      let postings = this.postings.get(bucket);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(bucket, postings);
+      }
+      postings.set(id, vector.values[i]! / norm);
+    });
+  }
+
+  remove(id: string): void {
+    const vector = this.vectors.get(id);
+    if (!vector) return;
+    this.vectors.delete(id);
+    if (vector instanceof Float32Array) return;
+
+    for (const bucket of vector.indices) {
+      const postings = this.postings.get(bucket);
+      postings?.delete(id);
+      if (postings?.size === 0) this.postings.delete(bucket);
+    }
+  }
+
+  clear(): void {
+    this.vectors.clear();
+    this.postings.clear();
+  }
+
+  /**
+   * The `k` embeddings most similar to `query` with a cosine similarity of
+   * at least `minSimilarity`, among the IDs `include` accepts. A sparse
+   * query only visits the postings of its own buckets.
+   */
+  nearest(
+    query: Vector,
+    k: number,
+    options: { minSimilarity?: number; include?: (id: string) => boolean } = {}
+  ): Map<string, number> {
+    const include = options.include ?? (() => true);
+    const scores = new Map<string, number>();
+
+    if (query instanceof Float32Array) {
+      for (const [id, vector] of this.vectors) {
+        if (include(id)) scores.set(id, cosineSimilarity(query, vector));
+      }
+    } else {
+      const norm = Math.sqrt(dot(query, query));
+      if (norm === 0) return scores;
+      query.indices.forEach((bucket, i) => {
+        const weight = query.values[i]! / norm;
+        for (const [id, value] of this.postings.get(bucket) ?? []) {
+          if (include(id)) scores.set(id, (scores.get(id) ?? 0) + weight * value);
+        }
+      });
+    }
+
+    return new Map(
+      Array.from(scores)
+        .filter(([, similarity]) => similarity >= (options.minSimilarity ?? 0))
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, k)
+    );
+  }
+}
+
+/**
+ * Lowercase word tokens, keeping DevOps-style identifiers like `k8s` intact
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  for (const suffix of ["ings", "ing", "ions", "ion", "ed", "es", "s", "e"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function normalize(values: Float32Array): Float32Array {
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? values : values.map((v) => v / norm);
+}
+
+function dimensionsOf(vector: Vector): number {
+  return vector instanceof Float32Array ? vector.length : vector.dimensions;
+}
+
+function dot(a: Vector, b: Vector): number {
+  let sum = 0;
+  if (a instanceof Float32Array && b instanceof Float32Array) {
+    for (let i = 0; i < a.length; i++) sum += a[i]! * b[i]!;
+  } else if (a instanceof Float32Array || b instanceof Float32Array) {
+    const dense = (a instanceof Float32Array ? a : b) as Float32Array;
+    const sparse = (a instanceof Float32Array ? b : a) as SparseVector;
+    sparse.indices.forEach((index, i) => (sum += sparse.values[i]! * dense[index]!));
+  } else {
+    // Both sparse: walk the sorted indices together
+    for (let i = 0, j = 0; i < a.indices.length && j < b.indices.length; ) {
+      if (a.indices[i]! < b.indices[j]!) i++;
+      else if (a.indices[i]! > b.indices[j]!) j++;
+      else sum += a.values[i++]! * b.values[j++]!;
+    }
+  }
+  return sum;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
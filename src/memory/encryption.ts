@@ -0,0 +1,148 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "crypto";
+import * as fs from "fs";
+
+const PAYLOAD_VERSION = "v1";
+
+/**
+ * Raised for a missing key, or a payload that can't be decrypted
+ */
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionError";
+  }
+}
+
+/**
+ * Seals and opens text
+ */
+export interface Cipher {
+  encrypt(plaintext: string): string;
+  decrypt(payload: string): string;
+}
+
+/**
+ * AES-256-GCM encryption for memory content. Payloads carry the ID of the
+ * key that sealed them: `v1.<keyId>.<iv>.<tag>.<ciphertext>`, base64url.
+ */
+export class ContentCipher implements Cipher {
+  readonly keyId: string;
+
+  constructor(private readonly key: Buffer) {
+    if (key.length !== 32) throw new EncryptionError("Encryption key must be 32 bytes");
+    this.keyId = createHash("sha256").update(key).digest("hex").slice(0, 8);
+  }
+
+  /**
+   * Build a cipher from key material: 64 hex characters or base64 for 32 raw
+   * bytes, or any other passphrase, which is stretched with scrypt
+   */
+  static fromSecret(secret: string): ContentCipher {
+    const text = secret.trim();
+    if (/^[0-9a-f]{64}$/i.test(text)) return new ContentCipher(Buffer.from(text, "hex"));
+
+    const decoded = Buffer.from(text, "base64");
+    if (decoded.length === 32 && /^[A-Za-z0-9+/]+={0,2}$/.test(text)) return new ContentCipher(decoded);
+
+    return new ContentCipher(scryptSync(text, "clp-mcp-memory", 32));
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return [PAYLOAD_VERSION, this.keyId, iv, cipher.getAuthTag(), data]
+      .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+      .join(".");
+  }
+
+  decrypt(payload: string): string {
+    const [version, keyId, iv, tag, data] = payload.split(".");
+    if (version !== PAYLOAD_VERSION || data === undefined) throw new EncryptionError("Not an encrypted payload");
+    if (keyId !== this.keyId) throw new EncryptionError(`Payload was encrypted with key ${keyId}, not ${this.keyId}`);
+
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", this.key, Buffer.from(iv!, "base64url"));
+      decipher.setAuthTag(Buffer.from(tag!, "base64url"));
+      return Buffer.concat([decipher.update(Buffer.from(data, "base64url")), decipher.final()]).toString("utf8");
+    } catch {
+      throw new EncryptionError(`Payload sealed with key ${keyId} failed authentication`);
+    }
+  }
+}
+
+/**
+ * The current key plus the keys it replaced. New payloads are sealed with
+ * the current key; any known key opens old ones.
+ */
+export class Keyring implements Cipher {
+  private ciphers: Map<string, ContentCipher> = new Map(); // key ID -> cipher
+
+  constructor(private current: ContentCipher, previous: ContentCipher[] = []) {
+    [...previous, current].forEach((cipher) => this.ciphers.set(cipher.keyId, cipher));
+  }
+
+  get keyId(): string {
+    return this.current.keyId;
+  }
+
+  encrypt(plaintext: string): string {
+    return this.current.encrypt(plaintext);
+  }
+
+  decrypt(payload: string): string {
+    const keyId = payloadKeyId(payload);
+    const cipher = keyId !== undefined ? this.ciphers.get(keyId) : undefined;
+    if (!cipher) throw new EncryptionError(keyId ? `Unknown encryption key ${keyId}` : "Not an encrypted payload");
+    return cipher.decrypt(payload);
+  }
+
+  /**
+   * Make `next` the current key. Older keys stay available for decryption
+   * until their payloads are re-encrypted.
+   */
+  rotate(next: ContentCipher): void {
+    this.ciphers.set(next.keyId, next);
+    this.current = next;
+  }
+
+  /**
+   * A payload sealed with the current key, re-encrypting it if needed
+   */
+  reencrypt(payload: string): string {
+    return payloadKeyId(payload) === this.keyId ? payload : this.encrypt(this.decrypt(payload));
+  }
+}
+
+/**
+ * Whether text is a payload produced by ContentCipher
+ */
+export function isEncrypted(text: string): boolean {
+  return payloadKeyId(text) !== undefined;
+}
+
+function payloadKeyId(payload: string): string | undefined {
+  return /^v1\.([0-9a-f]{8})\./.exec(payload)?.[1];
+}
+
+/**
+ * Load the memory encryption key from an environment variable, or failing
+ * that a key file, along with any earlier keys still needed to read old
+ * payloads. Undefined when no key is set.
+ */
+export function loadKeyring(options: { keyEnv?: string; keyFile?: string; previousKeyFiles?: string[] }): Keyring | undefined {
+  const current = loadContentCipher(options);
+  if (!current) return undefined;
+  const previous = (options.previousKeyFiles || []).map((file) => ContentCipher.fromSecret(fs.readFileSync(file, "utf8")));
+  return new Keyring(current, previous);
+}
+
+/**
+ * Load one key from an environment variable, or failing that a key file
+ */
+export function loadContentCipher(options: { keyEnv?: string; keyFile?: string }): ContentCipher | undefined {
+  const fromEnv = options.keyEnv ? process.env[options.keyEnv] : undefined;
+  if (fromEnv) return ContentCipher.fromSecret(fromEnv);
+  if (options.keyFile) return ContentCipher.fromSecret(fs.readFileSync(options.keyFile, "utf8"));
+  return undefined;
+}
@@ -0,0 +1,360 @@
+import * as fs from "fs";
+import * as readline from "readline";
+import { once } from "events";
+import type { MemoryEntry } from "./index.js";
+
+export type MemoryFormat = "jsonl" | "markdown" | "csv";
+
+/**
+ * What to do when an imported memory's ID already exists
+ */
+export type ConflictStrategy = "skip" | "overwrite" | "keep-newest" | "rename";
+
+/**
+ * One record read from an import, before schema validation. `row` is the
+ * 1-based line the record starts on.
+ */
+export interface ParsedRecord {
+  row: number;
+  value?: Record<string, unknown>;
+  error?: string;
+}
+
+type Lines = Iterable<string> | AsyncIterable<string>;
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "namespace",
+  "context",
+  "importance",
+  "accessCount",
+  "lastAccessed",
+  "updatedAt",
+  "expiresAt",
+  "archivedAt",
+  "sensitive",
+  "tags",
+  "relatedMemories",
+  "relatedScores",
+  "metadata",
+  "feedback",
+  "coRecalls",
+  "scoreHistory",
+  "content",
+] as const;
+
+const NUMERIC_FIELDS = new Set(["timestamp", "importance", "accessCount", "lastAccessed", "updatedAt", "expiresAt", "archivedAt", "coRecalls"]);
+const LIST_FIELDS = new Set(["tags", "relatedMemories"]);
+const JSON_FIELDS = new Set(["metadata", "relatedScores", "feedback", "scoreHistory"]);
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Serialize memories one chunk at a time so large stores can be streamed
+ */
+export function* serializeMemories(
+  memories: Iterable<MemoryEntry>,
+  format: MemoryFormat
+): Generator<string> {
+  if (format === "csv") yield CSV_COLUMNS.join(",") + "\n";
+
+  for (const memory of memories) {
+    switch (format) {
+      case "jsonl":
+        yield JSON.stringify(memory) + "\n";
+        break;
+      case "markdown":
+        yield toMarkdown(memory);
+        break;
+      case "csv":
+        yield CSV_COLUMNS.map((column) => csvCell(memory[column])).join(",") + "\n";
+        break;
+    }
+  }
+}
+
+/**
+ * A memory as a Markdown document: front matter with one JSON value per
+ * field, then the content as the body. `id` always comes first, which is how
+ * the parser tells a new memory apart from a `---` rule in the body.
+ */
+function toMarkdown(memory: MemoryEntry): string {
+  const { content, ...fields } = memory;
+  const frontMatter = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return ["---", ...frontMatter, "---", content, ""].join("\n") + "\n";
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write chunks to a file, waiting for the stream to drain when it backs up
+ */
+export async function writeChunks(filePath: string, chunks: Iterable<string>): Promise<number> {
+  const stream = fs.createWriteStream(filePath, { encoding: "utf8" });
+  let bytes = 0;
+  try {
+    for (const chunk of chunks) {
+      bytes += Buffer.byteLength(chunk);
+      if (!stream.write(chunk)) await once(stream, "drain");
+    }
+  } finally {
+    stream.end();
+  }
+  await once(stream, "finish");
+  return bytes;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Read a file line by line without loading it into memory
+ */
+export function readLines(filePath: string): AsyncIterable<string> {
+  return readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: "utf8" }),
+    crlfDelay: Infinity,
+  });
+}
+
+/**
+ * Parse records from a stream of lines. Malformed records are yielded with
+ * an error instead of aborting the import.
+ */
+export function parseMemories(lines: Lines, format: MemoryFormat): AsyncGenerator<ParsedRecord> {
+  switch (format) {
+    case "jsonl":
+      return parseJsonl(lines);
+    case "markdown":
+      return parseMarkdown(lines);
+    case "csv":
+      return parseCsv(lines);
+  }
+}
+
+async function* parseJsonl(lines: Lines): AsyncGenerator<ParsedRecord> {
+  let row = 0;
+  for await (const line of lines) {
+    row++;
+    if (!line.trim()) continue;
+
+    try {
+      const value = JSON.parse(line);
+      yield isObject(value) ? { row, value } : { row, error: "Expected a JSON object" };
+    } catch (error) {
+      yield { row, error: `Invalid JSON: ${(error as Error).message}` };
+    }
+  }
+}
+
+async function* parseMarkdown(lines: Lines): AsyncGenerator<ParsedRecord> {
+  let row = 0;
+  let state: "before" | "frontMatter" | "body" = "before";
+  let current: { row: number; fields: Record<string, unknown>; body: string[]; error?: string } | null = null;
+  let pendingRule: number | null = null; // a "---" in the body that may open the next memory
+
+  const finish = (): ParsedRecord | null => {
+    if (!current) return null;
+    const record: ParsedRecord = current.error
+      ? { row: current.row, error: current.error }
+      : { row: current.row, value: { ...current.fields, content: trimBody(current.body) } };
+    current = null;
+    return record;
+  };
+
+  for await (const line of lines) {
+    row++;
+
+    if (pendingRule !== null) {
+      if (/^id:\s/.test(line)) {
+        const record = finish();
+        if (record) yield record;
+        current = { row: pendingRule, fields: {}, body: [] };
+        state = "frontMatter";
+        pendingRule = null;
+      } else {
+        current!.body.push("---");
+        pendingRule = null;
+      }
+    }
+
+    if (state === "before") {
+      if (!line.trim()) continue;
+      if (line.trim() !== "---") {
+        yield { row, error: 'Expected "---" to open the front matter' };
+        return;
+      }
+      current = { row, fields: {}, body: [] };
+      state = "frontMatter";
+    } else if (state === "frontMatter") {
+      if (line.trim() === "---") {
+        state = "body";
+        continue;
+      }
+      const match = /^([A-Za-z][\w]*):\s?(.*)$/.exec(line);
+      if (!match) {
+        current!.error ??= `Invalid front matter line ${row}: "${line}"`;
+        continue;
+      }
+      current!.fields[match[1]!] = parseFrontMatterValue(match[1]!, match[2]!);
+    } else if (line.trim() === "---") {
+      pendingRule = row;
+    } else {
+      current!.body.push(line);
+    }
+  }
+
+  if (state === "frontMatter" && current) {
+    current.error ??= "Front matter is not closed";
+  }
+  if (pendingRule !== null) current!.body.push("---");
+  const record = finish();
+  if (record) yield record;
+}
+
+function parseFrontMatterValue(key: string, raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Hand-written front matter: bare strings and [a, b] lists
+    if (LIST_FIELDS.has(key) && /^\[.*\]$/.test(raw.trim())) {
+      return raw.trim().slice(1, -1).split(",").map((item) => item.trim()).filter(Boolean);
+    }
+    return raw.trim();
+  }
+}
+
+function trimBody(body: string[]): string {
+  const lines = [...body];
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  return lines.join("\n");
+}
+
+async function* parseCsv(lines: Lines): AsyncGenerator<ParsedRecord> {
+  let header: string[] | null = null;
+
+  for await (const { cells, startRow, error } of csvRecords(lines)) {
+    if (error) {
+      yield { row: startRow, error };
+      continue;
+    }
+    if (cells.length === 1 && cells[0] === "") continue;
+
+    if (!header) {
+      header = cells.map((cell) => cell.trim());
+      if (!header.includes("content")) {
+        yield { row: startRow, error: 'CSV header must include a "content" column' };
+        return;
+      }
+      continue;
+    }
+
+    if (cells.length !== header.length) {
+      yield { row: startRow, error: `Expected ${header.length} columns, got ${cells.length}` };
+      continue;
+    }
+
+    try {
+      const value: Record<string, unknown> = {};
+      header.forEach((column, i) => {
+        const cell = cells[i]!;
+        if (cell === "") return;
+        value[column] = parseCsvCell(column, cell);
+      });
+      yield { row: startRow, value };
+    } catch (error) {
+      yield { row: startRow, error: (error as Error).message };
+    }
+  }
+}
+
+function parseCsvCell(column: string, cell: string): unknown {
+  if (NUMERIC_FIELDS.has(column)) {
+    const value = Number(cell);
+    if (Number.isNaN(value)) throw new Error(`${column} must be a number, got "${cell}"`);
+    return value;
+  }
+  if (LIST_FIELDS.has(column)) {
+    if (cell.trim().startsWith("[")) return parseJsonCell(column, cell);
+    return cell.split(";").map((item) => item.trim()).filter(Boolean);
+  }
+  if (JSON_FIELDS.has(column)) return parseJsonCell(column, cell);
+  // Left as text otherwise, so the schema reports anything but true/false
+  if (column === "sensitive") return cell === "true" ? true : cell === "false" ? false : cell;
+  return cell;
+}
+
+function parseJsonCell(column: string, cell: string): unknown {
+  try {
+    return JSON.parse(cell);
+  } catch {
+    throw new Error(`${column} must be valid JSON`);
+  }
+}
+
+/**
+ * Split CSV lines into records, joining quoted cells that span lines
+ */
+async function* csvRecords(
+  lines: Lines
+): AsyncGenerator<{ cells: string[]; startRow: number; error?: string }> {
+  let row = 0;
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let startRow = 1;
+
+  for await (const line of lines) {
+    row++;
+    if (!quoted) {
+      startRow = row;
+    } else {
+      cell += "\n";
+    }
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && cell === "") {
+        quoted = true;
+      } else if (char === ",") {
+        cells.push(cell);
+        cell = "";
+      } else {
+        cell += char;
+      }
+    }
+
+    if (quoted) continue;
+    cells.push(cell);
+    yield { cells, startRow };
+    cells = [];
+    cell = "";
+  }
+
+  if (quoted) {
+    yield { cells: [], startRow, error: "Unterminated quoted cell" };
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,203 @@
+import type { MemoryEntry } from "./index.js";
+import type { MemoryStamp } from "./sync.js";
+
+/**
+ * Fields whose changes create a new revision. Access bookkeeping and
+ * automatically maintained links are deliberately left out.
+ */
+export const REVISIONED_FIELDS = [
+  "content",
+  "context",
+  "tags",
+  "importance",
+  "metadata",
+  "expiresAt",
+  "archivedAt",
+  "namespace",
+  "sensitive",
+] as const;
+
+export type RevisionedField = (typeof REVISIONED_FIELDS)[number];
+
+/**
+ * One entry in a memory's revision chain
+ */
+export interface MemoryRevision {
+  memoryId: string;
+  revision: number;
+  timestamp: number;
+  author?: string;
+  action: "create" | "update" | "merge" | "archive" | "restore" | "revert";
+  changes: RevisionedField[];
+  snapshot: Pick<MemoryEntry, RevisionedField>;
+  revertedTo?: number;
+  origin?: MemoryStamp; // set when the change was synced from another instance
+}
+
+/**
+ * When a revision's change was made, on the instance that made it
+ */
+export function revisionTime(revision: MemoryRevision): number {
+  return revision.origin?.at ?? revision.timestamp;
+}
+
+/**
+ * Difference between two revisions of a memory
+ */
+export interface RevisionDiff {
+  memoryId: string;
+  from: number;
+  to: number;
+  fields: Array<{ field: RevisionedField; before: unknown; after: unknown }>;
+  contentDiff: string[];
+}
+
+/**
+ * Per-memory revision chains recording who changed what and when
+ */
+export class RevisionHistory {
+  private chains: Map<string, MemoryRevision[]> = new Map();
+
+  constructor(private readonly maxRevisions: number = 50) {}
+
+  /**
+   * Record the current state of a memory as a new revision, if it changed
+   */
+  record(
+    memory: MemoryEntry,
+    details: { action: MemoryRevision["action"]; author?: string; revertedTo?: number; origin?: MemoryStamp }
+  ): MemoryRevision | null {
+    const chain = this.chains.get(memory.id) || [];
+    const previous = chain[chain.length - 1];
+    const snapshot = snapshotOf(memory);
+    const changes = REVISIONED_FIELDS.filter(
+      (field) => !previous || !isEqual(previous.snapshot[field], snapshot[field])
+    );
+
+    if (previous && changes.length === 0) return null;
+
+    const revision: MemoryRevision = {
+      memoryId: memory.id,
+      revision: (previous?.revision ?? 0) + 1,
+      timestamp: Date.now(),
+      author: details.author,
+      action: details.action,
+      changes,
+      snapshot,
+      revertedTo: details.revertedTo,
+      origin: details.origin,
+    };
+
+    this.add(revision);
+    return revision;
+  }
+
+  /**
+   * Append an already-built revision (used when replaying persisted history)
+   */
+  add(revision: MemoryRevision): void {
+    const chain = this.chains.get(revision.memoryId) || [];
+    chain.push(revision);
+    if (chain.length > this.maxRevisions) {
+      chain.splice(0, chain.length - this.maxRevisions);
+    }
+    this.chains.set(revision.memoryId, chain);
+  }
+
+  list(memoryId: string): MemoryRevision[] {
+    return this.chains.get(memoryId) || [];
+  }
+
+  get(memoryId: string, revision: number): MemoryRevision | undefined {
+    return this.list(memoryId).find((r) => r.revision === revision);
+  }
+
+  all(): MemoryRevision[] {
+    return Array.from(this.chains.values()).flat();
+  }
+
+  delete(memoryId: string): void {
+    this.chains.delete(memoryId);
+  }
+
+  clear(): void {
+    this.chains.clear();
+  }
+
+  /**
+   * Compare two revisions field by field, with a line diff of the content
+   */
+  diff(memoryId: string, from: number, to: number): RevisionDiff | null {
+    const before = this.get(memoryId, from);
+    const after = this.get(memoryId, to);
+    if (!before || !after) return null;
+
+    return {
+      memoryId,
+      from,
+      to,
+      fields: REVISIONED_FIELDS.filter(
+        (field) => !isEqual(before.snapshot[field], after.snapshot[field])
+      ).map((field) => ({ field, before: before.snapshot[field], after: after.snapshot[field] })),
+      contentDiff: diffLines(before.snapshot.content, after.snapshot.content),
+    };
+  }
+}
+
+function snapshotOf(memory: MemoryEntry): Pick<MemoryEntry, RevisionedField> {
+  return structuredClone({
+    content: memory.content,
+    context: memory.context,
+    tags: memory.tags,
+    importance: memory.importance,
+    metadata: memory.metadata,
+    expiresAt: memory.expiresAt,
+    archivedAt: memory.archivedAt,
+    namespace: memory.namespace,
+    sensitive: memory.sensitive,
+  });
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Line diff based on the longest common subsequence. Lines are prefixed with
+ * "- " (removed), "+ " (added) or "  " (unchanged).
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      lines.push(`- ${a[i]}`);
+      i++;
+    } else {
+      lines.push(`+ ${b[j]}`);
+      j++;
+    }
+  }
+  while (i < a.length) lines.push(`- ${a[i++]}`);
+  while (j < b.length) lines.push(`+ ${b[j++]}`);
+
+  return lines;
+}
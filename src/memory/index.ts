@@ -1,4 +1,91 @@
 import { z } from "zod";
+import type { MemoryAccess, MemoryPersistence, MemoryRecoveryReport } from "./persistence.js";
+import {
+  HashingEmbedder,
+  STOP_WORDS,
+  VectorIndex,
+  cosineSimilarity,
+  tokenize,
+  type Embedder,
+  type Vector,
+} from "./embedding.js";
+import { InvertedIndex, isExplicitQuery, parseSearchQuery } from "./search-index.js";
+import {
+  effectiveImportance,
+  evaluateRetention,
+  isExpired,
+  isRecord,
+  type RetentionPolicy,
+  type RetentionReport,
+} from "./retention.js";
+import { RevisionHistory, revisionTime, type MemoryRevision, type RevisionDiff } from "./history.js";
+import { DEFAULT_NAMESPACE } from "./namespace.js";
+import {
+  QueryError,
+  compareSortValues,
+  decodeCursor,
+  encodeCursor,
+  executeQuery,
+  fieldValue,
+  parseQuery,
+  parseSort,
+  toSortValue,
+  type QuerySource,
+  type SortKey,
+  type SortValue,
+} from "./query.js";
+import {
+  DisjointSet,
+  contentSimilarity,
+  type DuplicateCluster,
+  type MergeProvenance,
+  type MergeReport,
+} from "./dedupe.js";
+import type { ConflictStrategy, ParsedRecord } from "./formats.js";
+import {
+  buildHistogram,
+  chooseBucket,
+  histogramGroups,
+  summarizeChanges,
+  type ActivityHistogram,
+  type HistogramBucket,
+  type TimelineDiff,
+} from "./timeline.js";
+import {
+  ExtractiveSummarizer,
+  type ConsolidateOptions,
+  type ConsolidationCluster,
+  type ConsolidationReport,
+  type Summarizer,
+} from "./consolidation.js";
+import { SecretError, type Redaction, type SecretScanner } from "./secrets.js";
+import {
+  LEGACY_LINK_WEIGHT,
+  RelatedIndex,
+  relatedFeatures,
+  relatedness,
+  type RelatedMemory,
+  type RelatedOptions,
+} from "./related.js";
+import { compareStamps, type ChangesetMergeReport, type MemoryStamp, type Tombstone } from "./sync.js";
+import { EncryptionError, isEncrypted, type ContentCipher, type Keyring } from "./encryption.js";
+import {
+  FeedbackCountsSchema,
+  ImportanceScorer,
+  ScoreEntrySchema,
+  type FeedbackKind,
+  type ScoreEntry,
+} from "./scoring.js";
+
+/**
+ * Most memories a query's embedding adds to its text matches for scoring
+ */
+const SEMANTIC_CANDIDATES = 200;
+
+/**
+ * Paged queries whose returned sort values are kept for their cursors
+ */
+const MAX_PAGED_QUERIES = 64;
 
 /**
  * Memory entry schema representing a single memory item
@@ -14,10 +101,92 @@ export const MemoryEntrySchema = z.object({
   lastAccessed: z.number().optional().describe("Last access timestamp"),
   metadata: z.record(z.any()).default({}).describe("Additional metadata"),
   relatedMemories: z.array(z.string()).default([]).describe("IDs of related memories"),
+  relatedScores: z.record(z.number()).optional().describe("Link weight (0-1) per related memory ID"),
+  expiresAt: z.number().optional().describe("Unix timestamp after which the memory expires"),
+  archivedAt: z.number().optional().describe("When the memory was moved to the archive tier"),
+  namespace: z.string().default(DEFAULT_NAMESPACE).describe("Project or session namespace the memory belongs to"),
+  sensitive: z.boolean().optional().describe("Content is encrypted at rest and kept out of the text indices"),
+  feedback: FeedbackCountsSchema.optional().describe("Feedback received through memory_feedback"),
+  coRecalls: z.number().optional().describe("Times recalled alongside a high-importance memory"),
+  scoreHistory: z.array(ScoreEntrySchema).optional().describe("Automatic importance scorings, oldest first"),
+  updatedAt: z.number().optional().describe("When the memory was last edited; access bookkeeping doesn't count"),
 });
 
 export type MemoryEntry = z.infer<typeof MemoryEntrySchema>;
 
+/**
+ * Parameters accepted by LongTermMemory.store()
+ */
+export interface StoreParams {
+  content: string;
+  context?: string;
+  tags?: string[];
+  importance?: number;
+  metadata?: Record<string, any>;
+  ttl?: number; // milliseconds until the memory expires
+  author?: string;
+  namespace?: string;
+  dedupe?: boolean; // merge into a near-duplicate instead of storing a copy (default: true)
+  sensitive?: boolean; // encrypt the content at rest (needs a keyring)
+}
+
+/**
+ * Criteria accepted by LongTermMemory.recall()
+ */
+export interface RecallParams {
+  query?: string;
+  context?: string;
+  tags?: string[];
+  limit?: number;
+  minImportance?: number;
+  timeRange?: { start?: number; end?: number };
+  includeArchived?: boolean;
+  namespace?: string; // defaults to the default namespace
+  namespaces?: string[] | "*"; // explicit cross-namespace search
+  where?: string; // structured filter, see parseQuery()
+  sort?: string; // e.g. "importance desc, timestamp"
+  cursor?: string; // nextCursor from the previous page
+}
+
+/**
+ * One page of recall results
+ */
+export interface RecallPage {
+  memories: MemoryEntry[];
+  nextCursor?: string;
+}
+
+/**
+ * A mutation of the memory store, as reported to onChange() listeners.
+ * `id` is unset when the whole store was cleared.
+ */
+export interface MemoryChange {
+  action: MemoryRevision["action"] | "delete" | "clear";
+  id?: string;
+}
+
+/**
+ * Outcome of importing memories
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  imported: number;
+  overwritten: number;
+  skipped: number;
+  renamed: Array<{ from: string; to: string }>;
+  errors: Array<{ row: number; message: string }>;
+}
+
+/**
+ * Options accepted by LongTermMemory.import()
+ */
+export interface ImportOptions {
+  conflict?: ConflictStrategy; // default: skip
+  dryRun?: boolean; // validate and report without storing anything
+  namespace?: string; // namespace for records that don't name one
+  author?: string;
+}
+
 /**
  * Dynamic long-term memory system that provides intelligent storage,
  * retrieval, and analysis of information over time
@@ -26,18 +195,98 @@ export class LongTermMemory {
   private memories: Map<string, MemoryEntry> = new Map();
   private contextIndex: Map<string, Set<string>> = new Map(); // context -> memory IDs
   private tagIndex: Map<string, Set<string>> = new Map(); // tag -> memory IDs
+  private namespaceIndex: Map<string, Set<string>> = new Map(); // namespace -> memory IDs
   private timelineIndex: Array<{ timestamp: number; id: string }> = [];
+  private textIndex: InvertedIndex = new InvertedIndex(); // term -> memory IDs, BM25 scored
+  private relatedIndex: RelatedIndex = new RelatedIndex(); // MinHash LSH buckets for linking
+  private persistence?: MemoryPersistence;
+  private embedder: Embedder;
+  private semanticWeight: number;
+  private vectors: VectorIndex = new VectorIndex(); // memory ID -> embedding, with bucket postings
+  private pendingEmbeddings: Set<string> = new Set(); // awaiting an async embedder
+  private retention?: RetentionPolicy;
+  private dedupeThreshold: number;
+  private relatedThreshold: number;
+  private maxRelated: number;
+  private summarizer: Summarizer;
+  private listeners: Set<(change: MemoryChange) => void> = new Set();
+  private history: RevisionHistory = new RevisionHistory(); // memory ID -> revision chain
+  private secrets?: SecretScanner;
+  private keyring?: Keyring; // encrypts sensitive content
+  private scorer: ImportanceScorer;
+  private tombstones: Map<string, Tombstone> = new Map(); // deleted memory ID -> when and where
+  private pagedQueries: Map<string, Map<string, SortValue[]>> = new Map(); // cursor query ID -> memory ID -> sort values it was returned with
+
+  /**
+   * Name of this instance in synced changesets
+   */
+  readonly instanceId: string;
+
+  /**
+   * Report from replaying persisted memories, if persistence is enabled
+   */
+  readonly recovery?: MemoryRecoveryReport;
+
+  constructor(
+    options: {
+      persistence?: MemoryPersistence;
+      embedder?: Embedder;
+      semanticWeight?: number;
+      retention?: RetentionPolicy;
+      dedupeThreshold?: number;
+      relatedThreshold?: number; // relatedness at which memories are linked
+      maxRelated?: number; // automatic links kept per memory
+      summarizer?: Summarizer;
+      secrets?: SecretScanner; // screens content and metadata on every write
+      keyring?: Keyring;
+      scorer?: ImportanceScorer;
+      instanceId?: string;
+    } = {}
+  ) {
+    this.embedder = options.embedder ?? new HashingEmbedder();
+    this.semanticWeight = options.semanticWeight ?? 0.5;
+    this.retention = options.retention;
+    this.dedupeThreshold = options.dedupeThreshold ?? 0.85;
+    this.relatedThreshold = options.relatedThreshold ?? 0.3;
+    this.maxRelated = options.maxRelated ?? 20;
+    this.summarizer = options.summarizer ?? new ExtractiveSummarizer();
+    this.secrets = options.secrets;
+    this.keyring = options.keyring;
+    this.scorer = options.scorer ?? new ImportanceScorer();
+    this.instanceId = options.instanceId ?? "local";
+
+    if (options.persistence) {
+      this.persistence = options.persistence;
+      this.recovery = this.replay();
+    }
+  }
+
+  /**
+   * Store a new memory entry. A near-duplicate of an existing memory in the
+   * same namespace is merged into it instead of being stored again. Secrets
+   * are handled by the configured policy first; the reject policy throws a
+   * SecretError. Sensitive content is encrypted and never merged.
+   */
+  store(params: StoreParams): MemoryEntry {
+    return this.storeOrMerge(params).memory;
+  }
 
   /**
-   * Store a new memory entry
+   * Store a new memory entry, reporting whether it was merged into an
+   * existing near-duplicate
    */
-  store(params: {
-    content: string;
-    context?: string;
-    tags?: string[];
-    importance?: number;
-    metadata?: Record<string, any>;
-  }): MemoryEntry {
+  storeOrMerge(params: StoreParams): { memory: MemoryEntry; merged: MergeReport | null } {
+    params = { ...params, ...this.protect(params.content, params.metadata, params.sensitive) };
+    const namespace = params.namespace || DEFAULT_NAMESPACE;
+
+    if (params.dedupe !== false && !params.sensitive) {
+      const [duplicate] = this.findDuplicates(params.content, namespace, this.dedupeThreshold);
+      if (duplicate) {
+        const merged = this.mergeInto(duplicate.memory, params, duplicate.similarity);
+        return { memory: duplicate.memory, merged };
+      }
+    }
+
     const id = this.generateId();
     const timestamp = Date.now();
 
@@ -51,8 +300,13 @@ export class LongTermMemory {
       accessCount: 0,
       metadata: params.metadata || {},
       relatedMemories: [],
+      expiresAt: params.ttl !== undefined ? timestamp + params.ttl : undefined,
+      namespace,
+      sensitive: params.sensitive || undefined,
     };
 
+    this.rescore(memory, "store");
+
     // Store the memory
     this.memories.set(id, memory);
 
@@ -60,28 +314,206 @@ export class LongTermMemory {
     this.updateIndices(memory);
 
     // Find and link related memories
-    this.linkRelatedMemories(memory);
+    const linked = this.linkRelatedMemories(memory);
 
-    return memory;
+    this.persist(memory);
+    linked.forEach((related) => this.persist(related));
+    this.recordRevision(memory, "create", params.author);
+
+    return { memory, merged: null };
+  }
+
+  /**
+   * Find clusters of near-duplicate memories and collapse each into its most
+   * important (then oldest) member. With dryRun, only report the clusters.
+   */
+  dedupe(
+    options: { dryRun?: boolean; threshold?: number; namespace?: string } = {}
+  ): { clusters: DuplicateCluster[]; removed: number } {
+    const threshold = options.threshold ?? this.dedupeThreshold;
+    const sets = new DisjointSet();
+
+    for (const memory of this.memories.values()) {
+      if (memory.archivedAt !== undefined || memory.sensitive || isRecord(memory)) continue;
+      if (options.namespace && memory.namespace !== options.namespace) continue;
+
+      for (const duplicate of this.findDuplicates(memory.content, memory.namespace, threshold, memory.id)) {
+        sets.union(memory.id, duplicate.memory.id);
+      }
+    }
+
+    const clusters: DuplicateCluster[] = [];
+    for (const ids of sets.groups().values()) {
+      if (ids.length < 2) continue;
+
+      const [canonical, ...duplicates] = ids
+        .map((id) => this.memories.get(id)!)
+        .sort((a, b) => b.importance - a.importance || a.timestamp - b.timestamp);
+      const similarities = duplicates.map((d) => contentSimilarity(canonical!.content, d.content));
+
+      clusters.push({
+        canonicalId: canonical!.id,
+        duplicateIds: duplicates.map((d) => d.id),
+        similarity: Math.min(...similarities),
+      });
+
+      if (options.dryRun) continue;
+
+      duplicates.forEach((duplicate, i) => {
+        this.mergeInto(canonical!, { ...duplicate, sourceId: duplicate.id }, similarities[i]!);
+        canonical!.accessCount += duplicate.accessCount;
+
+        // Re-point the duplicate's links at the canonical memory
+        duplicate.relatedMemories.forEach((relatedId) => {
+          const related = this.memories.get(relatedId);
+          if (!related || related.id === canonical!.id) return;
+          const weight = Math.max(linkWeight(duplicate, relatedId), canonical!.relatedScores?.[relatedId] ?? 0);
+          this.link(canonical!, related, weight);
+          this.persist(related);
+        });
+
+        this.delete(duplicate.id);
+      });
+      this.persist(canonical);
+    }
+
+    return {
+      clusters,
+      removed: options.dryRun ? 0 : clusters.reduce((sum, c) => sum + c.duplicateIds.length, 0),
+    };
   }
 
   /**
    * Recall memories based on various criteria
    */
-  recall(params: {
-    query?: string;
-    context?: string;
-    tags?: string[];
-    limit?: number;
-    minImportance?: number;
-    timeRange?: { start?: number; end?: number };
-  }): MemoryEntry[] {
-    let candidates = Array.from(this.memories.values());
+  recall(params: RecallParams): MemoryEntry[] {
+    return this.recallPage(params).memories;
+  }
+
+  /**
+   * Recall one page of memories along with the cursor for the next page.
+   * Throws QueryError for an invalid `where`, `sort` or `cursor`.
+   */
+  recallPage(params: RecallParams): RecallPage {
+    const queryVector =
+      params.query && this.embedder.embedQuerySync
+        ? this.embedder.embedQuerySync(params.query)
+        : undefined;
+    return this.rank(params, queryVector);
+  }
+
+  /**
+   * Recall memories, first awaiting embeddings from an async embedder so
+   * remote models (Ollama, OpenAI) contribute to semantic scoring
+   */
+  async recallAsync(params: RecallParams): Promise<MemoryEntry[]> {
+    return (await this.recallPageAsync(params)).memories;
+  }
 
-    // Filter by context
-    if (params.context && this.contextIndex.has(params.context)) {
-      const contextIds = this.contextIndex.get(params.context)!;
-      candidates = candidates.filter((m) => contextIds.has(m.id));
+  /**
+   * Recall one page of memories, awaiting an async embedder first
+   */
+  async recallPageAsync(params: RecallParams): Promise<RecallPage> {
+    // Validate before waiting on a remote embedder
+    if (params.where) parseQuery(params.where);
+    if (params.sort) parseSort(params.sort);
+
+    let queryVector: Vector | undefined;
+    try {
+      await this.ensureEmbeddings();
+      if (params.query) {
+        queryVector = await this.embedder.embedQuery(params.query);
+      }
+    } catch (error) {
+      console.error(`[memory] Embedder ${this.embedder.name} failed, using lexical ranking only:`, error);
+    }
+    return this.rank(params, queryVector);
+  }
+
+  /**
+   * Search memories with full-text search
+   */
+  search(
+    query: string,
+    limit: number = 10,
+    scope: Pick<RecallParams, "namespace" | "namespaces"> = {}
+  ): MemoryEntry[] {
+    return this.recall({ query, limit, includeArchived: true, ...scope });
+  }
+
+  /**
+   * Search memories, awaiting the embedder for semantic scoring
+   */
+  searchAsync(
+    query: string,
+    limit: number = 10,
+    scope: Pick<RecallParams, "namespace" | "namespaces"> = {}
+  ): Promise<MemoryEntry[]> {
+    return this.recallAsync({ query, limit, includeArchived: true, ...scope });
+  }
+
+  /**
+   * Embed any memories still waiting on an async embedder
+   */
+  async ensureEmbeddings(batchSize: number = 64): Promise<void> {
+    const ids = Array.from(this.pendingEmbeddings);
+
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize).filter((id) => this.memories.has(id));
+      const vectors = await this.embedder.embedDocuments(
+        batch.map((id) => this.indexText(this.memories.get(id)!))
+      );
+      batch.forEach((id, index) => {
+        const vector = vectors[index];
+        if (vector && this.pendingEmbeddings.delete(id)) {
+          this.vectors.add(id, vector);
+        }
+      });
+    }
+  }
+
+  private rank(params: RecallParams, queryVector?: Vector): RecallPage {
+    const where = params.where ? parseQuery(params.where) : undefined;
+    const sortKeys = params.sort ? parseSort(params.sort) : undefined;
+    if (sortKeys?.some((key) => key.field === "relevance") && !params.query) {
+      throw new QueryError("Sorting by relevance requires a query");
+    }
+
+    let candidates: MemoryEntry[];
+
+    // Filter by context, then tags, using their indices
+    if (params.context) {
+      candidates = Array.from(this.contextIndex.get(params.context) || [])
+        .map((id) => this.memories.get(id))
+        .filter((m): m is MemoryEntry => m !== undefined);
+    } else if (params.tags && params.tags.length > 0) {
+      const tagged = new Set(params.tags.flatMap((tag) => Array.from(this.tagIndex.get(tag) || [])));
+      candidates = Array.from(tagged, (id) => this.memories.get(id)).filter(
+        (m): m is MemoryEntry => m !== undefined
+      );
+    } else {
+      candidates = Array.from(this.memories.values());
+    }
+
+    // Filter by namespace unless searching across all of them
+    if (params.namespaces !== "*") {
+      const namespaces = new Set(params.namespaces ?? [params.namespace || DEFAULT_NAMESPACE]);
+      candidates = candidates.filter((m) => namespaces.has(m.namespace));
+    }
+
+    // Structured filter, executed against the indices
+    if (where) {
+      const matching = executeQuery(where, this.querySource());
+      candidates = candidates.filter((m) => matching.has(m.id));
+    }
+
+    const parsedQuery = params.query ? parseSearchQuery(params.query) : undefined;
+    const textScores = parsedQuery ? this.textIndex.search(parsedQuery) : undefined;
+
+    // Archived and expired memories only surface when asked for
+    if (!params.includeArchived) {
+      const now = Date.now();
+      candidates = candidates.filter((m) => m.archivedAt === undefined && !isExpired(m, now));
     }
 
     // Filter by tags
@@ -93,7 +525,9 @@ export class LongTermMemory {
 
     // Filter by importance
     if (params.minImportance !== undefined) {
-      candidates = candidates.filter((m) => m.importance >= params.minImportance!);
+      candidates = candidates.filter(
+        (m) => effectiveImportance(m, this.retention) >= params.minImportance!
+      );
     }
 
     // Filter by time range
@@ -109,98 +543,539 @@ export class LongTermMemory {
       });
     }
 
-    // Search by query if provided
-    if (params.query) {
-      const queryLower = params.query.toLowerCase();
-      candidates = candidates
-        .map((m) => ({
-          memory: m,
-          relevance: this.calculateRelevance(m, queryLower),
-        }))
-        .filter((item) => item.relevance > 0)
-        .sort((a, b) => b.relevance - a.relevance)
-        .map((item) => item.memory);
-    } else {
-      // Sort by recency and importance if no query
-      candidates.sort((a, b) => {
-        const scoreA = this.calculateScore(a);
-        const scoreB = this.calculateScore(b);
-        return scoreB - scoreA;
+    // Score queries by a blend of lexical and semantic relevance. Only text
+    // matches from the inverted index and the nearest embeddings are scored;
+    // phrase/prefix queries ask for literal matches, so only text matches
+    const relevance = new Map<string, number>();
+    if (textScores) {
+      let semanticScores: Map<string, number> | undefined;
+      if (queryVector && !isExplicitQuery(parsedQuery!)) {
+        const inScope = new Set(candidates.map((m) => m.id));
+        semanticScores = this.vectors.nearest(queryVector, SEMANTIC_CANDIDATES, {
+          // Hashed n-grams give unrelated texts a small baseline overlap
+          minSimilarity: 0.15,
+          include: (id) => inScope.has(id),
+        });
+      }
+      candidates = candidates.filter((m) => textScores.has(m.id) || semanticScores?.has(m.id));
+
+      const scored = candidates.map((m) => ({
+        memory: m,
+        lexical: this.calculateRelevance(m, textScores.get(m.id) || 0),
+        semantic: semanticScores?.get(m.id) ?? 0,
+      }));
+      const maxLexical = scored.reduce((max, item) => Math.max(max, item.lexical), 0);
+      const semanticWeight = queryVector ? this.semanticWeight : 0;
+
+      scored.forEach((item) => {
+        relevance.set(
+          item.memory.id,
+          semanticWeight * item.semantic +
+            (1 - semanticWeight) * (maxLexical > 0 ? item.lexical / maxLexical : 0)
+        );
       });
+      candidates = candidates.filter((m) => relevance.get(m.id)! > 0);
+    }
+
+    // Rank by relevance for queries, otherwise by recency and importance,
+    // unless explicit sort keys are given
+    const keys: SortKey[] = sortKeys ?? [
+      { field: textScores ? "relevance" : "score", direction: "desc" },
+    ];
+
+    // Recall updates the access counts and importance of what it returns,
+    // which moves those rows in most sort orders. Rows returned by earlier
+    // pages keep the sort values they were returned with, so they can't
+    // come back on a later page or push others past the cursor. Cursors for
+    // queries no longer remembered page by current values.
+    const after = params.cursor ? decodeCursor(keys, params.cursor) : undefined;
+    const queryId = after?.queryId ?? Math.random().toString(36).slice(2, 11);
+    const returned = this.pagedQueries.get(queryId) ?? new Map<string, SortValue[]>();
+
+    const rows = candidates
+      .map((memory) => ({
+        memory,
+        id: memory.id,
+        values:
+          returned.get(memory.id) ??
+          keys.map((key) =>
+            key.field === "relevance"
+              ? relevance.get(memory.id) ?? 0
+              : key.field === "score"
+                ? this.calculateScore(memory)
+                : toSortValue(fieldValue(memory, key.field))
+          ),
+      }))
+      .sort((a, b) => compareSortValues(keys, a, b));
+
+    // Resume after the row the cursor points at
+    let start = 0;
+    if (after) {
+      start = rows.findIndex((row) => compareSortValues(keys, row, after) > 0);
+      if (start === -1) start = rows.length;
     }
 
-    // Update access counts
     const limit = params.limit || 10;
-    const results = candidates.slice(0, limit);
-    results.forEach((m) => {
+    const page = rows.slice(start, start + limit);
+    const hasMore = start + limit < rows.length;
+    if (hasMore) {
+      page.forEach((row) => returned.set(row.id, row.values));
+      this.rememberPagedQuery(queryId, returned);
+    } else {
+      this.pagedQueries.delete(queryId);
+    }
+
+    // The cursor is built from the values the page was sorted by, before
+    // the bookkeeping below changes them
+    const nextCursor = hasMore ? encodeCursor(keys, page[page.length - 1]!, queryId) : undefined;
+    const memories = page.map((row) => row.memory);
+    this.recordRecall(memories);
+
+    return { memories, nextCursor };
+  }
+
+  /**
+   * Update access counts, and co-recall counts for memories recalled
+   * alongside an important one, then rescore. The bookkeeping is journaled
+   * as a single record per recall rather than a put per memory.
+   */
+  private recordRecall(memories: MemoryEntry[]): void {
+    const important = memories
+      .filter((m) => m.importance >= this.scorer.policy.coRecallThreshold)
+      .map((m) => m.id);
+    const entries: MemoryAccess[] = memories.map((m) => {
       m.accessCount++;
       m.lastAccessed = Date.now();
+      if (important.some((id) => id !== m.id)) m.coRecalls = (m.coRecalls ?? 0) + 1;
+      const scored = this.rescore(m, "recall");
+      return {
+        id: m.id,
+        accessCount: m.accessCount,
+        lastAccessed: m.lastAccessed,
+        coRecalls: m.coRecalls,
+        importance: m.importance,
+        ...(scored ? { scoreHistory: m.scoreHistory } : {}),
+      };
     });
+    if (!this.persistence || entries.length === 0) return;
+    this.persistence.append({ op: "access", entries });
+    this.compactIfDue();
+  }
+
+  /**
+   * Keep a paged query's returned sort values, forgetting the least
+   * recently paged query beyond MAX_PAGED_QUERIES
+   */
+  private rememberPagedQuery(queryId: string, returned: Map<string, SortValue[]>): void {
+    this.pagedQueries.delete(queryId);
+    this.pagedQueries.set(queryId, returned);
+    if (this.pagedQueries.size > MAX_PAGED_QUERIES) {
+      this.pagedQueries.delete(this.pagedQueries.keys().next().value!);
+    }
+  }
 
+  /**
+   * Index lookups used to execute structured queries
+   */
+  private querySource(): QuerySource {
+    const ids = (set: Set<string> | undefined) => set ?? new Set<string>();
+    return {
+      ids: () => new Set(this.memories.keys()),
+      get: (id) => this.memories.get(id),
+      withTag: (tag) => ids(this.tagIndex.get(tag)),
+      withContext: (context) => ids(this.contextIndex.get(context)),
+      withNamespace: (namespace) => ids(this.namespaceIndex.get(namespace)),
+      inTimeRange: (start, end) => {
+        const result: string[] = [];
+        for (let i = this.timelineLowerBound(start); i < this.timelineIndex.length; i++) {
+          const entry = this.timelineIndex[i]!;
+          if (entry.timestamp > end) break;
+          result.push(entry.id);
+        }
+        return result;
+      },
+    };
+  }
+
+  /**
+   * First position in the timeline at or after a timestamp
+   */
+  private timelineLowerBound(timestamp: number): number {
+    let low = 0;
+    let high = this.timelineIndex.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.timelineIndex[mid]!.timestamp < timestamp) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Memories created between two timestamps (inclusive), oldest first.
+   * Archived memories are included: they were known at the time.
+   */
+  getTimeRange(
+    start: number,
+    end: number,
+    options: { namespace?: string; limit?: number } = {}
+  ): MemoryEntry[] {
+    const results: MemoryEntry[] = [];
+    for (let i = this.timelineLowerBound(start); i < this.timelineIndex.length; i++) {
+      const entry = this.timelineIndex[i]!;
+      if (entry.timestamp > end || results.length >= (options.limit ?? Infinity)) break;
+      const memory = this.memories.get(entry.id);
+      if (memory && (options.namespace === undefined || memory.namespace === options.namespace)) {
+        results.push(memory);
+      }
+    }
     return results;
   }
 
   /**
-   * Search memories with full-text search
+   * What changed after `from` and up to `to`: every memory created or
+   * revised in the window, with its state at both ends. Deleted memories
+   * take their history with them and are not reported.
    */
-  search(query: string, limit: number = 10): MemoryEntry[] {
-    return this.recall({ query, limit });
+  changesBetween(from: number, to: number, options: { namespace?: string } = {}): TimelineDiff {
+    const ids =
+      options.namespace !== undefined
+        ? this.namespaceIndex.get(options.namespace) || new Set<string>()
+        : this.memories.keys();
+
+    const changes = Array.from(ids)
+      .map((id) => summarizeChanges(this.history.list(id), from, to))
+      .filter((change): change is NonNullable<typeof change> => change !== null)
+      .sort((a, b) => a.revisions.at(-1)!.timestamp - b.revisions.at(-1)!.timestamp);
+
+    return {
+      from,
+      to,
+      created: changes.filter((c) => c.status === "created").length,
+      updated: changes.filter((c) => c.status === "updated").length,
+      changes,
+    };
+  }
+
+  /**
+   * Memory activity (creations and later revisions) per time bucket, broken
+   * down by context or tag
+   */
+  activityHistogram(
+    from: number,
+    to: number,
+    options: { namespace?: string; groupBy?: "context" | "tag"; bucket?: HistogramBucket } = {}
+  ): ActivityHistogram {
+    const groupBy = options.groupBy ?? "context";
+    const inNamespace = (namespace: string) =>
+      options.namespace === undefined || namespace === options.namespace;
+
+    const created = this.getTimeRange(from, to, { namespace: options.namespace }).map((memory) => ({
+      timestamp: memory.timestamp,
+      groups: histogramGroups(memory, groupBy),
+    }));
+    const revised = this.history
+      .all()
+      .filter((r) => r.action !== "create" && inNamespace(r.snapshot.namespace))
+      .map((r) => ({ timestamp: r.timestamp, groups: histogramGroups(r.snapshot, groupBy) }));
+
+    return buildHistogram([...created, ...revised], {
+      from,
+      to,
+      bucket: options.bucket ?? chooseBucket(from, to),
+      groupBy,
+    });
   }
 
   /**
    * Get memories by context
    */
-  getByContext(context: string, limit: number = 10): MemoryEntry[] {
-    return this.recall({ context, limit });
+  getByContext(context: string, limit: number = 10, namespace?: string): MemoryEntry[] {
+    return this.recall({ context, limit, namespace });
   }
 
   /**
    * Get memories by tags
    */
-  getByTags(tags: string[], limit: number = 10): MemoryEntry[] {
-    return this.recall({ tags, limit });
+  getByTags(tags: string[], limit: number = 10, namespace?: string): MemoryEntry[] {
+    return this.recall({ tags, limit, namespace });
   }
 
   /**
    * Get recent memories
    */
-  getRecent(limit: number = 10): MemoryEntry[] {
-    const sorted = Array.from(this.memories.values()).sort(
-      (a, b) => b.timestamp - a.timestamp
-    );
+  getRecent(limit: number = 10, namespace?: string): MemoryEntry[] {
+    const memories = namespace
+      ? Array.from(this.namespaceIndex.get(namespace) || [], (id) => this.memories.get(id)!)
+      : Array.from(this.memories.values());
+    const sorted = memories.sort((a, b) => b.timestamp - a.timestamp);
     return sorted.slice(0, limit);
   }
 
   /**
    * Get important memories
    */
-  getImportant(minImportance: number = 0.7, limit: number = 10): MemoryEntry[] {
-    return this.recall({ minImportance, limit });
+  getImportant(minImportance: number = 0.7, limit: number = 10, namespace?: string): MemoryEntry[] {
+    return this.recall({ minImportance, limit, namespace });
+  }
+
+  /**
+   * Get a memory by ID without counting it as an access
+   */
+  get(id: string): MemoryEntry | undefined {
+    return this.memories.get(id);
+  }
+
+  /**
+   * Walk the related-memory graph from a memory, strongest paths first. A
+   * path scores the product of its link weights; links from older stores
+   * without a weight count as 0.5. Null when the memory doesn't exist.
+   */
+  related(id: string, options: RelatedOptions = {}): RelatedMemory[] | null {
+    const start = this.memories.get(id);
+    if (!start) return null;
+
+    const maxDepth = options.depth ?? 2;
+    const limit = options.limit ?? 20;
+    const results: RelatedMemory[] = [];
+    const settled = new Set<string>([id]);
+    const frontier: Array<{ id: string; depth: number; score: number; path: string[] }> = [
+      { id, depth: 0, score: 1, path: [id] },
+    ];
+
+    // Scores only fall along a path, so the first time a memory comes off
+    // the frontier is its strongest path
+    while (frontier.length > 0 && results.length < limit) {
+      let best = 0;
+      frontier.forEach((entry, i) => {
+        if (entry.score > frontier[best]!.score) best = i;
+      });
+      const current = frontier.splice(best, 1)[0]!;
+      const memory = this.memories.get(current.id);
+      if (!memory) continue;
+
+      if (current.depth > 0) {
+        if (settled.has(current.id)) continue;
+        settled.add(current.id);
+        results.push({ memory, depth: current.depth, score: Math.round(current.score * 1000) / 1000, path: current.path });
+      }
+      if (current.depth >= maxDepth) continue;
+
+      for (const relatedId of memory.relatedMemories) {
+        const related = this.memories.get(relatedId);
+        if (!related || settled.has(relatedId)) continue;
+        if (related.archivedAt !== undefined && !options.includeArchived) continue;
+
+        const weight = linkWeight(memory, relatedId);
+        const score = current.score * weight;
+        if (weight < (options.minScore ?? 0) || score < (options.minPathScore ?? 0)) continue;
+        frontier.push({ id: relatedId, depth: current.depth + 1, score, path: [...current.path, relatedId] });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Known contexts, most used first, optionally narrowed to a prefix and
+   * to the memories in one namespace
+   */
+  getContexts(prefix: string = "", namespace?: string): string[] {
+    return keysByUsage(this.contextIndex, prefix, this.namespaceIds(namespace));
   }
 
   /**
-   * Update a memory entry
+   * Known tags, most used first, optionally narrowed to a prefix and to the
+   * memories in one namespace
    */
-  update(id: string, updates: Partial<Omit<MemoryEntry, "id" | "timestamp">>): MemoryEntry | null {
+  getTags(prefix: string = "", namespace?: string): string[] {
+    return keysByUsage(this.tagIndex, prefix, this.namespaceIds(namespace));
+  }
+
+  /**
+   * IDs of the memories in a namespace, or undefined for all of them
+   */
+  private namespaceIds(namespace?: string): Set<string> | undefined {
+    return namespace === undefined ? undefined : this.namespaceIndex.get(namespace) ?? new Set();
+  }
+
+  /**
+   * Update a memory entry. New content or metadata is screened for secrets
+   * the same way as in store().
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<MemoryEntry, "id" | "timestamp">>,
+    options: { author?: string } = {}
+  ): MemoryEntry | null {
     const memory = this.memories.get(id);
     if (!memory) return null;
 
+    const sensitive = updates.sensitive ?? memory.sensitive;
+    const toggled = !!sensitive !== !!memory.sensitive;
+    if (updates.content !== undefined || updates.metadata !== undefined || toggled) {
+      const fields = this.protect(
+        updates.content ?? (memory.sensitive ? this.open(memory.content) : memory.content),
+        updates.metadata ?? memory.metadata,
+        sensitive,
+        memory.metadata.redactions
+      );
+      // Unchanged sensitive content keeps its ciphertext, so no revision
+      // records a change that isn't there
+      const keepCiphertext = sensitive && updates.content === undefined && !toggled;
+      updates = { ...updates, metadata: fields.metadata, ...(keepCiphertext ? {} : { content: fields.content }) };
+    }
+
     // Remove old indices
     this.removeFromIndices(memory);
 
     // Apply updates
     Object.assign(memory, updates);
+    if (updates.content !== undefined || updates.tags !== undefined || updates.importance !== undefined) {
+      this.rescore(memory, "update");
+    }
 
     // Update indices
     this.updateIndices(memory);
 
+    const relinked =
+      updates.content !== undefined || updates.context !== undefined || updates.tags !== undefined
+        ? this.linkRelatedMemories(memory, { refresh: true })
+        : [];
+
+    this.persist(memory);
+    relinked.forEach((related) => this.persist(related));
+    this.recordRevision(memory, "update", options.author);
+
     return memory;
   }
 
   /**
-   * Delete a memory
+   * A memory's content decrypted, including secrets kept under the encrypt
+   * policy. Null when the memory doesn't exist.
+   */
+  reveal(id: string): string | null {
+    const memory = this.memories.get(id);
+    return memory ? this.decrypt(memory).content : null;
+  }
+
+  /**
+   * Copy of a memory with sensitive content and encrypted secrets decrypted.
+   * Throws an EncryptionError when the key is missing or wrong.
+   */
+  decrypt(memory: MemoryEntry): MemoryEntry {
+    const content = memory.sensitive ? this.open(memory.content) : memory.content;
+    const redactions: Redaction[] = memory.metadata.redactions || [];
+    return { ...memory, content: this.secrets ? this.secrets.reveal(content, redactions) : content };
+  }
+
+  /**
+   * Make `next` the current encryption key and re-encrypt every sensitive
+   * memory, encrypted secret and revision with it. The store is then
+   * snapshotted so no journal record still needs the old key.
+   */
+  rotateKey(next: ContentCipher): { keyId: string; memories: number; revisions: number } {
+    if (!this.keyring) throw new EncryptionError("No encryption key is configured");
+    const keyring = this.keyring;
+    keyring.rotate(next);
+
+    const reencrypt = (fields: Pick<MemoryEntry, "content" | "metadata" | "sensitive">): boolean => {
+      const sealed = ((fields.metadata.redactions || []) as Redaction[]).filter((r) => r.ciphertext);
+      if (!fields.sensitive && sealed.length === 0) return false;
+      if (fields.sensitive) fields.content = keyring.reencrypt(fields.content);
+      sealed.forEach((r) => (r.ciphertext = keyring.reencrypt(r.ciphertext!)));
+      return true;
+    };
+
+    let memories = 0;
+    for (const memory of this.memories.values()) {
+      if (reencrypt(memory)) memories++;
+    }
+    const revisions = this.history.all().filter((revision) => reencrypt(revision.snapshot)).length;
+
+    this.flush();
+    return { keyId: keyring.keyId, memories, revisions };
+  }
+
+  /**
+   * Record feedback on a memory and rescore it. `wrong` and `outdated` lower
+   * its importance, `useful` raises it.
+   */
+  feedback(
+    id: string,
+    kind: FeedbackKind,
+    options: { note?: string } = {}
+  ): { memory: MemoryEntry; previous: number; score: ScoreEntry } | null {
+    const memory = this.memories.get(id);
+    if (!memory) return null;
+
+    const previous = memory.importance;
+    const counts = memory.feedback ?? { useful: 0, wrong: 0, outdated: 0 };
+    memory.feedback = { ...counts, [kind]: counts[kind] + 1 };
+    const score = this.rescore(memory, "feedback", { kind, note: options.note })!;
+
+    this.persist(memory);
+    this.emitChange({ action: "update", id });
+    return { memory, previous, score };
+  }
+
+  /**
+   * Rescore every memory (in a namespace), e.g. after the scoring policy
+   * changed. Returns how many changed importance.
+   */
+  rescoreAll(options: { namespace?: string } = {}): number {
+    let changed = 0;
+    for (const memory of this.export({ namespace: options.namespace })) {
+      if (!this.rescore(memory, "rescore")) continue;
+      changed++;
+      this.persist(memory);
+    }
+    return changed;
+  }
+
+  /**
+   * Revision chain for a memory, oldest first
+   */
+  getHistory(id: string): MemoryRevision[] {
+    return this.history.list(id);
+  }
+
+  /**
+   * Field-level and content line diff between two revisions of a memory
+   */
+  diffRevisions(id: string, from: number, to: number): RevisionDiff | null {
+    return this.history.diff(id, from, to);
+  }
+
+  /**
+   * Restore a memory to an earlier revision. The revert is itself recorded as
+   * a new revision, so nothing in the chain is lost.
+   */
+  revert(id: string, revision: number, options: { author?: string } = {}): MemoryEntry | null {
+    const memory = this.memories.get(id);
+    const target = this.history.get(id, revision);
+    if (!memory || !target) return null;
+
+    this.removeFromIndices(memory);
+    Object.assign(memory, structuredClone(target.snapshot));
+    this.updateIndices(memory);
+    const relinked = this.linkRelatedMemories(memory, { refresh: true });
+
+    this.persist(memory);
+    relinked.forEach((related) => this.persist(related));
+    this.recordRevision(memory, "revert", options.author, revision);
+
+    return memory;
+  }
+
+  /**
+   * Delete a memory. A tombstone is kept so synced copies are deleted too.
    */
   delete(id: string): boolean {
+    return this.deleteWithStamp(id, { at: Date.now(), by: this.instanceId });
+  }
+
+  private deleteWithStamp(id: string, stamp: MemoryStamp): boolean {
     const memory = this.memories.get(id);
     if (!memory) return false;
 
@@ -211,15 +1086,30 @@ export class LongTermMemory {
     memory.relatedMemories.forEach((relatedId) => {
       const related = this.memories.get(relatedId);
       if (related) {
-        related.relatedMemories = related.relatedMemories.filter(
-          (rid) => rid !== id
-        );
+        this.unlink(related, id);
+        this.persist(related);
       }
     });
 
+    this.history.delete(id);
+    this.tombstones.set(id, { id, ...stamp });
+    this.persistence?.append({ op: "delete", id, tombstone: stamp });
+    this.compactIfDue();
+    this.emitChange({ action: "delete", id });
+
     return true;
   }
 
+  /**
+   * Listen for mutations: every recorded revision, deletes and clears.
+   * Access bookkeeping from recall is not reported. Returns an unsubscribe
+   * function.
+   */
+  onChange(listener: (change: MemoryChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   /**
    * Get memory statistics
    */
@@ -230,10 +1120,27 @@ export class LongTermMemory {
     oldestMemory?: number;
     newestMemory?: number;
     avgImportance: number;
+    archivedMemories: number;
+    expiredMemories: number;
+    namespaces: Record<
+      string,
+      { totalMemories: number; totalContexts: number; totalTags: number; avgImportance: number }
+    >;
   } {
     const memories = Array.from(this.memories.values());
     const timestamps = memories.map((m) => m.timestamp);
 
+    const namespaces: ReturnType<LongTermMemory["getStats"]>["namespaces"] = {};
+    for (const [namespace, ids] of this.namespaceIndex) {
+      const scoped = Array.from(ids, (id) => this.memories.get(id)!);
+      namespaces[namespace] = {
+        totalMemories: scoped.length,
+        totalContexts: new Set(scoped.map((m) => m.context).filter(Boolean)).size,
+        totalTags: new Set(scoped.flatMap((m) => m.tags)).size,
+        avgImportance: scoped.reduce((sum, m) => sum + m.importance, 0) / scoped.length,
+      };
+    }
+
     return {
       totalMemories: memories.length,
       totalContexts: this.contextIndex.size,
@@ -244,25 +1151,96 @@ export class LongTermMemory {
         memories.length > 0
           ? memories.reduce((sum, m) => sum + m.importance, 0) / memories.length
           : 0,
+      archivedMemories: memories.filter((m) => m.archivedAt !== undefined).length,
+      expiredMemories: memories.filter((m) => m.archivedAt === undefined && isExpired(m)).length,
+      namespaces,
     };
   }
 
   /**
-   * Consolidate memories - identify patterns and create summaries
+   * Move a memory to the archive tier, hiding it from default recall
    */
-  consolidate(context?: string): {
-    patterns: Array<{ pattern: string; count: number; memoryIds: string[] }>;
-    summary: string;
-  } {
-    let memories = Array.from(this.memories.values());
+  archive(id: string, options: { author?: string } = {}): MemoryEntry | null {
+    const memory = this.memories.get(id);
+    if (!memory) return null;
 
-    if (context) {
-      const contextIds = this.contextIndex.get(context);
-      if (contextIds) {
-        memories = memories.filter((m) => contextIds.has(m.id));
-      }
+    if (memory.archivedAt === undefined) {
+      memory.archivedAt = Date.now();
+      this.persist(memory);
+      this.recordRevision(memory, "archive", options.author);
     }
 
+    return memory;
+  }
+
+  /**
+   * Bring an archived or expired memory back into default recall
+   */
+  restore(id: string, options: { author?: string } = {}): MemoryEntry | null {
+    const memory = this.memories.get(id);
+    if (!memory) return null;
+
+    memory.archivedAt = undefined;
+    if (isExpired(memory)) {
+      memory.expiresAt = undefined;
+    }
+    // Restoring counts as an access so decay starts over
+    memory.lastAccessed = Date.now();
+    this.persist(memory);
+    this.recordRevision(memory, "restore", options.author);
+
+    return memory;
+  }
+
+  /**
+   * Apply the retention policy: archive expired or decayed memories and delete
+   * long-archived ones. With dryRun, only report what would be evicted.
+   */
+  prune(options: { dryRun?: boolean; policy?: RetentionPolicy } = {}): RetentionReport {
+    const policy = options.policy ?? this.retention;
+    const dryRun = options.dryRun ?? false;
+    const evaluatedAt = Date.now();
+    const scanned = this.memories.size;
+
+    const actions = policy ? evaluateRetention(this.memories.values(), policy, evaluatedAt) : [];
+
+    if (!dryRun) {
+      actions.forEach((action) => {
+        if (action.action === "delete") {
+          this.delete(action.id);
+        } else {
+          this.archive(action.id, { author: "retention-policy" });
+        }
+      });
+    }
+
+    return { evaluatedAt, dryRun, scanned, actions };
+  }
+
+  /**
+   * Consolidate memories: cluster related memories by context, tags and
+   * content, then write a summary memory for each cluster that links back to
+   * its sources. Sources are marked with `metadata.consolidatedInto` and
+   * left out of later runs; facts and decision records are never sources.
+   */
+  async consolidate(options: ConsolidateOptions = {}): Promise<ConsolidationReport> {
+    const namespace = options.namespace || DEFAULT_NAMESPACE;
+    const summarizer = options.summarizer ?? this.summarizer;
+    const minClusterSize = options.minClusterSize ?? 3;
+    const threshold = options.threshold ?? 0.5;
+
+    const memories = Array.from(this.namespaceIndex.get(namespace) || [])
+      .map((id) => this.memories.get(id)!)
+      .filter(
+        (m) =>
+          (!options.context || m.context === options.context) &&
+          m.archivedAt === undefined &&
+          !m.sensitive &&
+          !isRecord(m) &&
+          m.metadata.consolidation === undefined &&
+          m.metadata.consolidatedInto === undefined
+      );
+
     // Find patterns in tags
     const tagPatterns = new Map<string, string[]>();
     memories.forEach((m) => {
@@ -283,46 +1261,533 @@ export class LongTermMemory {
       .filter((p) => p.count > 1)
       .sort((a, b) => b.count - a.count);
 
-    // Generate summary
-    const summary = this.generateSummary(memories);
+    const report: ConsolidationReport = {
+      dryRun: !!options.dryRun,
+      scanned: memories.length,
+      summarizer: summarizer.name,
+      patterns,
+      clusters: [],
+      demoted: [],
+    };
+
+    for (const cluster of this.clusterMemories(memories, threshold)) {
+      if (cluster.length < minClusterSize) continue;
+
+      const label = clusterLabel(cluster);
+      const summary = await summarizer.summarize(cluster, { label });
+      const entry: ConsolidationCluster = { label, memoryIds: cluster.map((m) => m.id), summary };
+      report.clusters.push(entry);
+      if (options.dryRun) continue;
+
+      entry.summaryId = this.writeSummary(cluster, summary, { label, summarizer: summarizer.name, namespace, author: options.author }).id;
+
+      for (const source of cluster) {
+        // The source may have been deleted while the summarizer was running
+        if (!this.memories.has(source.id)) continue;
+
+        source.metadata = { ...source.metadata, consolidatedInto: entry.summaryId };
+        if (options.demote === "lower") {
+          source.importance = Math.round(source.importance * 50) / 100;
+          report.demoted.push(source.id);
+        }
+        this.persist(source);
+        this.recordRevision(source, "update", options.author);
+
+        if (options.demote === "archive") {
+          this.archive(source.id, { author: options.author });
+          report.demoted.push(source.id);
+        }
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Export all memories, or those in one namespace
+   */
+  export(options: { namespace?: string; decrypt?: boolean } = {}): MemoryEntry[] {
+    const memories =
+      options.namespace !== undefined
+        ? Array.from(this.namespaceIndex.get(options.namespace) || [])
+            .map((id) => this.memories.get(id)!)
+            .filter(Boolean)
+        : Array.from(this.memories.values());
+    return options.decrypt ? memories.map((memory) => this.decrypt(memory)) : memories;
+  }
+
+  /**
+   * Import memories, validating each against MemoryEntrySchema. Invalid
+   * records are reported by position and skipped; ID collisions are resolved
+   * by the conflict strategy.
+   */
+  import(records: Iterable<unknown>, options: ImportOptions = {}): ImportReport {
+    const report = this.emptyImportReport(options);
+    const seen = new Map<string, MemoryEntry>();
+    let row = 0;
+    for (const record of records) {
+      this.importRecord(++row, record, options, report, seen);
+    }
+    return report;
+  }
 
-    return { patterns, summary };
+  /**
+   * Import records as they are parsed from a stream (see parseMemories())
+   */
+  async importStream(records: AsyncIterable<ParsedRecord>, options: ImportOptions = {}): Promise<ImportReport> {
+    const report = this.emptyImportReport(options);
+    const seen = new Map<string, MemoryEntry>();
+    for await (const record of records) {
+      if (record.error !== undefined) {
+        report.errors.push({ row: record.row, message: record.error });
+      } else {
+        this.importRecord(record.row, record.value, options, report, seen);
+      }
+    }
+    return report;
   }
 
   /**
-   * Export all memories
+   * Changes made on this instance after `cursor`, up to the returned `until`:
+   * the current version of each memory changed in that window and tombstones
+   * for memories deleted in it. Versions merged from other instances, access
+   * bookkeeping and sensitive memories are left out.
    */
-  export(): MemoryEntry[] {
-    return Array.from(this.memories.values());
+  changesSince(cursor: number): {
+    entries: Array<{ entry: MemoryEntry; stamp: MemoryStamp }>;
+    tombstones: Tombstone[];
+    until: number;
+  } {
+    // Changes made in the current millisecond go into the next changeset
+    const until = Math.max(cursor, Date.now() - 1);
+    const inWindow = (stamp: MemoryStamp) => stamp.by === this.instanceId && stamp.at > cursor && stamp.at <= until;
+
+    const entries: Array<{ entry: MemoryEntry; stamp: MemoryStamp }> = [];
+    for (const memory of this.memories.values()) {
+      const stamp = this.stampOf(memory);
+      if (memory.sensitive || !inWindow(stamp)) continue;
+      entries.push({ entry: { ...structuredClone(withoutBookkeeping(memory)), accessCount: 0, relatedMemories: [] }, stamp });
+    }
+
+    return { entries, tombstones: Array.from(this.tombstones.values()).filter(inWindow), until };
   }
 
   /**
-   * Import memories
+   * Merge changes from another instance. Each memory ends up with whichever
+   * version, or deletion, has the later stamp, so merging the same changes
+   * in any order gives the same store. Access counts, feedback and links
+   * stay local. Incoming content is screened for secrets like any write.
    */
-  import(memories: MemoryEntry[]): void {
-    memories.forEach((memory) => {
+  mergeChanges(
+    changes: { entries: Array<{ entry: MemoryEntry; stamp: MemoryStamp }>; tombstones: Tombstone[] },
+    options: { author?: string } = {}
+  ): ChangesetMergeReport {
+    const report: ChangesetMergeReport = { applied: 0, deleted: 0, ignored: 0, errors: [] };
+
+    for (const { entry, stamp } of changes.entries) {
+      const local = this.memories.get(entry.id);
+      const current = local ? this.stampOf(local) : this.tombstones.get(entry.id);
+      if (current && compareStamps(stamp, current) <= 0) {
+        report.ignored++;
+        continue;
+      }
+      if (entry.sensitive) {
+        report.errors.push({ id: entry.id, message: "Sensitive memories are not synced" });
+        continue;
+      }
+
+      let fields: { content: string; metadata: Record<string, any> };
+      try {
+        const screened = this.protect(entry.content, entry.metadata, false);
+        fields = { content: screened.content, metadata: screened.metadata ?? {} };
+      } catch (error) {
+        if (!(error instanceof SecretError)) throw error;
+        report.errors.push({ id: entry.id, message: error.message });
+        continue;
+      }
+
+      const memory: MemoryEntry = local ?? { ...withoutBookkeeping(entry), accessCount: 0, relatedMemories: [] };
+      if (local) this.removeFromIndices(local);
+      Object.assign(memory, withoutBookkeeping(entry), fields);
+      this.tombstones.delete(memory.id);
       this.memories.set(memory.id, memory);
       this.updateIndices(memory);
-    });
+      const linked = this.linkRelatedMemories(memory, { refresh: !!local });
+
+      this.persist(memory);
+      linked.forEach((related) => this.persist(related));
+      this.recordRevision(memory, local ? "update" : "create", options.author ?? `sync:${stamp.by}`, undefined, stamp);
+      report.applied++;
+    }
+
+    for (const tombstone of changes.tombstones) {
+      const local = this.memories.get(tombstone.id);
+      const current = local ? this.stampOf(local) : this.tombstones.get(tombstone.id);
+      if (current && compareStamps(tombstone, current) <= 0) {
+        report.ignored++;
+        continue;
+      }
+
+      const stamp = { at: tombstone.at, by: tombstone.by };
+      if (local) {
+        this.deleteWithStamp(tombstone.id, stamp);
+        report.deleted++;
+      } else {
+        // Keep the tombstone so an older copy from a third instance stays deleted
+        this.tombstones.set(tombstone.id, { id: tombstone.id, ...stamp });
+        this.persistence?.append({ op: "delete", id: tombstone.id, tombstone: stamp });
+        this.compactIfDue();
+      }
+    }
+
+    return report;
   }
 
   /**
-   * Clear all memories
+   * Clear all memories. Each gets a tombstone, so synced copies are deleted
+   * too and peers don't bring them back.
    */
   clear(): void {
+    const stamp = { at: Date.now(), by: this.instanceId };
+    this.memories.forEach((memory) => {
+      this.embedder.removeDocument?.(this.indexText(memory));
+      this.tombstones.set(memory.id, { id: memory.id, ...stamp });
+    });
     this.memories.clear();
+    this.vectors.clear();
+    this.pendingEmbeddings.clear();
+    this.textIndex.clear();
+    this.relatedIndex.clear();
+    this.history.clear();
+    this.namespaceIndex.clear();
     this.contextIndex.clear();
     this.tagIndex.clear();
     this.timelineIndex = [];
+    this.pagedQueries.clear();
+
+    this.persistence?.append({ op: "clear", tombstone: stamp });
+    this.compactIfDue();
+    this.emitChange({ action: "clear" });
+  }
+
+  /**
+   * Write a snapshot of all memories and truncate the journal
+   */
+  flush(): void {
+    this.persistence?.snapshot(this.export(), this.history.all(), Array.from(this.tombstones.values()));
   }
 
   // Private helper methods
 
+  /**
+   * Replay the persisted snapshot and journal, then rebuild all indices
+   */
+  private replay(): MemoryRecoveryReport {
+    const { memories, revisions, tombstones, report } = this.persistence!.load();
+
+    memories.forEach((memory) => this.memories.set(memory.id, memory));
+    revisions
+      .filter((revision) => this.memories.has(revision.memoryId))
+      .forEach((revision) => this.history.add(revision));
+    tombstones.forEach((tombstone) => this.tombstones.set(tombstone.id, tombstone));
+    this.rebuildIndices();
+
+    // Rewrite a damaged journal so later appends don't land after garbage
+    if (report.skippedRecords > 0 || report.snapshotCorrupt) {
+      console.error(
+        `[memory] Recovered ${memories.length} memories from ${this.persistence!.directory} ` +
+          `(skipped ${report.skippedRecords} unreadable journal records${report.snapshotCorrupt ? ", snapshot was corrupt" : ""})`
+      );
+      this.flush();
+    }
+
+    return report;
+  }
+
+  private rebuildIndices(): void {
+    this.namespaceIndex.clear();
+    this.contextIndex.clear();
+    this.tagIndex.clear();
+    this.timelineIndex = [];
+    this.relatedIndex.clear();
+
+    this.memories.forEach((memory) => this.updateIndices(memory));
+
+    // Links written before links were kept on both ends
+    this.memories.forEach((memory) =>
+      memory.relatedMemories.forEach((relatedId) => {
+        const related = this.memories.get(relatedId);
+        if (related && !related.relatedMemories.includes(memory.id)) {
+          related.relatedMemories.push(memory.id);
+          if (memory.relatedScores?.[relatedId] !== undefined) {
+            related.relatedScores = { ...related.relatedScores, [memory.id]: memory.relatedScores[relatedId] };
+          }
+        }
+      })
+    );
+  }
+
+  private persist(memory: MemoryEntry | undefined): void {
+    if (!this.persistence || !memory) return;
+    this.persistence.append({ op: "put", entry: memory });
+    this.compactIfDue();
+  }
+
+  /**
+   * Memories in the namespace whose content is at least `threshold` similar,
+   * most similar first. Candidates come from the inverted index.
+   */
+  private findDuplicates(
+    content: string,
+    namespace: string,
+    threshold: number,
+    excludeId?: string
+  ): Array<{ memory: MemoryEntry; similarity: number }> {
+    const terms = Array.from(new Set(tokenize(content).filter((t) => !STOP_WORDS.has(t))));
+    const scores = this.textIndex.search({ terms, prefixes: [], phrases: [] });
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 20)
+      .map(([id]) => this.memories.get(id)!)
+      .filter(
+        (m) =>
+          m.id !== excludeId && m.namespace === namespace && m.archivedAt === undefined && !isRecord(m)
+      )
+      .map((memory) => ({ memory, similarity: contentSimilarity(content, memory.content) }))
+      .filter((item) => item.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Fold an incoming duplicate into an existing memory: union the tags, bump
+   * importance and record where the duplicate came from
+   */
+  private mergeInto(
+    target: MemoryEntry,
+    source: Pick<StoreParams, "content" | "context" | "tags" | "importance" | "metadata" | "author"> & {
+      sourceId?: string;
+    },
+    similarity: number
+  ): MergeReport {
+    const before = target.importance;
+    const addedTags = (source.tags || []).filter((tag) => !target.tags.includes(tag));
+    const provenance: MergeProvenance = {
+      mergedAt: Date.now(),
+      similarity,
+      sourceId: source.sourceId,
+      content: source.content !== target.content ? source.content : undefined,
+      context: source.context,
+      author: source.author,
+    };
+
+    this.removeFromIndices(target);
+    target.tags = [...target.tags, ...addedTags];
+    target.importance = Math.min(1, Math.max(target.importance, source.importance ?? 0.5) + 0.05);
+    target.metadata = {
+      ...(source.metadata || {}),
+      ...target.metadata,
+      mergedFrom: [...(target.metadata.mergedFrom || []), provenance],
+    };
+    this.updateIndices(target);
+
+    this.persist(target);
+    this.recordRevision(target, "merge", source.author);
+
+    return {
+      targetId: target.id,
+      sourceId: source.sourceId,
+      similarity,
+      addedTags,
+      importance: { before, after: target.importance },
+    };
+  }
+
+  private emptyImportReport(options: ImportOptions): ImportReport {
+    return { dryRun: !!options.dryRun, imported: 0, overwritten: 0, skipped: 0, renamed: [], errors: [] };
+  }
+
+  /**
+   * Validate and store one imported record. `seen` tracks IDs a dry run
+   * would have stored, so collisions within the import are reported too.
+   */
+  private importRecord(
+    row: number,
+    record: unknown,
+    options: ImportOptions,
+    report: ImportReport,
+    seen: Map<string, MemoryEntry> // rows a dry run would have stored
+  ): void {
+    if (typeof record !== "object" || record === null || Array.isArray(record)) {
+      report.errors.push({ row, message: "Expected an object" });
+      return;
+    }
+
+    const parsed = MemoryEntrySchema.safeParse({
+      id: this.generateId(),
+      timestamp: Date.now(),
+      namespace: options.namespace,
+      ...record,
+    });
+    if (!parsed.success) {
+      report.errors.push({
+        row,
+        message: parsed.error.issues
+          .map((issue) => `${issue.path.join(".") || "record"}: ${issue.message}`)
+          .join("; "),
+      });
+      return;
+    }
+
+    let memory = parsed.data;
+    try {
+      const fields = this.protect(memory.content, memory.metadata, memory.sensitive, memory.metadata.redactions);
+      memory = { ...memory, content: fields.content, metadata: fields.metadata! };
+    } catch (error) {
+      if (!(error instanceof SecretError || error instanceof EncryptionError)) throw error;
+      report.errors.push({ row, message: error.message });
+      return;
+    }
+    const existing = this.memories.get(memory.id);
+    const collides = !!existing || seen.has(memory.id);
+
+    if (collides) {
+      switch (options.conflict ?? "skip") {
+        case "skip":
+          report.skipped++;
+          return;
+        case "keep-newest": {
+          const current = existing ? lastModified(existing, this.history) : lastModified(seen.get(memory.id)!);
+          if (current >= lastModified(memory)) {
+            report.skipped++;
+            return;
+          }
+          report.overwritten++;
+          break;
+        }
+        case "overwrite":
+          report.overwritten++;
+          break;
+        case "rename": {
+          const id = this.generateId();
+          report.renamed.push({ from: memory.id, to: id });
+          memory = { ...memory, id, metadata: { ...memory.metadata, importedFrom: memory.id } };
+          break;
+        }
+      }
+    }
+    report.imported++;
+
+    if (options.dryRun) {
+      seen.set(memory.id, memory);
+      return;
+    }
+
+    // Keep links to memories this store has, following renames made earlier
+    // in the import, and the replaced copy's links so they can be unlinked
+    const renamed = new Map(report.renamed.map(({ from, to }) => [from, to]));
+    const replaced = this.memories.get(memory.id);
+    const relatedIds = new Set([
+      ...memory.relatedMemories.map((id) => renamed.get(id) ?? id),
+      ...(replaced?.relatedMemories || []),
+    ]);
+    memory.relatedMemories = Array.from(relatedIds).filter(
+      (id) => id !== memory.id && this.memories.get(id)?.namespace === memory.namespace
+    );
+    if (memory.relatedScores) {
+      const scores = memory.relatedScores;
+      memory.relatedScores = Object.fromEntries(memory.relatedMemories.filter((id) => id in scores).map((id) => [id, scores[id]!]));
+    }
+
+    if (replaced) this.removeFromIndices(replaced);
+    this.memories.set(memory.id, memory);
+    this.updateIndices(memory);
+    // Re-weighing every kept link makes it mutual, or drops it both ways
+    const linked = this.linkRelatedMemories(memory, { refresh: true });
+
+    // The imported copy keeps the time it was last edited where it came
+    // from, so the revision is journaled before the entry that restores it
+    const updatedAt = memory.updatedAt;
+    this.recordRevision(memory, replaced ? "update" : "create", options.author);
+    if (updatedAt !== undefined) memory.updatedAt = updatedAt;
+    this.persist(memory);
+    linked.forEach((related) => this.persist(related));
+  }
+
+  private recordRevision(
+    memory: MemoryEntry,
+    action: MemoryRevision["action"],
+    author?: string,
+    revertedTo?: number,
+    origin?: MemoryStamp
+  ): void {
+    // A local change must outrank the version it replaces, even one synced
+    // from an instance whose clock runs ahead
+    const previous = this.history.list(memory.id).length > 0 ? this.stampOf(memory) : undefined;
+    if (!origin && previous && previous.at >= Date.now()) {
+      origin = { at: previous.at + 1, by: this.instanceId };
+    }
+
+    const revision = this.history.record(memory, { action, author, revertedTo, origin });
+    if (revision) {
+      memory.updatedAt = revisionTime(revision);
+      this.persistence?.append({ op: "revision", revision });
+      // The journal still holds the plaintext, so snapshot over it
+      if (memory.sensitive && this.keyring && this.sealHistory(memory.id) > 0) this.flush();
+      else this.compactIfDue();
+      this.emitChange({ action, id: memory.id });
+    }
+  }
+
+  /**
+   * Encrypt the revisions saved before a memory was made sensitive, so its
+   * history doesn't keep the plaintext. Returns how many were sealed.
+   */
+  private sealHistory(id: string): number {
+    const plain = this.history.list(id).filter((revision) => !revision.snapshot.sensitive);
+    plain.forEach(({ snapshot }) => {
+      snapshot.content = this.seal(snapshot.content);
+      snapshot.sensitive = true;
+    });
+    return plain.length;
+  }
+
+  /**
+   * When and where a memory's current version was made, for sync
+   */
+  private stampOf(memory: MemoryEntry): MemoryStamp {
+    const last = this.history.list(memory.id).at(-1);
+    if (!last) return { at: memory.timestamp, by: this.instanceId };
+    return last.origin ?? { at: last.timestamp, by: this.instanceId };
+  }
+
+  private emitChange(change: MemoryChange): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("[memory] Change listener failed:", error);
+      }
+    });
+  }
+
+  private compactIfDue(): void {
+    if (this.persistence?.snapshotDue) {
+      this.flush();
+    }
+  }
+
   private generateId(): string {
     return `mem_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
   }
 
   private updateIndices(memory: MemoryEntry): void {
+    // Update namespace index
+    if (!this.namespaceIndex.has(memory.namespace)) {
+      this.namespaceIndex.set(memory.namespace, new Set());
+    }
+    this.namespaceIndex.get(memory.namespace)!.add(memory.id);
+
     // Update context index
     if (memory.context) {
       if (!this.contextIndex.has(memory.context)) {
@@ -339,12 +1804,45 @@ export class LongTermMemory {
       this.tagIndex.get(tag)!.add(memory.id);
     });
 
-    // Update timeline
-    this.timelineIndex.push({ timestamp: memory.timestamp, id: memory.id });
-    this.timelineIndex.sort((a, b) => a.timestamp - b.timestamp);
+    // Update timeline, keeping it sorted by timestamp
+    let low = 0;
+    let high = this.timelineIndex.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.timelineIndex[mid]!.timestamp <= memory.timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.timelineIndex.splice(low, 0, { timestamp: memory.timestamp, id: memory.id });
+
+    // Update full-text index
+    const text = this.indexText(memory);
+    this.textIndex.add(memory.id, text);
+
+    // Update related-memory index
+    this.relatedIndex.add(memory.id, memory.namespace, relatedFeatures(memory));
+
+    // Update vector index
+    this.embedder.addDocument?.(text);
+    if (this.embedder.embedDocumentsSync) {
+      this.vectors.add(memory.id, this.embedder.embedDocumentsSync([text])[0]!);
+    } else {
+      this.pendingEmbeddings.add(memory.id);
+    }
   }
 
   private removeFromIndices(memory: MemoryEntry): void {
+    // Remove from namespace index
+    const namespaceSet = this.namespaceIndex.get(memory.namespace);
+    if (namespaceSet) {
+      namespaceSet.delete(memory.id);
+      if (namespaceSet.size === 0) {
+        this.namespaceIndex.delete(memory.namespace);
+      }
+    }
+
     // Remove from context index
     if (memory.context) {
       const contextSet = this.contextIndex.get(memory.context);
@@ -369,30 +1867,77 @@ export class LongTermMemory {
 
     // Remove from timeline
     this.timelineIndex = this.timelineIndex.filter((item) => item.id !== memory.id);
+
+    // Remove from full-text index
+    this.textIndex.remove(memory.id);
+
+    // Remove from related-memory index
+    this.relatedIndex.remove(memory.id);
+
+    // Remove from vector index
+    this.embedder.removeDocument?.(this.indexText(memory));
+    this.vectors.remove(memory.id);
+    this.pendingEmbeddings.delete(memory.id);
   }
 
-  private calculateRelevance(memory: MemoryEntry, query: string): number {
-    let score = 0;
+  private indexText(memory: MemoryEntry): string {
+    // Sensitive content stays out of the text and vector indices
+    return [memory.sensitive ? undefined : memory.content, memory.context, ...memory.tags].filter(Boolean).join(" ");
+  }
 
-    // Content match
-    const content = memory.content.toLowerCase();
-    if (content.includes(query)) {
-      score += 1.0;
+  /**
+   * Screen content and metadata for secrets, then encrypt sensitive content
+   * unless it already is (as in an import). Sensitive content is meant to
+   * hold secrets, so only its metadata is screened.
+   */
+  private protect(
+    content: string,
+    metadata: Record<string, any> | undefined,
+    sensitive: boolean | undefined,
+    previous?: Redaction[]
+  ): { content: string; metadata: Record<string, any> | undefined } {
+    if (this.secrets) {
+      const screened = this.secrets.screen({ content: sensitive ? "" : content, metadata }, previous);
+      metadata = screened.metadata;
+      if (!sensitive) content = screened.content;
     }
+    return { content: sensitive && !isEncrypted(content) ? this.seal(content) : content, metadata };
+  }
 
-    // Tag match
-    const matchingTags = memory.tags.filter((tag) =>
-      tag.toLowerCase().includes(query)
-    );
-    score += matchingTags.length * 0.5;
+  /**
+   * Apply the scorer to a memory. Only stores and feedback are always kept
+   * in the score history; other rescores are kept when importance moved, so
+   * the history stays readable.
+   */
+  private rescore(
+    memory: MemoryEntry,
+    reason: ScoreEntry["reason"],
+    feedback?: { kind: FeedbackKind; note?: string }
+  ): ScoreEntry | undefined {
+    const entry = this.scorer.score(memory, reason, feedback);
+    if (reason !== "store" && reason !== "feedback" && entry.importance === memory.importance) return undefined;
+
+    memory.importance = entry.importance;
+    memory.scoreHistory = [...(memory.scoreHistory || []), entry].slice(-this.scorer.policy.historyLimit);
+    return entry;
+  }
 
-    // Context match
-    if (memory.context && memory.context.toLowerCase().includes(query)) {
-      score += 0.5;
-    }
+  private seal(content: string): string {
+    if (!this.keyring) throw new EncryptionError("Sensitive memories need an encryption key");
+    return this.keyring.encrypt(content);
+  }
 
-    // Boost by importance
-    score *= 1 + memory.importance;
+  private open(payload: string): string {
+    if (!this.keyring) throw new EncryptionError("Sensitive memories need an encryption key");
+    return this.keyring.decrypt(payload);
+  }
+
+  private calculateRelevance(memory: MemoryEntry, textScore: number): number {
+    // BM25 score from the inverted index
+    let score = textScore;
+
+    // Boost by (decayed) importance
+    score *= 1 + effectiveImportance(memory, this.retention);
 
     // Boost by access frequency
     score *= 1 + Math.log(memory.accessCount + 1) * 0.1;
@@ -409,8 +1954,8 @@ export class LongTermMemory {
     const age = Date.now() - memory.timestamp;
     const recencyScore = Math.exp(-age / (7 * 24 * 60 * 60 * 1000)); // Decay over 1 week
 
-    // Importance score
-    const importanceScore = memory.importance;
+    // Importance score, decayed by the retention policy's half-life
+    const importanceScore = effectiveImportance(memory, this.retention);
 
     // Access score
     const accessScore = Math.min(memory.accessCount / 10, 1);
@@ -422,63 +1967,232 @@ export class LongTermMemory {
     );
   }
 
-  private linkRelatedMemories(memory: MemoryEntry): void {
-    const candidates = Array.from(this.memories.values()).filter(
-      (m) => m.id !== memory.id
-    );
-
-    candidates.forEach((candidate) => {
-      const similarity = this.calculateSimilarity(memory, candidate);
-      if (similarity > 0.5) {
-        // Link if similarity is above threshold
-        if (!memory.relatedMemories.includes(candidate.id)) {
-          memory.relatedMemories.push(candidate.id);
+  /**
+   * Link a memory to the candidates the LSH index finds for it whose
+   * relatedness reaches the threshold, on both ends, keeping at most
+   * `maxRelated` automatic links per memory. With `refresh`, existing links
+   * are re-weighted and dropped once they fall below the threshold, except
+   * consolidation links. Returns the other memories that changed.
+   */
+  private linkRelatedMemories(memory: MemoryEntry, options: { refresh?: boolean } = {}): MemoryEntry[] {
+    const changed = new Map<string, MemoryEntry>();
+
+    if (options.refresh) {
+      for (const relatedId of [...memory.relatedMemories]) {
+        const related = this.memories.get(relatedId);
+        if (!related || memory.metadata.consolidatedInto === related.id || related.metadata.consolidatedInto === memory.id) {
+          continue;
         }
-        if (!candidate.relatedMemories.includes(memory.id)) {
-          candidate.relatedMemories.push(memory.id);
+        const score = relatedness(memory, related);
+        if (score >= this.relatedThreshold) this.link(memory, related, score);
+        else {
+          this.unlink(memory, related.id);
+          this.unlink(related, memory.id);
         }
+        changed.set(related.id, related);
       }
-    });
+    }
+
+    const scored = this.relatedIndex
+      .candidates(memory.namespace, relatedFeatures(memory), memory.id)
+      .map((id) => this.memories.get(id))
+      // Links never cross namespaces
+      .filter((c): c is MemoryEntry => !!c && c.namespace === memory.namespace && !memory.relatedMemories.includes(c.id))
+      .map((candidate) => ({ candidate, score: relatedness(memory, candidate) }))
+      .filter(({ score }) => score >= this.relatedThreshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.max(0, this.maxRelated - memory.relatedMemories.length));
+
+    for (const { candidate, score } of scored) {
+      // A memory at the limit gives up its weakest link for a stronger one
+      if (candidate.relatedMemories.length >= this.maxRelated) {
+        const weakest = candidate.relatedMemories.reduce((a, b) => (linkWeight(candidate, b) < linkWeight(candidate, a) ? b : a));
+        if (linkWeight(candidate, weakest) >= score) continue;
+        this.unlink(candidate, weakest);
+        const dropped = this.memories.get(weakest);
+        if (dropped) {
+          this.unlink(dropped, candidate.id);
+          changed.set(dropped.id, dropped);
+        }
+      }
+      this.link(memory, candidate, score);
+      changed.set(candidate.id, candidate);
+    }
+
+    return Array.from(changed.values());
   }
 
-  private calculateSimilarity(m1: MemoryEntry, m2: MemoryEntry): number {
-    let similarity = 0;
+  /**
+   * Link two memories both ways with the given weight
+   */
+  private link(a: MemoryEntry, b: MemoryEntry, weight: number): void {
+    if (!a.relatedMemories.includes(b.id)) a.relatedMemories.push(b.id);
+    if (!b.relatedMemories.includes(a.id)) b.relatedMemories.push(a.id);
+    (a.relatedScores ??= {})[b.id] = weight;
+    (b.relatedScores ??= {})[a.id] = weight;
+  }
 
-    // Context similarity
-    if (m1.context && m2.context && m1.context === m2.context) {
-      similarity += 0.5;
-    }
+  private unlink(memory: MemoryEntry, relatedId: string): void {
+    memory.relatedMemories = memory.relatedMemories.filter((id) => id !== relatedId);
+    if (memory.relatedScores) delete memory.relatedScores[relatedId];
+  }
 
-    // Tag similarity
-    const commonTags = m1.tags.filter((tag) => m2.tags.includes(tag));
-    if (m1.tags.length > 0 && m2.tags.length > 0) {
-      similarity += (commonTags.length / Math.max(m1.tags.length, m2.tags.length)) * 0.5;
+  /**
+   * Group memories whose pairwise similarity (shared context, tag overlap and
+   * content) reaches the threshold. Only pairs that share a context, a tag or
+   * text-index hits are compared.
+   */
+  private clusterMemories(memories: MemoryEntry[], threshold: number): MemoryEntry[][] {
+    const inScope = new Map(memories.map((m) => [m.id, m]));
+    const sets = new DisjointSet();
+
+    for (const memory of memories) {
+      const candidates = new Set<string>();
+      if (memory.context) this.contextIndex.get(memory.context)?.forEach((id) => candidates.add(id));
+      memory.tags.forEach((tag) => this.tagIndex.get(tag)?.forEach((id) => candidates.add(id)));
+      const terms = Array.from(new Set(tokenize(memory.content).filter((t) => !STOP_WORDS.has(t))));
+      Array.from(this.textIndex.search({ terms, prefixes: [], phrases: [] }).entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .forEach(([id]) => candidates.add(id));
+
+      for (const id of candidates) {
+        const other = inScope.get(id);
+        if (!other || other.id <= memory.id) continue;
+        if (this.clusterSimilarity(memory, other) >= threshold) {
+          sets.union(memory.id, other.id);
+        }
+      }
     }
 
-    return similarity;
+    return Array.from(sets.groups().values())
+      .map((ids) => ids.map((id) => inScope.get(id)!))
+      .sort((a, b) => b.length - a.length);
   }
 
-  private generateSummary(memories: MemoryEntry[]): string {
-    if (memories.length === 0) {
-      return "No memories to summarize.";
-    }
+  private clusterSimilarity(m1: MemoryEntry, m2: MemoryEntry): number {
+    const sameContext = m1.context !== undefined && m1.context === m2.context ? 1 : 0;
+    const union = new Set([...m1.tags, ...m2.tags]);
+    const tagOverlap =
+      union.size > 0 ? m1.tags.filter((tag) => m2.tags.includes(tag)).length / union.size : 0;
+    const v1 = this.vectors.get(m1.id);
+    const v2 = this.vectors.get(m2.id);
+    const content = v1 && v2 ? cosineSimilarity(v1, v2) : contentSimilarity(m1.content, m2.content);
 
-    const sortedByImportance = memories
-      .slice()
-      .sort((a, b) => b.importance - a.importance);
+    return 0.3 * sameContext + 0.3 * tagOverlap + 0.4 * content;
+  }
 
-    const topMemories = sortedByImportance.slice(0, 5);
+  /**
+   * Store the summary memory for a cluster, linked to its sources
+   */
+  private writeSummary(
+    cluster: MemoryEntry[],
+    content: string,
+    details: { label: string; summarizer: string; namespace: string; author?: string }
+  ): MemoryEntry {
+    const contexts = cluster.map((m) => m.context).filter((c): c is string => !!c);
+    const tagCounts = new Map<string, number>();
+    cluster.forEach((m) => m.tags.forEach((tag) => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1)));
+
+    const summary = this.store({
+      content,
+      context: mostCommon(contexts),
+      tags: [
+        ...Array.from(tagCounts.entries())
+          .filter(([, count]) => count * 2 >= cluster.length)
+          .map(([tag]) => tag),
+        "summary",
+      ],
+      importance: Math.max(...cluster.map((m) => m.importance)),
+      metadata: {
+        consolidation: {
+          label: details.label,
+          summarizer: details.summarizer,
+          sourceIds: cluster.map((m) => m.id),
+          createdAt: Date.now(),
+        },
+      },
+      namespace: details.namespace,
+      author: details.author,
+      dedupe: false,
+    });
 
-    const summary = [
-      `Summary of ${memories.length} memories:`,
-      "",
-      "Most important memories:",
-      ...topMemories.map(
-        (m, i) =>
-          `${i + 1}. [${new Date(m.timestamp).toLocaleDateString()}] ${m.content.substring(0, 100)}${m.content.length > 100 ? "..." : ""}`
-      ),
-    ];
+    // Provenance links to every source, on top of the automatic ones
+    cluster.forEach((m) => {
+      const source = this.memories.get(m.id);
+      if (source) this.link(summary, source, 1);
+    });
+    this.persist(summary);
 
-    return summary.join("\n");
+    return summary;
   }
 }
+
+/**
+ * A memory without the fields each instance keeps for itself
+ */
+function withoutBookkeeping(
+  memory: MemoryEntry
+): Omit<MemoryEntry, "accessCount" | "lastAccessed" | "relatedMemories" | "relatedScores" | "feedback" | "coRecalls" | "scoreHistory"> {
+  const { accessCount, lastAccessed, relatedMemories, relatedScores, feedback, coRecalls, scoreHistory, ...synced } = memory;
+  return synced;
+}
+
+/**
+ * Weight of a memory's link to another
+ */
+function linkWeight(memory: MemoryEntry, relatedId: string): number {
+  return memory.relatedScores?.[relatedId] ?? LEGACY_LINK_WEIGHT;
+}
+
+/**
+ * When a memory was last edited, as far as the entry and its history tell.
+ * Reads don't count, so a copy that was only accessed never beats an edit.
+ */
+function lastModified(memory: MemoryEntry, history?: RevisionHistory): number {
+  if (memory.updatedAt !== undefined) return memory.updatedAt;
+  const latest = history?.list(memory.id).at(-1);
+  return Math.max(memory.timestamp, latest ? revisionTime(latest) : 0);
+}
+/**
+ * Most frequent value, ties going to the first seen
+ */
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  let best: string | undefined;
+  counts.forEach((count, value) => {
+    if (best === undefined || count > counts.get(best)!) best = value;
+  });
+  return best;
+}
+
+/**
+ * Human-readable label for a cluster: its shared context and top tags
+ */
+function clusterLabel(cluster: MemoryEntry[]): string {
+  const tagCounts = new Map<string, number>();
+  cluster.forEach((m) => m.tags.forEach((tag) => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1)));
+  const context = mostCommon(cluster.map((m) => m.context).filter((c): c is string => !!c));
+  const tags = Array.from(tagCounts.entries())
+    .filter(([tag]) => tag !== context)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([tag]) => tag);
+  return [context, ...tags].filter(Boolean).join(" / ") || "related memories";
+}
+
+/**
+ * Keys of an index, most referenced first, matching a case-insensitive
+ * prefix. With `within`, only references to those IDs count.
+ */
+function keysByUsage(index: Map<string, Set<string>>, prefix: string, within?: Set<string>): string[] {
+  const lowered = prefix.toLowerCase();
+  return Array.from(index.entries(), ([key, ids]) => {
+    const uses = within ? Array.from(ids).filter((id) => within.has(id)).length : ids.size;
+    return [key, uses] as const;
+  })
+    .filter(([key, uses]) => uses > 0 && key.toLowerCase().startsWith(lowered))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([key]) => key);
+}
@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ProjectProfileSchema, type ProjectProfile } from "../resource/project/index.js";
+
+export const DEFAULT_NAMESPACE = "default";
+
+/**
+ * Namespace for memories belonging to a project profile
+ */
+export function projectNamespace(profile: Pick<ProjectProfile, "name">): string {
+  return `project:${profile.name.trim().toLowerCase().replace(/[^a-z0-9._-]+/g, "-")}`;
+}
+
+/**
+ * Namespace for memories belonging to a single MCP session
+ */
+export function sessionNamespace(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+/**
+ * Read the `.clp-project.json` profile in a directory, if there is a valid one
+ */
+export function readProjectProfile(root: string): ProjectProfile | undefined {
+  try {
+    const raw = JSON.parse(fs.readFileSync(path.join(root, ".clp-project.json"), "utf8"));
+    const parsed = ProjectProfileSchema.safeParse(raw);
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves which namespace a request's memories belong to.
+ *
+ * - `project`: the active `.clp-project.json` profile under projectRoot
+ * - `session`: the MCP session, falling back to the project profile
+ * - `none`: everything shares the default namespace
+ */
+export class NamespaceResolver {
+  readonly mode: "project" | "session" | "none";
+  readonly projectRoot: string;
+  private profileNamespace?: string | null;
+
+  constructor(options: { mode?: "project" | "session" | "none"; projectRoot?: string } = {}) {
+    this.mode = options.mode ?? "project";
+    this.projectRoot = options.projectRoot ?? process.cwd();
+  }
+
+  resolve(sessionId?: string): string {
+    if (this.mode === "none") return DEFAULT_NAMESPACE;
+    if (this.mode === "session" && sessionId) return sessionNamespace(sessionId);
+    return this.fromProfile() ?? DEFAULT_NAMESPACE;
+  }
+
+  /**
+   * Re-read the project profile on the next resolve()
+   */
+  refresh(): void {
+    this.profileNamespace = undefined;
+  }
+
+  private fromProfile(): string | undefined {
+    if (this.profileNamespace === undefined) {
+      const profile = readProjectProfile(this.projectRoot);
+      this.profileNamespace = profile ? projectNamespace(profile) : null;
+    }
+    return this.profileNamespace ?? undefined;
+  }
+}
@@ -0,0 +1,335 @@
+import * as fs from "fs";
+import * as path from "path";
+import { MemoryEntrySchema, type MemoryEntry } from "./index.js";
+import { revisionTime, type MemoryRevision } from "./history.js";
+import type { MemoryStamp, Tombstone } from "./sync.js";
+
+/**
+ * A single journal record. Records are appended as one JSON object per line.
+ */
+export type MemoryJournalRecord =
+  | { seq: number; at: number; op: "put"; entry: MemoryEntry }
+  | { seq: number; at: number; op: "delete"; id: string; tombstone?: MemoryStamp }
+  | { seq: number; at: number; op: "clear"; tombstone?: MemoryStamp }
+  | { seq: number; at: number; op: "revision"; revision: MemoryRevision }
+  | { seq: number; at: number; op: "access"; entries: MemoryAccess[] };
+
+/**
+ * A journal record before it is assigned a sequence number
+ */
+export type MemoryJournalInput =
+  | { op: "put"; entry: MemoryEntry }
+  | { op: "delete"; id: string; tombstone?: MemoryStamp }
+  | { op: "clear"; tombstone?: MemoryStamp }
+  | { op: "revision"; revision: MemoryRevision }
+  | { op: "access"; entries: MemoryAccess[] };
+
+/**
+ * Recall bookkeeping for one memory, journaled in place of a full put
+ */
+export type MemoryAccess = Pick<MemoryEntry, "id" | "accessCount" | "lastAccessed" | "coRecalls" | "importance" | "scoreHistory">;
+
+/**
+ * On-disk snapshot of the full memory store
+ */
+export interface MemorySnapshot {
+  version: 1;
+  seq: number;
+  createdAt: number;
+  memories: MemoryEntry[];
+  revisions?: MemoryRevision[];
+  tombstones?: Tombstone[];
+}
+
+/**
+ * Outcome of replaying the snapshot and journal on startup
+ */
+export interface MemoryRecoveryReport {
+  snapshotLoaded: boolean;
+  snapshotCorrupt: boolean;
+  journalRecords: number;
+  skippedRecords: number;
+  seq: number;
+}
+
+const SNAPSHOT_FILE = "snapshot.json";
+const JOURNAL_FILE = "journal.jsonl";
+
+/**
+ * Durable storage for LongTermMemory: an append-only journal of mutations
+ * plus periodic snapshots that compact the journal.
+ */
+export class MemoryPersistence {
+  readonly directory: string;
+  readonly snapshotEvery: number;
+  private seq: number = 0;
+  private pending: number = 0;
+
+  constructor(options: { directory: string; snapshotEvery?: number }) {
+    this.directory = options.directory;
+    this.snapshotEvery = options.snapshotEvery ?? 500;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  get snapshotPath(): string {
+    return path.join(this.directory, SNAPSHOT_FILE);
+  }
+
+  get journalPath(): string {
+    return path.join(this.directory, JOURNAL_FILE);
+  }
+
+  /**
+   * Sequence number of the last record written or replayed
+   */
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * Whether enough records have accumulated to warrant a new snapshot
+   */
+  get snapshotDue(): boolean {
+    return this.pending >= this.snapshotEvery;
+  }
+
+  /**
+   * Load the latest snapshot and replay the journal on top of it.
+   * Unreadable snapshots are quarantined and unparsable journal lines are
+   * skipped, so a crash mid-write never prevents the server from starting.
+   */
+  load(): {
+    memories: MemoryEntry[];
+    revisions: MemoryRevision[];
+    tombstones: Tombstone[];
+    report: MemoryRecoveryReport;
+  } {
+    const memories = new Map<string, MemoryEntry>();
+    const revisions: MemoryRevision[] = [];
+    const tombstones = new Map<string, Tombstone>();
+    const report: MemoryRecoveryReport = {
+      snapshotLoaded: false,
+      snapshotCorrupt: false,
+      journalRecords: 0,
+      skippedRecords: 0,
+      seq: 0,
+    };
+
+    const snapshot = this.readSnapshot();
+    if (snapshot === "corrupt") {
+      report.snapshotCorrupt = true;
+      this.quarantine(this.snapshotPath);
+    } else if (snapshot) {
+      report.snapshotLoaded = true;
+      report.seq = snapshot.seq;
+      snapshot.memories.forEach((memory) => memories.set(memory.id, memory));
+      revisions.push(...(snapshot.revisions || []));
+      snapshot.tombstones?.forEach((tombstone) => tombstones.set(tombstone.id, tombstone));
+    }
+
+    if (fs.existsSync(this.journalPath)) {
+      const lines = fs.readFileSync(this.journalPath, "utf8").split("\n");
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        const record = this.parseRecord(line);
+        if (!record) {
+          report.skippedRecords++;
+          continue;
+        }
+        // Records already folded into the snapshot
+        if (record.seq <= report.seq && report.snapshotLoaded) continue;
+
+        this.applyRecord(memories, revisions, tombstones, record);
+        report.journalRecords++;
+        report.seq = Math.max(report.seq, record.seq);
+      }
+    }
+
+    this.seq = report.seq;
+    this.pending = report.journalRecords;
+
+    return { memories: Array.from(memories.values()), revisions, tombstones: Array.from(tombstones.values()), report };
+  }
+
+  /**
+   * Append a record to the journal and fsync it, so a change that returned
+   * survives a crash
+   */
+  append(record: MemoryJournalInput): MemoryJournalRecord {
+    const full = { ...record, seq: ++this.seq, at: Date.now() } as MemoryJournalRecord;
+    const fd = fs.openSync(this.journalPath, "a");
+    try {
+      fs.writeSync(fd, JSON.stringify(full) + "\n");
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.pending++;
+    return full;
+  }
+
+  /**
+   * Write a snapshot of the given memories and truncate the journal.
+   * The snapshot is written to a temporary file and renamed into place so a
+   * crash leaves either the old or the new snapshot intact.
+   */
+  snapshot(memories: MemoryEntry[], revisions: MemoryRevision[] = [], tombstones: Tombstone[] = []): void {
+    const snapshot: MemorySnapshot = {
+      version: 1,
+      seq: this.seq,
+      createdAt: Date.now(),
+      memories,
+      revisions,
+      tombstones,
+    };
+
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    const fd = fs.openSync(tmpPath, "w");
+    try {
+      fs.writeSync(fd, JSON.stringify(snapshot));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, this.snapshotPath);
+    fs.writeFileSync(this.journalPath, "", "utf8");
+    this.pending = 0;
+  }
+
+  private readSnapshot(): MemorySnapshot | "corrupt" | null {
+    if (!fs.existsSync(this.snapshotPath)) return null;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.snapshotPath, "utf8"));
+      if (!raw || raw.version !== 1 || !Array.isArray(raw.memories)) {
+        return "corrupt";
+      }
+
+      const memories: MemoryEntry[] = [];
+      for (const item of raw.memories) {
+        const parsed = MemoryEntrySchema.safeParse(item);
+        if (parsed.success) memories.push(parsed.data);
+      }
+
+      return {
+        version: 1,
+        seq: typeof raw.seq === "number" ? raw.seq : 0,
+        createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+        memories,
+        revisions: Array.isArray(raw.revisions) ? raw.revisions.filter(isRevision) : [],
+        tombstones: Array.isArray(raw.tombstones) ? raw.tombstones.filter(isTombstone) : [],
+      };
+    } catch {
+      return "corrupt";
+    }
+  }
+
+  private parseRecord(line: string): MemoryJournalRecord | null {
+    let raw: any;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      return null;
+    }
+    if (!raw || typeof raw.seq !== "number") return null;
+
+    switch (raw.op) {
+      case "put": {
+        const parsed = MemoryEntrySchema.safeParse(raw.entry);
+        return parsed.success ? { seq: raw.seq, at: raw.at, op: "put", entry: parsed.data } : null;
+      }
+      case "delete":
+        return typeof raw.id === "string"
+          ? { seq: raw.seq, at: raw.at, op: "delete", id: raw.id, tombstone: isStamp(raw.tombstone) ? raw.tombstone : undefined }
+          : null;
+      case "clear":
+        return { seq: raw.seq, at: raw.at, op: "clear", tombstone: isStamp(raw.tombstone) ? raw.tombstone : undefined };
+      case "revision":
+        return isRevision(raw.revision) ? { seq: raw.seq, at: raw.at, op: "revision", revision: raw.revision } : null;
+      case "access":
+        return Array.isArray(raw.entries) && raw.entries.every(isAccess)
+          ? { seq: raw.seq, at: raw.at, op: "access", entries: raw.entries }
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  private applyRecord(
+    memories: Map<string, MemoryEntry>,
+    revisions: MemoryRevision[],
+    tombstones: Map<string, Tombstone>,
+    record: MemoryJournalRecord
+  ): void {
+    switch (record.op) {
+      case "put":
+        memories.set(record.entry.id, record.entry);
+        tombstones.delete(record.entry.id);
+        break;
+      case "delete":
+        memories.delete(record.id);
+        // Deletes journaled before sync existed carry no instance
+        tombstones.set(record.id, { id: record.id, ...(record.tombstone ?? { at: record.at, by: "" }) });
+        break;
+      case "clear": {
+        // Clears journaled before they were synced leave no tombstones
+        const stamp = record.tombstone;
+        if (stamp) memories.forEach((_, id) => tombstones.set(id, { id, ...stamp }));
+        memories.clear();
+        revisions.length = 0;
+        break;
+      }
+      case "revision": {
+        revisions.push(record.revision);
+        // The put before a revision was written before updatedAt was set
+        const memory = memories.get(record.revision.memoryId);
+        if (memory) memory.updatedAt = revisionTime(record.revision);
+        break;
+      }
+      case "access":
+        record.entries.forEach((access) => {
+          const memory = memories.get(access.id);
+          if (memory) Object.assign(memory, access);
+        });
+        break;
+    }
+  }
+
+  private quarantine(filePath: string): void {
+    try {
+      fs.renameSync(filePath, `${filePath}.corrupt-${Date.now()}`);
+    } catch {
+      // Best effort: a missing file needs no quarantine
+    }
+  }
+}
+
+function isRevision(value: any): value is MemoryRevision {
+  return (
+    !!value &&
+    typeof value.memoryId === "string" &&
+    typeof value.revision === "number" &&
+    typeof value.timestamp === "number" &&
+    !!value.snapshot &&
+    typeof value.snapshot.content === "string"
+  );
+}
+
+function isAccess(value: any): value is MemoryAccess {
+  return (
+    !!value &&
+    typeof value.id === "string" &&
+    typeof value.accessCount === "number" &&
+    typeof value.lastAccessed === "number" &&
+    typeof value.importance === "number"
+  );
+}
+
+function isStamp(value: any): value is MemoryStamp {
+  return !!value && typeof value.at === "number" && typeof value.by === "string";
+}
+
+function isTombstone(value: any): value is Tombstone {
+  return isStamp(value) && typeof (value as any).id === "string";
+}
@@ -0,0 +1,507 @@
+import type { MemoryEntry } from "./index.js";
+
+/**
+ * Raised for malformed `where` expressions, sort keys and cursors.
+ * `position` is the character offset the problem was found at, when known.
+ */
+export class QueryError extends Error {
+  constructor(message: string, readonly position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = "QueryError";
+  }
+}
+
+export type CompareOp = "=" | "!=" | ">" | ">=" | "<" | "<=" | "~";
+
+/**
+ * Parsed `where` expression
+ */
+export type QueryExpr =
+  | { type: "and"; clauses: QueryExpr[] }
+  | { type: "or"; clauses: QueryExpr[] }
+  | { type: "not"; clause: QueryExpr }
+  | { type: "tag"; tag: string }
+  | { type: "compare"; field: string; op: CompareOp; value: string | number };
+
+export interface SortKey {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+const NUMBER_FIELDS = ["importance", "accessCount"];
+const TIME_FIELDS = ["timestamp", "lastAccessed", "expiresAt", "archivedAt"];
+const STRING_FIELDS = ["content", "context", "namespace", "id", "tag"];
+const SORT_FIELDS = ["relevance", "score", ...NUMBER_FIELDS, ...TIME_FIELDS, "context", "namespace", "id"];
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type Token =
+  | { kind: "lparen" | "rparen" | "comma"; pos: number }
+  | { kind: "op"; op: CompareOp; pos: number }
+  | { kind: "word"; text: string; pos: number }
+  | { kind: "string"; text: string; pos: number };
+
+const OPERATORS: CompareOp[] = [">=", "<=", "!=", "=", ">", "<", "~"];
+
+function tokenizeQuery(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ kind: char === "(" ? "lparen" : char === ")" ? "rparen" : "comma", pos: i });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const start = i;
+      let text = "";
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        text += input[i];
+        i++;
+      }
+      if (i >= input.length) throw new QueryError("Unterminated string", start);
+      i++;
+      tokens.push({ kind: "string", text, pos: start });
+    } else {
+      const op = OPERATORS.find((o) => input.startsWith(o, i));
+      if (op) {
+        tokens.push({ kind: "op", op, pos: i });
+        i += op.length;
+        continue;
+      }
+
+      const match = /^[^\s()",'=!<>~]+/.exec(input.slice(i));
+      if (!match) throw new QueryError(`Unexpected character "${char}"`, i);
+      tokens.push({ kind: "word", text: match[0], pos: i });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Parse a `where` expression.
+ *
+ * ```
+ * expr    := or
+ * or      := and ("OR" and)*
+ * and     := unary ("AND"? unary)*        adjacent clauses are AND-ed
+ * unary   := "NOT" unary | "(" expr ")" | compare | tag
+ * compare := field op value               op is one of = != > >= < <= ~
+ * tag     := word | string                 matches memories with that tag
+ * ```
+ *
+ * Fields are importance, accessCount, timestamp, lastAccessed, expiresAt,
+ * archivedAt, content, context, namespace, id, tag and metadata.<path>.
+ */
+export function parseQuery(input: string): QueryExpr {
+  const tokens = tokenizeQuery(input);
+  if (tokens.length === 0) throw new QueryError("Empty query");
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.kind === "word" && token.text.toUpperCase() === keyword;
+
+  const parseOr = (): QueryExpr => {
+    const clauses = [parseAnd()];
+    while (isKeyword(peek(), "OR")) {
+      index++;
+      clauses.push(parseAnd());
+    }
+    return clauses.length === 1 ? clauses[0]! : { type: "or", clauses };
+  };
+
+  const parseAnd = (): QueryExpr => {
+    const clauses = [parseUnary()];
+    for (;;) {
+      const token = peek();
+      if (!token || token.kind === "rparen" || isKeyword(token, "OR")) break;
+      if (isKeyword(token, "AND")) index++;
+      clauses.push(parseUnary());
+    }
+    return clauses.length === 1 ? clauses[0]! : { type: "and", clauses };
+  };
+
+  const parseUnary = (): QueryExpr => {
+    const token = peek();
+    if (!token) throw new QueryError("Unexpected end of query", input.length);
+
+    if (isKeyword(token, "NOT")) {
+      index++;
+      return { type: "not", clause: parseUnary() };
+    }
+
+    if (token.kind === "lparen") {
+      index++;
+      const expr = parseOr();
+      const closing = peek();
+      if (closing?.kind !== "rparen") {
+        throw new QueryError('Expected ")"', closing?.pos ?? input.length);
+      }
+      index++;
+      return expr;
+    }
+
+    if (token.kind === "word" || token.kind === "string") {
+      if (token.kind === "word" && ["AND", "OR"].includes(token.text.toUpperCase())) {
+        throw new QueryError(`Unexpected ${token.text.toUpperCase()}`, token.pos);
+      }
+      index++;
+
+      const op = peek();
+      if (op?.kind !== "op") return { type: "tag", tag: token.text };
+      if (token.kind === "string") throw new QueryError("Field names cannot be quoted", token.pos);
+      index++;
+
+      const value = peek();
+      if (value?.kind !== "word" && value?.kind !== "string") {
+        throw new QueryError(`Expected a value after "${op.op}"`, value?.pos ?? input.length);
+      }
+      index++;
+
+      return validateCompare(token.text, op.op, value, token.pos);
+    }
+
+    throw new QueryError(`Unexpected "${describe(token)}"`, token.pos);
+  };
+
+  const expr = parseOr();
+  const rest = peek();
+  if (rest) throw new QueryError(`Unexpected "${describe(rest)}"`, rest.pos);
+  return expr;
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case "lparen":
+      return "(";
+    case "rparen":
+      return ")";
+    case "comma":
+      return ",";
+    case "op":
+      return token.op;
+    default:
+      return token.text;
+  }
+}
+
+function validateCompare(
+  field: string,
+  op: CompareOp,
+  valueToken: Extract<Token, { kind: "word" | "string" }>,
+  pos: number
+): QueryExpr {
+  const raw = valueToken.text;
+
+  if (NUMBER_FIELDS.includes(field)) {
+    const value = Number(raw);
+    if (op === "~") throw new QueryError(`"~" cannot be used with numeric field ${field}`, pos);
+    if (raw.trim() === "" || Number.isNaN(value)) {
+      throw new QueryError(`${field} must be compared with a number, got "${raw}"`, valueToken.pos);
+    }
+    return { type: "compare", field, op, value };
+  }
+
+  if (TIME_FIELDS.includes(field)) {
+    if (op === "~") throw new QueryError(`"~" cannot be used with time field ${field}`, pos);
+    const value = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    if (Number.isNaN(value)) {
+      throw new QueryError(`${field} must be compared with a timestamp or ISO date, got "${raw}"`, valueToken.pos);
+    }
+    return { type: "compare", field, op, value };
+  }
+
+  if (STRING_FIELDS.includes(field)) {
+    if (!["=", "!=", "~"].includes(op)) {
+      throw new QueryError(`${field} only supports =, != and ~`, pos);
+    }
+    if (field === "tag" && op === "~") throw new QueryError("tag only supports = and !=", pos);
+    return { type: "compare", field, op, value: raw };
+  }
+
+  if (field.startsWith("metadata.") && field.length > "metadata.".length) {
+    const numeric = valueToken.kind === "word" && raw.trim() !== "" && !Number.isNaN(Number(raw));
+    return { type: "compare", field, op, value: numeric && op !== "~" ? Number(raw) : raw };
+  }
+
+  throw new QueryError(
+    `Unknown field "${field}". Expected one of ${[...NUMBER_FIELDS, ...TIME_FIELDS, ...STRING_FIELDS].join(", ")} or metadata.<path>`,
+    pos
+  );
+}
+
+/**
+ * Parse a comma-separated list of sort keys, e.g. `importance desc, timestamp`.
+ * Keys sort ascending unless followed by `desc`.
+ */
+export function parseSort(input: string): SortKey[] {
+  const keys: SortKey[] = [];
+
+  for (const part of input.split(",")) {
+    const words = part.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) throw new QueryError("Empty sort key");
+    if (words.length > 2) throw new QueryError(`Invalid sort key "${part.trim()}"`);
+
+    const [field, direction = "asc"] = words as [string, string?];
+    if (!SORT_FIELDS.includes(field) && !(field.startsWith("metadata.") && field.length > 9)) {
+      throw new QueryError(`Cannot sort by "${field}". Expected one of ${SORT_FIELDS.join(", ")} or metadata.<path>`);
+    }
+    const normalized = direction.toLowerCase();
+    if (normalized !== "asc" && normalized !== "desc") {
+      throw new QueryError(`Sort direction must be asc or desc, got "${direction}"`);
+    }
+    keys.push({ field, direction: normalized });
+  }
+
+  return keys;
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Index lookups a query runs against
+ */
+export interface QuerySource {
+  ids(): Set<string>;
+  get(id: string): MemoryEntry | undefined;
+  withTag(tag: string): Set<string>;
+  withContext(context: string): Set<string>;
+  withNamespace(namespace: string): Set<string>;
+  inTimeRange(start: number, end: number): string[]; // creation timestamps, inclusive
+}
+
+/**
+ * IDs of the memories matching an expression. Tag, context, namespace and
+ * creation-time clauses use the indices; other predicates scan the
+ * candidates produced so far.
+ */
+export function executeQuery(expr: QueryExpr, source: QuerySource): Set<string> {
+  switch (expr.type) {
+    case "tag":
+      return new Set(source.withTag(expr.tag));
+
+    case "and": {
+      // Index-backed clauses first so scans only see what survives them
+      const ordered = [...expr.clauses].sort((a, b) => cost(a) - cost(b));
+      let result = executeQuery(ordered[0]!, source);
+      for (const clause of ordered.slice(1)) {
+        if (result.size === 0) break;
+        result = clause.type === "compare" && cost(clause) > 1
+          ? filterIds(result, source, (m) => matches(m, clause))
+          : intersect(result, executeQuery(clause, source));
+      }
+      return result;
+    }
+
+    case "or": {
+      const result = new Set<string>();
+      expr.clauses.forEach((clause) => executeQuery(clause, source).forEach((id) => result.add(id)));
+      return result;
+    }
+
+    case "not": {
+      const excluded = executeQuery(expr.clause, source);
+      return filterIds(source.ids(), source, (m) => !excluded.has(m.id));
+    }
+
+    case "compare":
+      return executeCompare(expr, source);
+  }
+}
+
+function executeCompare(
+  expr: Extract<QueryExpr, { type: "compare" }>,
+  source: QuerySource
+): Set<string> {
+  if (expr.op === "=") {
+    if (expr.field === "tag") return new Set(source.withTag(String(expr.value)));
+    if (expr.field === "context") return new Set(source.withContext(String(expr.value)));
+    if (expr.field === "namespace") return new Set(source.withNamespace(String(expr.value)));
+  }
+
+  if (expr.field === "timestamp" && expr.op !== "!=") {
+    const value = expr.value as number;
+    const [start, end] =
+      expr.op === "=" ? [value, value]
+      : expr.op === ">" ? [value + 1, Infinity]
+      : expr.op === ">=" ? [value, Infinity]
+      : expr.op === "<" ? [-Infinity, value - 1]
+      : [-Infinity, value];
+    return new Set(source.inTimeRange(start, end));
+  }
+
+  return filterIds(source.ids(), source, (m) => matches(m, expr));
+}
+
+function cost(expr: QueryExpr): number {
+  if (expr.type === "tag") return 0;
+  if (expr.type === "compare") {
+    if (expr.op === "=" && ["tag", "context", "namespace"].includes(expr.field)) return 0;
+    if (expr.field === "timestamp" && expr.op !== "!=") return 1;
+    return 2;
+  }
+  return 3;
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  return new Set(Array.from(small).filter((id) => large.has(id)));
+}
+
+function filterIds(
+  ids: Iterable<string>,
+  source: QuerySource,
+  predicate: (memory: MemoryEntry) => boolean
+): Set<string> {
+  const result = new Set<string>();
+  for (const id of ids) {
+    const memory = source.get(id);
+    if (memory && predicate(memory)) result.add(id);
+  }
+  return result;
+}
+
+/**
+ * Whether a single memory satisfies a comparison
+ */
+export function matches(memory: MemoryEntry, expr: Extract<QueryExpr, { type: "compare" }>): boolean {
+  if (expr.field === "tag") {
+    const has = memory.tags.includes(String(expr.value));
+    return expr.op === "=" ? has : !has;
+  }
+
+  const actual = fieldValue(memory, expr.field);
+  const values = Array.isArray(actual) ? actual : [actual];
+
+  // A missing field only satisfies !=
+  if (values.length === 0 || values.every((v) => v === undefined || v === null)) {
+    return expr.op === "!=";
+  }
+  if (expr.op === "!=") return values.every((v) => !compare(v, "=", expr.value));
+  return values.some((v) => compare(v, expr.op, expr.value));
+}
+
+function compare(actual: unknown, op: CompareOp, expected: string | number): boolean {
+  if (op === "~") {
+    return String(actual).toLowerCase().includes(String(expected).toLowerCase());
+  }
+
+  if (typeof expected === "number" && typeof actual !== "number") {
+    const numeric = Number(actual);
+    if (typeof actual !== "string" || actual.trim() === "" || Number.isNaN(numeric)) return false;
+    actual = numeric;
+  }
+
+  const left = typeof expected === "number" ? (actual as number) : String(actual);
+  switch (op) {
+    case "=":
+      return left === expected;
+    case "!=":
+      return left !== expected;
+    case ">":
+      return left > expected;
+    case ">=":
+      return left >= expected;
+    case "<":
+      return left < expected;
+    case "<=":
+      return left <= expected;
+  }
+}
+
+/**
+ * Value of a query or sort field on a memory
+ */
+export function fieldValue(memory: MemoryEntry, field: string): unknown {
+  if (field.startsWith("metadata.")) {
+    let value: any = memory.metadata;
+    for (const part of field.slice("metadata.".length).split(".")) {
+      if (value === null || typeof value !== "object") return undefined;
+      value = value[part];
+    }
+    return value;
+  }
+  if (field === "tag") return memory.tags;
+  return (memory as Record<string, unknown>)[field];
+}
+
+// ============================================================================
+// Sorting and cursors
+// ============================================================================
+
+export type SortValue = string | number | null;
+
+/**
+ * Compare two rows of sort values. Missing values sort last in either
+ * direction; ties fall back to the memory ID so paging is stable.
+ */
+export function compareSortValues(
+  keys: SortKey[],
+  a: { values: SortValue[]; id: string },
+  b: { values: SortValue[]; id: string }
+): number {
+  for (let i = 0; i < keys.length; i++) {
+    const x = a.values[i] ?? null;
+    const y = b.values[i] ?? null;
+    if (x === y) continue;
+    if (x === null) return 1;
+    if (y === null) return -1;
+
+    const order = x < y ? -1 : x > y ? 1 : 0;
+    if (order !== 0) return keys[i]!.direction === "asc" ? order : -order;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Normalize a field value for sorting
+ */
+export function toSortValue(value: unknown): SortValue {
+  if (typeof value === "number" || typeof value === "string") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return null;
+}
+
+/**
+ * Opaque keyset cursor: the sort values and ID of the last row returned, and
+ * the ID of the query it pages through
+ */
+export function encodeCursor(keys: SortKey[], row: { values: SortValue[]; id: string }, queryId: string): string {
+  const payload = { k: keys.map((k) => `${k.field}:${k.direction}`).join(","), v: row.values, id: row.id, q: queryId };
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+export function decodeCursor(
+  keys: SortKey[],
+  cursor: string
+): { values: SortValue[]; id: string; queryId?: string } {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new QueryError("Invalid cursor");
+  }
+  if (!payload || typeof payload.id !== "string" || !Array.isArray(payload.v)) {
+    throw new QueryError("Invalid cursor");
+  }
+  if (payload.k !== keys.map((k) => `${k.field}:${k.direction}`).join(",")) {
+    throw new QueryError("Cursor was issued for a different sort order");
+  }
+  return { values: payload.v, id: payload.id, queryId: typeof payload.q === "string" ? payload.q : undefined };
+}
@@ -0,0 +1,187 @@
+import { STOP_WORDS, tokenize } from "./embedding.js";
+import type { MemoryEntry } from "./index.js";
+
+/**
+ * Weight assumed for links stored before links carried a score
+ */
+export const LEGACY_LINK_WEIGHT = 0.5;
+
+/**
+ * One memory reached from another by following related-memory links
+ */
+export interface RelatedMemory {
+  memory: MemoryEntry;
+  depth: number;
+  score: number; // product of the link weights along the path
+  path: string[]; // memory IDs from the start to this memory, inclusive
+}
+
+export interface RelatedOptions {
+  depth?: number; // links to follow from the start, default 2
+  minScore?: number; // skip links weighted below this
+  minPathScore?: number; // stop at paths whose score falls below this
+  limit?: number; // default 20
+  includeArchived?: boolean;
+}
+
+/**
+ * Features compared when linking memories: content terms, the context as
+ * `@context` and each tag as `#tag`. Sensitive content is left out.
+ */
+export function relatedFeatures(memory: MemoryEntry): Set<string> {
+  const features = new Set(memory.sensitive ? [] : tokenize(memory.content).filter((t) => !STOP_WORDS.has(t)));
+  if (memory.context) features.add(`@${memory.context}`);
+  memory.tags.forEach((tag) => features.add(`#${tag}`));
+  return features;
+}
+
+/**
+ * How related two memories are, 0-1: half content overlap, a quarter shared
+ * context and a quarter tag overlap
+ */
+export function relatedness(m1: MemoryEntry, m2: MemoryEntry): number {
+  const content = m1.sensitive || m2.sensitive ? 0 : jaccard(contentTerms(m1.content), contentTerms(m2.content));
+  const sameContext = m1.context !== undefined && m1.context === m2.context ? 1 : 0;
+  const tags = jaccard(new Set(m1.tags), new Set(m2.tags));
+  return Math.round((0.5 * content + 0.25 * sameContext + 0.25 * tags) * 1000) / 1000;
+}
+
+/**
+ * Incremental MinHash locality-sensitive hashing index. Each memory's
+ * features are reduced to `bands` x `rows` min-hashes; memories sharing all
+ * rows of any band land in the same bucket and become link candidates. The
+ * context and each tag also get a bucket of their own, since a shared
+ * context or tag can link memories whose content barely overlaps. Adds and
+ * removals touch only the memory's own buckets, and only the most recent
+ * entries of a bucket are read, so finding candidates doesn't grow with the
+ * size of the store.
+ */
+export class RelatedIndex {
+  private buckets: Map<number, string[]> = new Map(); // band or context/tag hash -> memory IDs, oldest first
+  private keys: Map<string, number[]> = new Map(); // memory ID -> its bucket hashes
+  private seeds: number[];
+
+  constructor(
+    private readonly options: {
+      bands?: number;
+      rows?: number;
+      bucketScan?: number; // most recent IDs read from each bucket
+      maxCandidates?: number;
+    } = {}
+  ) {
+    const count = (options.bands ?? 24) * (options.rows ?? 2);
+    this.seeds = Array.from({ length: count }, (_, i) => fmix32(0x9e3779b9 + i * 0x85ebca6b));
+  }
+
+  /**
+   * Index a memory, replacing what was indexed for it before
+   */
+  add(id: string, namespace: string, features: Set<string>): void {
+    this.remove(id);
+    const keys = this.bandKeys(namespace, features);
+    keys.forEach((key) => {
+      const bucket = this.buckets.get(key);
+      if (bucket) bucket.push(id);
+      else this.buckets.set(key, [id]);
+    });
+    this.keys.set(id, keys);
+  }
+
+  remove(id: string): void {
+    this.keys.get(id)?.forEach((key) => {
+      const bucket = this.buckets.get(key);
+      if (!bucket) return;
+      const at = bucket.lastIndexOf(id);
+      if (at >= 0) bucket.splice(at, 1);
+      if (bucket.length === 0) this.buckets.delete(key);
+    });
+    this.keys.delete(id);
+  }
+
+  /**
+   * IDs likely to be related to these features, those sharing the most bands
+   * first. Bucket hashes can collide across namespaces, so callers check the
+   * namespace of what comes back.
+   */
+  candidates(namespace: string, features: Set<string>, excludeId?: string): string[] {
+    const scan = this.options.bucketScan ?? 64;
+    const shared = new Map<string, number>();
+
+    for (const key of this.bandKeys(namespace, features)) {
+      const bucket = this.buckets.get(key);
+      if (!bucket) continue;
+      for (let i = bucket.length - 1; i >= Math.max(0, bucket.length - scan); i--) {
+        const id = bucket[i]!;
+        if (id !== excludeId) shared.set(id, (shared.get(id) || 0) + 1);
+      }
+    }
+
+    return Array.from(shared.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.options.maxCandidates ?? 100)
+      .map(([id]) => id);
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.keys.clear();
+  }
+
+  private bandKeys(namespace: string, features: Set<string>): number[] {
+    if (features.size === 0) return [];
+    const rows = this.options.rows ?? 2;
+    const hashes = Array.from(features, fnv1a);
+    const signature = this.seeds.map((seed) => {
+      let min = 0xffffffff;
+      for (const hash of hashes) min = Math.min(min, fmix32(hash ^ seed));
+      return min;
+    });
+
+    const scope = fnv1a(namespace);
+    const keys: number[] = [];
+    for (let band = 0; band * rows < signature.length; band++) {
+      let key = fmix32(scope ^ Math.imul(band + 1, 0x27d4eb2f));
+      for (let row = 0; row < rows; row++) key = fmix32(key ^ signature[band * rows + row]!);
+      keys.push(key);
+    }
+    features.forEach((feature) => {
+      if (feature.startsWith("@") || feature.startsWith("#")) keys.push(fmix32(scope ^ fnv1a(feature)));
+    });
+    return keys;
+  }
+}
+
+function contentTerms(text: string): Set<string> {
+  return new Set(tokenize(text).filter((t) => !STOP_WORDS.has(t)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  a.forEach((item) => {
+    if (b.has(item)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer
+ */
+function fmix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
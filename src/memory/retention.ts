@@ -0,0 +1,119 @@
+import { z } from "zod";
+import type { MemoryEntry } from "./index.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention policy controlling how memories fade, expire and get evicted
+ */
+export const RetentionPolicySchema = z.object({
+  halfLifeDays: z.number().positive().optional().describe("Importance halves after this many days without access (no decay when unset)"),
+  archiveBelow: z.number().min(0).max(1).default(0.1).describe("Archive memories whose decayed importance falls below this"),
+  protectAbove: z.number().min(0).max(1).default(0.9).describe("Memories with base importance at or above this never decay into the archive"),
+  onExpire: z.enum(["archive", "delete"]).default("archive").describe("What happens to memories past their TTL"),
+  deleteArchivedAfterDays: z.number().positive().optional().describe("Delete archived memories after this many days (kept forever when unset)"),
+});
+
+export type RetentionPolicy = z.infer<typeof RetentionPolicySchema>;
+
+/**
+ * A single eviction decision
+ */
+export interface RetentionAction {
+  id: string;
+  action: "archive" | "delete";
+  reason: "expired" | "decayed" | "archive_expired";
+  effectiveImportance: number;
+  content: string;
+}
+
+/**
+ * What a policy would do (or did) to the memory store
+ */
+export interface RetentionReport {
+  evaluatedAt: number;
+  dryRun: boolean;
+  scanned: number;
+  actions: RetentionAction[];
+}
+
+/**
+ * Importance after half-life decay since the memory was last accessed
+ */
+export function effectiveImportance(
+  memory: MemoryEntry,
+  policy: RetentionPolicy | undefined,
+  now: number = Date.now()
+): number {
+  if (!policy?.halfLifeDays) return memory.importance;
+
+  const since = memory.lastAccessed ?? memory.timestamp;
+  const ageDays = Math.max(0, now - since) / DAY_MS;
+  return memory.importance * Math.pow(0.5, ageDays / policy.halfLifeDays);
+}
+
+/**
+ * `metadata.kind` of the records kept as written: decay, consolidation and
+ * dedupe leave them alone
+ */
+const RECORD_KINDS = new Set(["decision", "fact"]);
+
+/**
+ * Whether a memory is a record (a decision or fact) rather than a free-form note
+ */
+export function isRecord(memory: MemoryEntry): boolean {
+  return RECORD_KINDS.has(memory.metadata.kind as string);
+}
+
+/**
+ * Whether a memory is past its per-entry TTL
+ */
+export function isExpired(memory: MemoryEntry, now: number = Date.now()): boolean {
+  return memory.expiresAt !== undefined && memory.expiresAt <= now;
+}
+
+/**
+ * Decide which memories a policy would archive or delete
+ */
+export function evaluateRetention(
+  memories: Iterable<MemoryEntry>,
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): RetentionAction[] {
+  const actions: RetentionAction[] = [];
+
+  for (const memory of memories) {
+    const importance = effectiveImportance(memory, policy, now);
+    const action = (type: RetentionAction["action"], reason: RetentionAction["reason"]) =>
+      actions.push({
+        id: memory.id,
+        action: type,
+        reason,
+        effectiveImportance: importance,
+        content: memory.sensitive ? "[encrypted]" : memory.content.substring(0, 100),
+      });
+
+    if (memory.archivedAt !== undefined) {
+      if (
+        policy.deleteArchivedAfterDays !== undefined &&
+        now - memory.archivedAt >= policy.deleteArchivedAfterDays * DAY_MS
+      ) {
+        action("delete", "archive_expired");
+      }
+      continue;
+    }
+
+    if (isExpired(memory, now)) {
+      action(policy.onExpire, "expired");
+    } else if (
+      policy.halfLifeDays &&
+      !isRecord(memory) &&
+      memory.importance < policy.protectAbove &&
+      importance < policy.archiveBelow
+    ) {
+      action("archive", "decayed");
+    }
+  }
+
+  return actions;
+}
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import type { MemoryEntry } from "./index.js";
+
+/**
+ * Feedback received by a memory, per kind
+ */
+export const FeedbackCountsSchema = z.object({
+  useful: z.number().int().default(0),
+  wrong: z.number().int().default(0),
+  outdated: z.number().int().default(0),
+});
+
+export type FeedbackKind = keyof z.infer<typeof FeedbackCountsSchema>;
+
+/**
+ * Tunables for automatic importance scoring
+ */
+export const ScoringPolicySchema = z.object({
+  keywords: z.record(z.number()).optional().describe("Words in content or tags that raise (or, when negative, lower) importance; replaces the built-in list"),
+  coRecallThreshold: z.number().min(0).max(1).default(0.8).describe("Importance at which a memory lifts the memories recalled alongside it"),
+  historyLimit: z.number().int().positive().default(20).describe("Score history entries kept per memory"),
+});
+
+export type ScoringPolicy = z.infer<typeof ScoringPolicySchema>;
+
+/**
+ * Default content signals. Matched as whole words, case-insensitively.
+ */
+export const DEFAULT_KEYWORDS: Record<string, number> = {
+  critical: 0.15,
+  outage: 0.1,
+  incident: 0.1,
+  prod: 0.1,
+  production: 0.1,
+  security: 0.1,
+  vulnerability: 0.1,
+  deprecated: -0.1,
+  obsolete: -0.1,
+  scratch: -0.05,
+};
+
+/**
+ * One scoring of a memory. `base` is the importance set by the caller (or by
+ * a merge or consolidation) that the signals adjust.
+ */
+export const ScoreEntrySchema = z.object({
+  at: z.number(),
+  reason: z.enum(["store", "update", "feedback", "recall", "rescore"]),
+  base: z.number(),
+  importance: z.number(),
+  signals: z.object({ feedback: z.number(), access: z.number(), coRecall: z.number(), content: z.number() }),
+  keywords: z.array(z.string()).optional().describe("Content signals that matched"),
+  feedback: z.enum(["useful", "wrong", "outdated"]).optional().describe("With reason feedback"),
+  note: z.string().optional().describe("Why the feedback was given"),
+});
+
+export type ScoreEntry = z.infer<typeof ScoreEntrySchema>;
+
+/**
+ * How much each signal moved a memory away from its base importance
+ */
+export type ScoreSignals = ScoreEntry["signals"];
+
+/**
+ * Combines a memory's base importance with feedback, access frequency,
+ * co-recall with important memories and content keywords into the
+ * importance used for ranking
+ */
+export class ImportanceScorer {
+  readonly policy: ScoringPolicy;
+  private keywords: Array<{ word: string; weight: number; pattern: RegExp }>;
+
+  constructor(policy: Partial<ScoringPolicy> = {}) {
+    this.policy = ScoringPolicySchema.parse(policy);
+    this.keywords = Object.entries(this.policy.keywords ?? DEFAULT_KEYWORDS).map(([word, weight]) => ({
+      word,
+      weight,
+      pattern: new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i"),
+    }));
+  }
+
+  /**
+   * Score a memory. The base is the scorer's previous base while importance
+   * still holds the scorer's last result, and the current importance once
+   * something else has set it.
+   */
+  score(
+    memory: MemoryEntry,
+    reason: ScoreEntry["reason"],
+    feedback?: { kind: FeedbackKind; note?: string }
+  ): ScoreEntry {
+    const last = memory.scoreHistory?.at(-1);
+    const base = last && last.importance === memory.importance ? last.base : memory.importance;
+
+    const counts = memory.feedback ?? { useful: 0, wrong: 0, outdated: 0 };
+    const text = [memory.sensitive ? "" : memory.content, ...memory.tags].join(" ");
+    const matched = this.keywords.filter((k) => k.pattern.test(text));
+
+    const signals: ScoreSignals = {
+      feedback: clamp(0.1 * counts.useful - 0.25 * counts.wrong - 0.15 * counts.outdated, -0.6, 0.3),
+      access: Math.min(0.15, 0.03 * Math.log2(1 + memory.accessCount)),
+      coRecall: Math.min(0.1, 0.02 * (memory.coRecalls ?? 0)),
+      content: clamp(matched.reduce((sum, k) => sum + k.weight, 0), -0.2, 0.25),
+    };
+    const total = signals.feedback + signals.access + signals.coRecall + signals.content;
+
+    return {
+      at: Date.now(),
+      reason,
+      base,
+      importance: round(clamp(base + total, 0, 1)),
+      signals: {
+        feedback: round(signals.feedback),
+        access: round(signals.access),
+        coRecall: round(signals.coRecall),
+        content: round(signals.content),
+      },
+      keywords: matched.length > 0 ? matched.map((k) => k.word) : undefined,
+      feedback: feedback?.kind,
+      note: feedback?.note,
+    };
+  }
+}
+
+/**
+ * One line per scoring, oldest first, e.g.
+ * `<time> feedback(wrong): base 0.5 -> 0.25 (feedback -0.25)`
+ */
+export function explainScore(history: ScoreEntry[]): string[] {
+  return history.map((entry) => {
+    const parts = (Object.entries(entry.signals) as Array<[keyof ScoreSignals, number]>)
+      .filter(([, value]) => value !== 0)
+      .map(([signal, value]) => `${signal} ${value > 0 ? "+" : ""}${value}`);
+    if (entry.keywords) parts.push(`keywords: ${entry.keywords.join(", ")}`);
+    const reason = entry.feedback ? `${entry.reason}(${entry.feedback})` : entry.reason;
+    const note = entry.note ? ` "${entry.note}"` : "";
+    return `${new Date(entry.at).toISOString()} ${reason}: base ${entry.base} -> ${entry.importance}${parts.length > 0 ? ` (${parts.join(", ")})` : ""}${note}`;
+  });
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,239 @@
+import { STOP_WORDS, tokenize } from "./embedding.js";
+
+/**
+ * A parsed full-text query: bare terms, `prefix*` terms and "quoted phrases"
+ */
+export interface ParsedSearchQuery {
+  terms: string[];
+  prefixes: string[];
+  phrases: string[][];
+}
+
+/**
+ * Whether the query uses phrase or prefix syntax, i.e. asks for literal matches
+ */
+export function isExplicitQuery(parsed: ParsedSearchQuery): boolean {
+  return parsed.prefixes.length > 0 || parsed.phrases.length > 0;
+}
+
+/**
+ * Parse a search query. Quoted text becomes a phrase, a trailing `*` makes a
+ * prefix term, and a bare word that tokenizes into several tokens (such as
+ * `us-east-1`) is matched as a phrase. Stop words are dropped from bare terms.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], prefixes: [], phrases: [] };
+
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      addTokens(parsed, tokenize(match[1]));
+      continue;
+    }
+
+    const word = match[2]!;
+    if (word.endsWith("*")) {
+      const [prefix] = tokenize(word.slice(0, -1));
+      if (prefix) parsed.prefixes.push(prefix);
+      continue;
+    }
+
+    addTokens(parsed, tokenize(word));
+  }
+
+  return parsed;
+}
+
+function addTokens(parsed: ParsedSearchQuery, tokens: string[]): void {
+  if (tokens.length === 1) {
+    if (!STOP_WORDS.has(tokens[0]!)) parsed.terms.push(tokens[0]!);
+  } else if (tokens.length > 1) {
+    parsed.phrases.push(tokens);
+  }
+}
+
+/**
+ * Incrementally maintained inverted index with positional postings and
+ * Okapi BM25 scoring
+ */
+export class InvertedIndex {
+  private postings: Map<string, Map<string, number[]>> = new Map(); // term -> doc ID -> positions
+  private docTerms: Map<string, string[]> = new Map(); // doc ID -> distinct terms
+  private docLengths: Map<string, number> = new Map();
+  private sortedTerms: string[] = [];
+  private totalLength: number = 0;
+
+  constructor(
+    private readonly k1: number = 1.2,
+    private readonly b: number = 0.75,
+    private readonly maxPrefixExpansions: number = 50
+  ) {}
+
+  get size(): number {
+    return this.docLengths.size;
+  }
+
+  /**
+   * Index a document, replacing any previous version with the same ID
+   */
+  add(id: string, text: string): void {
+    if (this.docLengths.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    const positions = new Map<string, number[]>();
+    tokens.forEach((token, position) => {
+      if (!positions.has(token)) {
+        positions.set(token, []);
+      }
+      positions.get(token)!.push(position);
+    });
+
+    for (const [term, termPositions] of positions) {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+        this.sortedTerms.splice(this.lowerBound(term), 0, term);
+      }
+      postings.set(id, termPositions);
+    }
+
+    this.docTerms.set(id, Array.from(positions.keys()));
+    this.docLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  remove(id: string): void {
+    const terms = this.docTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const postings = this.postings.get(term);
+      if (!postings) continue;
+
+      postings.delete(id);
+      if (postings.size === 0) {
+        this.postings.delete(term);
+        const index = this.lowerBound(term);
+        if (this.sortedTerms[index] === term) {
+          this.sortedTerms.splice(index, 1);
+        }
+      }
+    }
+
+    this.totalLength -= this.docLengths.get(id) || 0;
+    this.docTerms.delete(id);
+    this.docLengths.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docTerms.clear();
+    this.docLengths.clear();
+    this.sortedTerms = [];
+    this.totalLength = 0;
+  }
+
+  /**
+   * Score every document matching the query with BM25.
+   * Documents that match no term, prefix or phrase are omitted.
+   */
+  search(query: string | ParsedSearchQuery): Map<string, number> {
+    const parsed = typeof query === "string" ? parseSearchQuery(query) : query;
+    const scores = new Map<string, number>();
+
+    for (const term of parsed.terms) {
+      this.scoreTerm(term, scores);
+    }
+
+    for (const prefix of parsed.prefixes) {
+      for (const term of this.expandPrefix(prefix)) {
+        this.scoreTerm(term, scores);
+      }
+    }
+
+    for (const phrase of parsed.phrases) {
+      const frequencies = this.phraseFrequencies(phrase);
+      const idf = this.idf(frequencies.size);
+      for (const [id, tf] of frequencies) {
+        this.addScore(scores, id, idf, tf);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Indexed terms starting with the given prefix
+   */
+  expandPrefix(prefix: string): string[] {
+    const terms: string[] = [];
+    for (let i = this.lowerBound(prefix); i < this.sortedTerms.length; i++) {
+      const term = this.sortedTerms[i]!;
+      if (!term.startsWith(prefix) || terms.length >= this.maxPrefixExpansions) break;
+      terms.push(term);
+    }
+    return terms;
+  }
+
+  private scoreTerm(term: string, scores: Map<string, number>): void {
+    const postings = this.postings.get(term);
+    if (!postings) return;
+
+    const idf = this.idf(postings.size);
+    for (const [id, positions] of postings) {
+      this.addScore(scores, id, idf, positions.length);
+    }
+  }
+
+  private addScore(scores: Map<string, number>, id: string, idf: number, tf: number): void {
+    const avgLength = this.size > 0 ? this.totalLength / this.size : 0;
+    const length = this.docLengths.get(id) || 0;
+    const norm = avgLength > 0 ? 1 - this.b + this.b * (length / avgLength) : 1;
+    const score = idf * ((tf * (this.k1 + 1)) / (tf + this.k1 * norm));
+    scores.set(id, (scores.get(id) || 0) + score);
+  }
+
+  private idf(documentFrequency: number): number {
+    return Math.log(1 + (this.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private phraseFrequencies(phrase: string[]): Map<string, number> {
+    const frequencies = new Map<string, number>();
+    const postingLists = phrase.map((term) => this.postings.get(term));
+    if (postingLists.some((postings) => !postings)) return frequencies;
+
+    // Walk the first term's documents and check the others at offset positions
+    const [first, ...rest] = postingLists as Array<Map<string, number[]>>;
+    for (const [id, positions] of first!) {
+      const others = rest.map((postings) => postings.get(id));
+      if (others.some((p) => !p)) continue;
+
+      const otherSets = others.map((p) => new Set(p));
+      const count = positions.filter((start) =>
+        otherSets.every((set, offset) => set.has(start + offset + 1))
+      ).length;
+      if (count > 0) frequencies.set(id, count);
+    }
+
+    return frequencies;
+  }
+
+  private lowerBound(term: string): number {
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sortedTerms[mid]! < term) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,333 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import type { Cipher } from "./encryption.js";
+
+/**
+ * What happens to content that contains a secret
+ */
+export const SecretPolicySchema = z.object({
+  action: z.enum(["redact", "reject", "encrypt"]).default("redact").describe("Replace secrets with a placeholder, refuse the write, or keep them encrypted in metadata"),
+  detectors: z.array(z.string()).optional().describe("Built-in detectors to run (all when unset, none when empty)"),
+  entropyThreshold: z.number().positive().default(4).describe("Shannon entropy in bits per character at which a token counts as a secret"),
+  entropyMinLength: z.number().int().positive().default(24).describe("Shortest token the entropy detector considers"),
+});
+
+export type SecretPolicy = z.infer<typeof SecretPolicySchema>;
+
+/**
+ * Finds secrets in a piece of text. Spans are character offsets, end exclusive.
+ */
+export interface SecretDetector {
+  readonly name: string;
+  detect(text: string): Array<{ start: number; end: number }>;
+}
+
+/**
+ * A secret found by a detector
+ */
+export interface SecretMatch {
+  detector: string;
+  field: string; // "content", or the metadata path it was found at
+  start: number;
+  end: number;
+}
+
+/**
+ * Note kept in `metadata.redactions` for each secret taken out of a memory.
+ * The fingerprint identifies a repeated secret without storing it.
+ */
+export interface Redaction {
+  detector: string;
+  field: string;
+  action: "redacted" | "encrypted";
+  placeholder: string;
+  fingerprint: string; // first 12 hex characters of the secret's SHA-256
+  length: number;
+  at: number;
+  ciphertext?: string; // with the encrypt policy
+}
+
+/**
+ * Raised when the reject policy refuses a write
+ */
+export class SecretError extends Error {
+  constructor(readonly matches: SecretMatch[]) {
+    const found = Array.from(new Set(matches.map((m) => `${m.detector} in ${m.field}`)));
+    super(`Refusing to store ${matches.length} secret${matches.length === 1 ? "" : "s"}: ${found.join(", ")}`);
+    this.name = "SecretError";
+  }
+}
+
+/**
+ * Detector for every match of a pattern, or of one capture group in it
+ */
+export function patternDetector(name: string, pattern: RegExp, group?: number): SecretDetector {
+  const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g");
+  return {
+    name,
+    detect(text) {
+      return Array.from(text.matchAll(global), (match) => {
+        const end = match.index + match[0].length;
+        // A group must end the match, e.g. the value of `KEY=value`
+        const length = group === undefined ? match[0].length : (match[group] ?? "").length;
+        return { start: end - length, end };
+      }).filter((span) => span.end > span.start);
+    },
+  };
+}
+
+/**
+ * Flags long mixed-case alphanumeric tokens whose characters are close to
+ * random, such as generated API keys and base64 key material
+ */
+export function entropyDetector(threshold: number = 4, minLength: number = 24): SecretDetector {
+  return {
+    name: "high-entropy",
+    detect(text) {
+      return Array.from(text.matchAll(/[A-Za-z0-9+/_-]+={0,2}/g))
+        .filter(([token]) =>
+          token.length >= minLength &&
+          /[a-z]/.test(token) &&
+          /[A-Z]/.test(token) &&
+          /\d/.test(token) &&
+          shannonEntropy(token) >= threshold
+        )
+        .map((match) => ({ start: match.index, end: match.index + match[0].length }));
+    },
+  };
+}
+
+/**
+ * Built-in detectors, most specific first so their names win over overlapping
+ * generic matches
+ */
+export function builtinDetectors(policy: Pick<SecretPolicy, "entropyThreshold" | "entropyMinLength">): SecretDetector[] {
+  return [
+    patternDetector("private-key", /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/),
+    patternDetector("aws-access-key", /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[A-Z0-9]{16}\b/),
+    patternDetector("aws-secret-key", /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/i, 1),
+    patternDetector("github-token", /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/),
+    patternDetector("jwt", /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/),
+    patternDetector(
+      "credential",
+      /\b[\w.-]*(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[\w.-]*["']?\s*[:=]\s*["']?((?![$<*[{])(?!\d+\b)[^\s"',;]{6,})/i,
+      1
+    ),
+    entropyDetector(policy.entropyThreshold, policy.entropyMinLength),
+  ];
+}
+
+/**
+ * Scans memory content and metadata for secrets and applies the policy:
+ * redact swaps each secret for a `[REDACTED:<detector>]` placeholder, encrypt
+ * swaps it for `[ENCRYPTED:<detector>:<n>]` and keeps the ciphertext in the
+ * redaction note, and reject throws a SecretError. Detectors are pluggable
+ * through `use()`.
+ */
+export class SecretScanner {
+  readonly policy: SecretPolicy;
+  private detectors: SecretDetector[];
+  private cipher?: Cipher;
+
+  constructor(policy: Partial<SecretPolicy> = {}, options: { cipher?: Cipher } = {}) {
+    this.policy = SecretPolicySchema.parse(policy);
+    this.cipher = options.cipher;
+    const builtins = builtinDetectors(this.policy);
+    this.detectors = this.policy.detectors
+      ? builtins.filter((detector) => this.policy.detectors!.includes(detector.name))
+      : builtins;
+
+    if (this.policy.action === "encrypt" && !this.cipher) {
+      throw new Error("The encrypt secret policy needs an encryption key");
+    }
+  }
+
+  /**
+   * Add a detector. It ranks ahead of the generic high-entropy detector, so
+   * its name is the one recorded when both match.
+   */
+  use(detector: SecretDetector): this {
+    const generic = this.detectors.findIndex((d) => d.name === "high-entropy");
+    this.detectors.splice(generic === -1 ? this.detectors.length : generic, 0, detector);
+    return this;
+  }
+
+  get detectorNames(): string[] {
+    return this.detectors.map((detector) => detector.name);
+  }
+
+  /**
+   * Non-overlapping secrets in a piece of text, in order. Overlapping
+   * matches are merged under the name of the more specific detector.
+   */
+  scan(text: string, field: string = "content"): SecretMatch[] {
+    const found = this.detectors.flatMap((detector, rank) =>
+      detector.detect(text).map((span) => ({ ...span, detector: detector.name, field, rank }))
+    );
+    found.sort((a, b) => a.start - b.start || a.rank - b.rank);
+
+    const merged: typeof found = [];
+    for (const match of found) {
+      const previous = merged.at(-1);
+      if (previous && match.start < previous.end) {
+        previous.end = Math.max(previous.end, match.end);
+        if (match.rank < previous.rank) Object.assign(previous, { detector: match.detector, rank: match.rank });
+        continue;
+      }
+      merged.push(match);
+    }
+    return merged.map(({ rank, ...match }) => match);
+  }
+
+  /**
+   * Apply the policy to a memory's content and metadata. Returns them with
+   * secrets replaced and `metadata.redactions` listing every replacement,
+   * carrying over notes from `previous` whose placeholders are still present.
+   * A secret found in one field is also taken out wherever else it appears,
+   * so a fact's value can't leak through its metadata.
+   */
+  screen(
+    fields: { content: string; metadata?: Record<string, any> },
+    previous: Redaction[] = []
+  ): { content: string; metadata: Record<string, any>; redactions: Redaction[] } {
+    const { redactions: _, ...metadata } = fields.metadata || {};
+    const texts = new Map<string, string>([["content", fields.content]]);
+    mapStrings(metadata, "metadata", (field, text) => {
+      texts.set(field, text);
+      return text;
+    });
+
+    const matches = new Map<string, SecretMatch[]>();
+    texts.forEach((text, field) => matches.set(field, this.scan(text, field)));
+    const secrets = new Map<string, string>(); // secret -> detector
+    matches.forEach((found, field) =>
+      found.forEach((m) => secrets.set(texts.get(field)!.slice(m.start, m.end), m.detector))
+    );
+    texts.forEach((text, field) => matches.set(field, withRepeats(text, field, matches.get(field)!, secrets)));
+
+    const all = Array.from(matches.values()).flat();
+    if (all.length > 0 && this.policy.action === "reject") throw new SecretError(all);
+
+    const added: Redaction[] = [];
+    let sequence = Math.max(0, ...previous.map((r) => Number(/:(\d+)\]$/.exec(r.placeholder)?.[1] ?? 0)));
+    const replace = (field: string, text: string) => {
+      const found = matches.get(field) || [];
+      const notes = found.map((m) => this.redact(m, text.slice(m.start, m.end), ++sequence));
+      added.push(...notes);
+      return found.reduceRight(
+        (result, m, i) => result.slice(0, m.start) + notes[i]!.placeholder + result.slice(m.end),
+        text
+      );
+    };
+
+    const content = replace("content", fields.content);
+    const screened = mapStrings(metadata, "metadata", replace) as Record<string, any>;
+
+    const present = [content, JSON.stringify(screened)].join("\n");
+    const redactions = [...previous.filter((r) => present.includes(r.placeholder)), ...added];
+    return {
+      content,
+      metadata: redactions.length > 0 ? { ...screened, redactions } : screened,
+      redactions: added,
+    };
+  }
+
+  /**
+   * Content with encrypted placeholders swapped back for their secrets.
+   * Redacted secrets stay redacted, and so does anything sealed with a key
+   * this scanner doesn't hold.
+   */
+  reveal(content: string, redactions: Redaction[] = []): string {
+    if (!this.cipher) return content;
+    return redactions.reduce((text, redaction) => {
+      if (!redaction.ciphertext) return text;
+      try {
+        return text.split(redaction.placeholder).join(this.cipher!.decrypt(redaction.ciphertext));
+      } catch {
+        return text;
+      }
+    }, content);
+  }
+
+  private redact(match: SecretMatch, secret: string, sequence: number): Redaction {
+    const note = {
+      detector: match.detector,
+      field: match.field,
+      fingerprint: createHash("sha256").update(secret).digest("hex").slice(0, 12),
+      length: secret.length,
+      at: Date.now(),
+    };
+    if (this.policy.action === "encrypt") {
+      return {
+        ...note,
+        action: "encrypted",
+        placeholder: `[ENCRYPTED:${match.detector}:${sequence}]`,
+        ciphertext: this.cipher!.encrypt(secret),
+      };
+    }
+    return { ...note, action: "redacted", placeholder: `[REDACTED:${match.detector}]` };
+  }
+}
+
+/**
+ * Create a scanner from the memory server config. The encrypt policy falls
+ * back to redaction when no key is configured, so secrets are never kept in
+ * plaintext.
+ */
+export function createSecretScanner(policy: Partial<SecretPolicy> = {}, cipher?: Cipher): SecretScanner {
+  if (policy.action === "encrypt" && !cipher) {
+    console.error("[memory] No encryption key configured, redacting secrets instead of encrypting them");
+    return new SecretScanner({ ...policy, action: "redact" });
+  }
+  return new SecretScanner(policy, { cipher });
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) || 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Matches in a field plus any other occurrences there of secrets found
+ * elsewhere, in order
+ */
+function withRepeats(
+  text: string,
+  field: string,
+  matches: SecretMatch[],
+  secrets: Map<string, string>
+): SecretMatch[] {
+  const result = matches.slice();
+  secrets.forEach((detector, secret) => {
+    for (let start = text.indexOf(secret); start !== -1; start = text.indexOf(secret, start + secret.length)) {
+      const end = start + secret.length;
+      if (!result.some((m) => start < m.end && end > m.start)) result.push({ detector, field, start, end });
+    }
+  });
+  return result.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Copy of a JSON-like value with every string passed through `fn` along with
+ * its path, e.g. `metadata.value.password`
+ */
+function mapStrings(value: unknown, path: string, fn: (path: string, text: string) => string): unknown {
+  if (typeof value === "string") return fn(path, value);
+  if (Array.isArray(value)) return value.map((item, i) => mapStrings(item, `${path}[${i}]`, fn));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, `${path}.${key}`, fn)])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,431 @@
+import { KnowledgeGraph, type Entity } from "../knowledge-graph.js";
+import { DEFAULT_NAMESPACE } from "./namespace.js";
+import { LongTermMemory, type MemoryChange, type MemoryEntry } from "./index.js";
+import {
+  decisionContent,
+  toDecisionRecord,
+  writeAdrFiles,
+  type DecisionInput,
+  type DecisionRecord,
+  type DecisionStatus,
+} from "./decisions.js";
+
+/**
+ * A key/value fact. Facts are memories whose content is `key: value`, so
+ * they take part in recall and search like any other memory.
+ */
+export interface Fact {
+  key: string;
+  value: unknown;
+  memory: MemoryEntry;
+}
+
+/**
+ * One reasoning step: the context and decision of a decision record
+ */
+export interface ReasoningEntry {
+  id: string;
+  timestamp: number;
+  context: string;
+  decision: string;
+}
+
+/**
+ * Options shared by the service's write operations
+ */
+export interface WriteOptions {
+  namespace?: string;
+  author?: string;
+}
+
+export const FACT_TAG = "fact";
+export const DECISION_CONTEXT = "decisions";
+
+/**
+ * Single entry point for everything the server remembers: rich memories,
+ * key/value facts and decision records all live in one LongTermMemory, and
+ * any of them can be linked to KnowledgeGraph entities through
+ * `metadata.entities`. Facts and decisions are told apart by
+ * `metadata.kind`.
+ */
+export class MemoryService {
+  private facts: Map<string, Map<string, string>> = new Map(); // namespace -> key -> memory ID
+  private factKeys: Map<string, { namespace: string; key: string }> = new Map(); // memory ID -> fact key
+  private entityLinks: Map<string, Set<string>> = new Map(); // entity ID -> memory IDs
+  private linkedEntities: Map<string, string[]> = new Map(); // memory ID -> entity IDs
+  private stopListening: () => void;
+
+  constructor(
+    readonly memory: LongTermMemory = new LongTermMemory(),
+    readonly graph: KnowledgeGraph = new KnowledgeGraph()
+  ) {
+    this.memory.export().forEach((entry) => this.index(entry));
+    this.stopListening = this.memory.onChange((change) => this.changed(change));
+  }
+
+  // ==========================================================================
+  // Facts
+  // ==========================================================================
+
+  /**
+   * Store a fact, updating the existing memory when the key is already known
+   * so earlier values stay in its revision history. The returned value is the
+   * one stored, after any secret redaction.
+   */
+  setFact(
+    key: string,
+    value: unknown,
+    options: WriteOptions & { tags?: string[]; category?: string } = {}
+  ): { fact: Fact; created: boolean } {
+    const namespace = options.namespace || DEFAULT_NAMESPACE;
+    const content = `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`;
+    const existing = this.getFact(key, namespace);
+    // Re-setting a value without tags keeps the ones the fact already has
+    const tags = Array.from(new Set([FACT_TAG, ...(options.tags ?? existing?.memory.tags ?? [])]));
+
+    if (existing) {
+      const updated = this.memory.update(
+        existing.memory.id,
+        {
+          content,
+          tags,
+          context: options.category ?? existing.memory.context,
+          metadata: { ...existing.memory.metadata, kind: "fact", key, value },
+        },
+        { author: options.author }
+      )!;
+      return { fact: { key, value: updated.metadata.value, memory: updated }, created: false };
+    }
+
+    const stored = this.memory.store({
+      content,
+      context: options.category,
+      tags,
+      metadata: { kind: "fact", key, value },
+      namespace,
+      author: options.author,
+      dedupe: false,
+    });
+    return { fact: { key, value: stored.metadata.value, memory: stored }, created: true };
+  }
+
+  getFact(key: string, namespace: string = DEFAULT_NAMESPACE): Fact | undefined {
+    const id = this.facts.get(namespace)?.get(key);
+    const memory = id ? this.memory.get(id) : undefined;
+    return memory ? toFact(memory) : undefined;
+  }
+
+  /**
+   * All facts in a namespace, ordered by key
+   */
+  listFacts(namespace: string = DEFAULT_NAMESPACE): Fact[] {
+    return Array.from(this.facts.get(namespace)?.values() || [])
+      .map((id) => this.memory.get(id))
+      .filter((memory): memory is MemoryEntry => memory !== undefined)
+      .map(toFact)
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Facts whose key, value or tags contain `query`, optionally limited to
+   * one category
+   */
+  searchFacts(query: string, options: { category?: string; namespace?: string } = {}): Fact[] {
+    const needle = query.toLowerCase();
+    return this.listFacts(options.namespace).filter((fact) => {
+      if (options.category && fact.memory.context !== options.category) return false;
+      return (
+        fact.key.toLowerCase().includes(needle) ||
+        JSON.stringify(fact.value).toLowerCase().includes(needle) ||
+        fact.memory.tags.some((tag) => tag.toLowerCase().includes(needle))
+      );
+    });
+  }
+
+  deleteFact(key: string, namespace: string = DEFAULT_NAMESPACE): boolean {
+    const fact = this.getFact(key, namespace);
+    return fact ? this.memory.delete(fact.memory.id) : false;
+  }
+
+  // ==========================================================================
+  // Decisions
+  // ==========================================================================
+
+  /**
+   * Record a decision. Linked entities must exist in the graph, and linked
+   * memories may be given by ID or fact key.
+   */
+  recordDecision(
+    input: DecisionInput,
+    options: WriteOptions & { supersedes?: string } = {}
+  ): { record: DecisionRecord } | { error: string } {
+    const namespace = options.namespace || DEFAULT_NAMESPACE;
+    const entities = input.entities || [];
+    const missingEntity = entities.find((id) => !this.graph.getEntity(id));
+    if (missingEntity) return { error: `Entity not found: ${missingEntity}` };
+
+    const memories: string[] = [];
+    for (const idOrKey of input.memories || []) {
+      const linked = this.resolve(idOrKey, namespace);
+      if (!linked) return { error: `Memory or key not found: ${idOrKey}` };
+      memories.push(linked.id);
+    }
+
+    const number = this.listDecisions({ namespace }).reduce((max, r) => Math.max(max, r.number), 0) + 1;
+    const stored = this.memory.store({
+      content: decisionContent(input),
+      context: DECISION_CONTEXT,
+      tags: ["decision"],
+      metadata: {
+        kind: "decision",
+        number,
+        title: input.title,
+        status: input.status ?? "proposed",
+        context: input.context,
+        decision: input.decision,
+        alternatives: input.alternatives || [],
+        consequences: input.consequences || [],
+        entities,
+        memories,
+        ...(options.supersedes ? { supersedes: options.supersedes } : {}),
+      },
+      namespace,
+      author: options.author,
+      dedupe: false,
+    });
+    return { record: toDecisionRecord(stored)! };
+  }
+
+  getDecision(id: string): DecisionRecord | undefined {
+    const memory = this.memory.get(id);
+    return memory ? toDecisionRecord(memory) : undefined;
+  }
+
+  /**
+   * Decisions in ADR number order, optionally narrowed by status or entity
+   */
+  listDecisions(
+    options: { namespace?: string; status?: DecisionStatus; entityId?: string } = {}
+  ): DecisionRecord[] {
+    const memories =
+      options.entityId !== undefined
+        ? this.getMemoriesByEntity(options.entityId).filter(
+            (m) => options.namespace === undefined || m.namespace === options.namespace
+          )
+        : this.memory.export({ namespace: options.namespace });
+    return memories
+      .map(toDecisionRecord)
+      .filter((record): record is DecisionRecord => record !== undefined)
+      .filter((record) => !options.status || record.status === options.status)
+      .sort((a, b) => a.number - b.number || a.date - b.date);
+  }
+
+  /**
+   * Move a decision between proposed and accepted. Superseded decisions stay
+   * superseded.
+   */
+  setDecisionStatus(
+    id: string,
+    status: Exclude<DecisionStatus, "superseded">,
+    options: { author?: string } = {}
+  ): { record: DecisionRecord } | { error: string } {
+    const record = this.getDecision(id);
+    if (!record) return { error: `Decision not found: ${id}` };
+    if (record.status === "superseded") return { error: `Decision ${record.number} is already superseded` };
+
+    const memory = this.memory.get(id)!;
+    this.memory.update(id, { metadata: { ...memory.metadata, status } }, { author: options.author });
+    return { record: toDecisionRecord(memory)! };
+  }
+
+  /**
+   * Record a new decision that replaces an existing one. The new decision
+   * inherits the old one's entity and memory links unless it names its own.
+   */
+  supersede(
+    id: string,
+    input: DecisionInput,
+    options: { author?: string } = {}
+  ): { record: DecisionRecord; superseded: DecisionRecord } | { error: string } {
+    const previous = this.getDecision(id);
+    if (!previous) return { error: `Decision not found: ${id}` };
+    if (previous.status === "superseded") {
+      return { error: `Decision ${previous.number} is already superseded by ${previous.supersededBy}` };
+    }
+
+    const result = this.recordDecision(
+      {
+        ...input,
+        status: input.status ?? "accepted",
+        entities: input.entities ?? previous.entities,
+        memories: input.memories ?? previous.memories,
+      },
+      { namespace: previous.namespace, author: options.author, supersedes: id }
+    );
+    if ("error" in result) return result;
+
+    const memory = this.memory.get(id)!;
+    this.memory.update(
+      id,
+      { metadata: { ...memory.metadata, status: "superseded", supersededBy: result.record.id } },
+      { author: options.author }
+    );
+    return { record: result.record, superseded: toDecisionRecord(memory)! };
+  }
+
+  /**
+   * Write the decisions of a namespace as ADR markdown files
+   */
+  exportDecisions(directory: string, options: { namespace?: string } = {}): Promise<string[]> {
+    return writeAdrFiles(this.listDecisions(options), directory, (id) => {
+      const entity = this.graph.getEntity(id);
+      const name = entity?.properties.name ?? entity?.properties.title;
+      return entity ? `${entity.type}${name ? ` ${name}` : ""} (${id})` : id;
+    });
+  }
+
+  /**
+   * Record a reasoning step as an accepted decision
+   */
+  addReasoning(context: string, decision: string, options: WriteOptions = {}): DecisionRecord {
+    const result = this.recordDecision(
+      { title: context.split("\n")[0]!.trim().slice(0, 80), context, decision, status: "accepted" },
+      options
+    );
+    return (result as { record: DecisionRecord }).record;
+  }
+
+  /**
+   * The most recent decisions as reasoning steps, oldest first
+   */
+  getReasoningHistory(limit: number = 10, namespace?: string): ReasoningEntry[] {
+    return this.listDecisions({ namespace })
+      .sort((a, b) => a.date - b.date)
+      .slice(-limit)
+      .map(({ id, date, context, decision }) => ({ id, timestamp: date, context, decision }));
+  }
+
+  // ==========================================================================
+  // Knowledge graph links
+  // ==========================================================================
+
+  /**
+   * Find a memory by ID, or by fact key within a namespace
+   */
+  resolve(idOrKey: string, namespace: string = DEFAULT_NAMESPACE): MemoryEntry | undefined {
+    return this.memory.get(idOrKey) ?? this.getFact(idOrKey, namespace)?.memory;
+  }
+
+  /**
+   * Link a memory to a knowledge graph entity. Returns an error message when
+   * either side does not exist.
+   */
+  linkMemoryToEntity(
+    memoryId: string,
+    entityId: string,
+    options: { author?: string } = {}
+  ): { memory: MemoryEntry; entity: Entity } | { error: string } {
+    const memory = this.memory.get(memoryId);
+    if (!memory) return { error: `Memory not found: ${memoryId}` };
+    const entity = this.graph.getEntity(entityId);
+    if (!entity) return { error: `Entity not found: ${entityId}` };
+
+    const entities = entityIdsOf(memory);
+    if (!entities.includes(entityId)) {
+      this.memory.update(
+        memory.id,
+        { metadata: { ...memory.metadata, entities: [...entities, entityId] } },
+        { author: options.author }
+      );
+    }
+    return { memory, entity };
+  }
+
+  /**
+   * Memories linked to an entity, newest first
+   */
+  getMemoriesByEntity(entityId: string): MemoryEntry[] {
+    return Array.from(this.entityLinks.get(entityId) || [])
+      .map((id) => this.memory.get(id))
+      .filter((memory): memory is MemoryEntry => memory !== undefined)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Entities a memory is linked to
+   */
+  getEntitiesForMemory(memoryId: string): Entity[] {
+    return (this.linkedEntities.get(memoryId) || [])
+      .map((id) => this.graph.getEntity(id))
+      .filter((entity): entity is Entity => entity !== undefined);
+  }
+
+  /**
+   * Stop following memory changes
+   */
+  close(): void {
+    this.stopListening();
+  }
+
+  // Private helper methods
+
+  private changed(change: MemoryChange): void {
+    if (change.action === "clear") {
+      this.facts.clear();
+      this.factKeys.clear();
+      this.entityLinks.clear();
+      this.linkedEntities.clear();
+      return;
+    }
+
+    this.unindex(change.id!);
+    const memory = this.memory.get(change.id!);
+    if (memory) this.index(memory);
+  }
+
+  private index(memory: MemoryEntry): void {
+    if (memory.metadata.kind === "fact" && typeof memory.metadata.key === "string") {
+      const key = memory.metadata.key;
+      if (!this.facts.has(memory.namespace)) {
+        this.facts.set(memory.namespace, new Map());
+      }
+      this.facts.get(memory.namespace)!.set(key, memory.id);
+      this.factKeys.set(memory.id, { namespace: memory.namespace, key });
+    }
+
+    const entities = entityIdsOf(memory);
+    if (entities.length > 0) {
+      this.linkedEntities.set(memory.id, entities);
+      entities.forEach((entityId) => {
+        if (!this.entityLinks.has(entityId)) {
+          this.entityLinks.set(entityId, new Set());
+        }
+        this.entityLinks.get(entityId)!.add(memory.id);
+      });
+    }
+  }
+
+  private unindex(memoryId: string): void {
+    const factKey = this.factKeys.get(memoryId);
+    if (factKey) {
+      this.facts.get(factKey.namespace)?.delete(factKey.key);
+      this.factKeys.delete(memoryId);
+    }
+
+    (this.linkedEntities.get(memoryId) || []).forEach((entityId) => {
+      const ids = this.entityLinks.get(entityId);
+      ids?.delete(memoryId);
+      if (ids?.size === 0) this.entityLinks.delete(entityId);
+    });
+    this.linkedEntities.delete(memoryId);
+  }
+}
+
+function toFact(memory: MemoryEntry): Fact {
+  return { key: String(memory.metadata.key), value: memory.metadata.value, memory };
+}
+
+function entityIdsOf(memory: MemoryEntry): string[] {
+  const entities = memory.metadata.entities;
+  return Array.isArray(entities) ? entities.filter((id): id is string => typeof id === "string") : [];
+}
@@ -0,0 +1,258 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { MemoryEntrySchema, type LongTermMemory, type MemoryEntry } from "./index.js";
+
+/**
+ * Where memories are synced with other instances
+ */
+export const SyncConfigSchema = z.object({
+  directory: z.string().describe("Shared directory (network drive, synced folder) holding each instance's changesets"),
+  instanceId: z.string().regex(/^[A-Za-z0-9._-]+$/).optional().describe("Unique name of this instance (defaults to the host name)"),
+});
+
+export type SyncConfig = z.infer<typeof SyncConfigSchema>;
+
+/**
+ * When and on which instance a memory was last changed. Of two versions of a
+ * memory the later stamp wins, ties going to the greater instance ID, so
+ * every instance settles on the same version whatever order changesets
+ * arrive in.
+ */
+export interface MemoryStamp {
+  at: number;
+  by: string;
+}
+
+/**
+ * Record of a deleted memory, kept so an older copy arriving from another
+ * instance doesn't bring it back
+ */
+export interface Tombstone extends MemoryStamp {
+  id: string;
+}
+
+/**
+ * Memory changes made on one instance between two cursors
+ */
+export interface Changeset {
+  version: 1;
+  instanceId: string;
+  seq: number;
+  since: number;
+  until: number; // cursor for the next changeset
+  createdAt: number;
+  entries: Array<{ entry: MemoryEntry; stamp: MemoryStamp }>;
+  tombstones: Tombstone[];
+}
+
+/**
+ * Outcome of merging changesets into the local store
+ */
+export interface ChangesetMergeReport {
+  applied: number; // memories created or replaced by a newer version
+  deleted: number;
+  ignored: number; // older than or equal to what is already here
+  errors: Array<{ id: string; message: string }>;
+}
+
+/**
+ * Outcome of a sync through the shared directory
+ */
+export interface SyncReport {
+  pushed: { seq: number; entries: number; tombstones: number } | null;
+  pulled: Array<{ instanceId: string; seq: number }>;
+  merge: ChangesetMergeReport;
+  errors: Array<{ file: string; message: string }>;
+}
+
+interface SyncState {
+  seq: number; // last changeset written
+  cursor: number; // local changes up to here are in a changeset
+  peers: Record<string, number>; // instance ID -> last changeset merged
+}
+
+const STATE_FILE = "state.json";
+const CHANGESET_FILE = /^(\d+)\.json$/;
+
+/**
+ * Order two stamps: negative when `a` is older
+ */
+export function compareStamps(a: MemoryStamp, b: MemoryStamp): number {
+  return a.at - b.at || (a.by < b.by ? -1 : a.by > b.by ? 1 : 0);
+}
+
+/**
+ * Syncs memories through a shared directory, with no central service. Each
+ * instance writes numbered changesets to its own subdirectory and merges the
+ * changesets of every other subdirectory it hasn't seen yet:
+ *
+ *   <directory>/<instanceId>/00000001.json
+ *   <directory>/<instanceId>/state.json
+ *
+ * Only the owning instance writes to a subdirectory, and changesets are
+ * renamed into place once complete, so readers never see partial files.
+ */
+export class SharedDirectorySync {
+  readonly directory: string;
+
+  constructor(
+    private readonly memory: LongTermMemory,
+    options: { directory: string }
+  ) {
+    this.directory = options.directory;
+  }
+
+  private get ownDirectory(): string {
+    return path.join(this.directory, this.memory.instanceId);
+  }
+
+  /**
+   * Merge new changesets from other instances, then publish local changes
+   */
+  sync(): SyncReport {
+    const report = this.pull();
+    return { ...report, pushed: this.push().pushed };
+  }
+
+  /**
+   * Write the local changes made since the last push as a new changeset.
+   * Nothing is written when nothing changed.
+   */
+  push(): SyncReport {
+    const state = this.readState();
+    const changes = this.memory.changesSince(state.cursor);
+    const report: SyncReport = { pushed: null, pulled: [], merge: emptyMergeReport(), errors: [] };
+
+    if (changes.entries.length > 0 || changes.tombstones.length > 0) {
+      const changeset: Changeset = {
+        version: 1,
+        instanceId: this.memory.instanceId,
+        seq: state.seq + 1,
+        since: state.cursor,
+        until: changes.until,
+        createdAt: Date.now(),
+        entries: changes.entries,
+        tombstones: changes.tombstones,
+      };
+      writeAtomically(path.join(this.ownDirectory, changesetFile(changeset.seq)), JSON.stringify(changeset));
+      state.seq = changeset.seq;
+      report.pushed = { seq: changeset.seq, entries: changes.entries.length, tombstones: changes.tombstones.length };
+    }
+
+    state.cursor = changes.until;
+    this.writeState(state);
+    return report;
+  }
+
+  /**
+   * Merge every changeset from other instances not merged before, oldest
+   * first per instance. An unreadable changeset is reported and stops that
+   * instance's pull until a later one can read it.
+   */
+  pull(): SyncReport {
+    const state = this.readState();
+    const report: SyncReport = { pushed: null, pulled: [], merge: emptyMergeReport(), errors: [] };
+
+    for (const peer of this.peers()) {
+      const peerDirectory = path.join(this.directory, peer);
+      const pending = fs
+        .readdirSync(peerDirectory)
+        .map((file) => ({ file, seq: Number(CHANGESET_FILE.exec(file)?.[1] ?? NaN) }))
+        .filter(({ seq }) => seq > (state.peers[peer] ?? 0))
+        .sort((a, b) => a.seq - b.seq);
+
+      for (const { file, seq } of pending) {
+        const filePath = path.join(peerDirectory, file);
+        try {
+          const changeset = parseChangeset(JSON.parse(fs.readFileSync(filePath, "utf8")));
+          const merged = this.memory.mergeChanges(changeset);
+          report.merge.applied += merged.applied;
+          report.merge.deleted += merged.deleted;
+          report.merge.ignored += merged.ignored;
+          report.merge.errors.push(...merged.errors);
+          report.pulled.push({ instanceId: peer, seq });
+          state.peers[peer] = seq;
+        } catch (error) {
+          // Retried on the next pull, with the peer's later changesets
+          // waiting behind it so they merge in order
+          report.errors.push({ file: filePath, message: error instanceof Error ? error.message : String(error) });
+          break;
+        }
+      }
+    }
+
+    this.writeState(state);
+    return report;
+  }
+
+  private peers(): string[] {
+    if (!fs.existsSync(this.directory)) return [];
+    return fs
+      .readdirSync(this.directory, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && entry.name !== this.memory.instanceId)
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  private readState(): SyncState {
+    const statePath = path.join(this.ownDirectory, STATE_FILE);
+    if (!fs.existsSync(statePath)) return { seq: 0, cursor: 0, peers: {} };
+    const raw = JSON.parse(fs.readFileSync(statePath, "utf8"));
+    return { seq: raw.seq ?? 0, cursor: raw.cursor ?? 0, peers: raw.peers ?? {} };
+  }
+
+  private writeState(state: SyncState): void {
+    writeAtomically(path.join(this.ownDirectory, STATE_FILE), JSON.stringify(state));
+  }
+}
+
+/**
+ * Validate a changeset read from disk. Entries that don't parse are dropped.
+ */
+export function parseChangeset(raw: any): Changeset {
+  if (!raw || raw.version !== 1 || typeof raw.instanceId !== "string" || !Array.isArray(raw.entries)) {
+    throw new Error("Not a memory changeset");
+  }
+
+  const entries: Changeset["entries"] = [];
+  for (const item of raw.entries) {
+    const parsed = MemoryEntrySchema.safeParse(item?.entry);
+    if (parsed.success && isStamp(item.stamp)) entries.push({ entry: parsed.data, stamp: item.stamp });
+  }
+
+  return {
+    version: 1,
+    instanceId: raw.instanceId,
+    seq: Number(raw.seq) || 0,
+    since: Number(raw.since) || 0,
+    until: Number(raw.until) || 0,
+    createdAt: Number(raw.createdAt) || 0,
+    entries,
+    tombstones: Array.isArray(raw.tombstones)
+      ? raw.tombstones.filter((t: any) => typeof t?.id === "string" && isStamp(t))
+      : [],
+  };
+}
+
+function isStamp(value: any): value is MemoryStamp {
+  return typeof value?.at === "number" && typeof value?.by === "string";
+}
+
+function emptyMergeReport(): ChangesetMergeReport {
+  return { applied: 0, deleted: 0, ignored: 0, errors: [] };
+}
+
+function changesetFile(seq: number): string {
+  return `${String(seq).padStart(8, "0")}.json`;
+}
+
+/**
+ * Write to a temporary file and rename it into place
+ */
+function writeAtomically(filePath: string, data: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.tmp`);
+  fs.writeFileSync(tmpPath, data, "utf8");
+  fs.renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,163 @@
+import type { MemoryEntry } from "./index.js";
+import { REVISIONED_FIELDS, type MemoryRevision, type RevisionedField } from "./history.js";
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export type HistogramBucket = "hour" | "day" | "week";
+
+const BUCKET_MS: Record<HistogramBucket, number> = {
+  hour: UNIT_MS.h!,
+  day: UNIT_MS.d!,
+  week: UNIT_MS.w!,
+};
+
+/**
+ * How one memory changed between two points in time. `before` is the memory
+ * as it stood at the start of the window (unset if it was created inside
+ * it) and `after` as it stood at the end.
+ */
+export interface MemoryChangeSummary {
+  memoryId: string;
+  status: "created" | "updated";
+  fields: RevisionedField[];
+  before?: MemoryRevision["snapshot"];
+  after: MemoryRevision["snapshot"];
+  revisions: Array<Pick<MemoryRevision, "revision" | "timestamp" | "action" | "author">>;
+}
+
+/**
+ * Everything that changed in a time window
+ */
+export interface TimelineDiff {
+  from: number;
+  to: number;
+  created: number;
+  updated: number;
+  changes: MemoryChangeSummary[];
+}
+
+/**
+ * Activity per time bucket, broken down by context or tag
+ */
+export interface ActivityHistogram {
+  from: number;
+  to: number;
+  bucket: HistogramBucket;
+  groupBy: "context" | "tag";
+  buckets: Array<{ start: number; total: number; counts: Record<string, number> }>;
+}
+
+/**
+ * Parse a point in time: epoch milliseconds, an ISO date, `now`, or an
+ * offset from now such as `-24h`, `-7d` or `-30m`. Returns undefined for
+ * anything else.
+ */
+export function parseTime(input: string | number, now: number = Date.now()): number | undefined {
+  if (typeof input === "number") return Number.isFinite(input) ? input : undefined;
+
+  const text = input.trim();
+  if (text === "now") return now;
+  if (/^\d+$/.test(text)) return Number(text);
+
+  const relative = /^-(\d+(?:\.\d+)?)([smhdw])$/.exec(text);
+  if (relative) return now - Number(relative[1]) * UNIT_MS[relative[2]!]!;
+
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Summarize the revisions of one memory that fall in `(from, to]`. Returns
+ * null when nothing in the window changed it.
+ */
+export function summarizeChanges(
+  chain: MemoryRevision[],
+  from: number,
+  to: number
+): MemoryChangeSummary | null {
+  const inWindow = chain.filter((r) => r.timestamp > from && r.timestamp <= to);
+  if (inWindow.length === 0) return null;
+
+  const before = chain.filter((r) => r.timestamp <= from).at(-1)?.snapshot;
+  const after = inWindow.at(-1)!.snapshot;
+  const fields = before
+    ? REVISIONED_FIELDS.filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    : [...REVISIONED_FIELDS];
+
+  return {
+    memoryId: inWindow[0]!.memoryId,
+    status: before ? "updated" : "created",
+    fields,
+    before,
+    after,
+    revisions: inWindow.map(({ revision, timestamp, action, author }) => ({ revision, timestamp, action, author })),
+  };
+}
+
+/**
+ * Pick the finest bucket that keeps the histogram at or under 60 buckets
+ */
+export function chooseBucket(from: number, to: number): HistogramBucket {
+  const span = Math.max(0, to - from);
+  if (span / BUCKET_MS.hour <= 60) return "hour";
+  if (span / BUCKET_MS.day <= 60) return "day";
+  return "week";
+}
+
+/**
+ * Count events into fixed buckets aligned to UTC boundaries. Each event is
+ * counted under every group it belongs to, or `(none)` when it has none.
+ */
+export function buildHistogram(
+  events: Iterable<{ timestamp: number; groups: string[] }>,
+  options: { from: number; to: number; bucket: HistogramBucket; groupBy: "context" | "tag" }
+): ActivityHistogram {
+  const size = BUCKET_MS[options.bucket];
+  const first = alignToBucket(options.from, options.bucket);
+  const count = Math.max(1, Math.floor((options.to - first) / size) + 1);
+  const buckets = Array.from({ length: count }, (_, i) => ({
+    start: first + i * size,
+    total: 0,
+    counts: {} as Record<string, number>,
+  }));
+
+  for (const event of events) {
+    if (event.timestamp < options.from || event.timestamp > options.to) continue;
+    const bucket = buckets[Math.floor((event.timestamp - first) / size)];
+    if (!bucket) continue;
+
+    bucket.total++;
+    (event.groups.length > 0 ? event.groups : ["(none)"]).forEach((group) => {
+      bucket.counts[group] = (bucket.counts[group] || 0) + 1;
+    });
+  }
+
+  return { from: options.from, to: options.to, bucket: options.bucket, groupBy: options.groupBy, buckets };
+}
+
+/**
+ * Groups a memory snapshot falls under in a histogram
+ */
+export function histogramGroups(
+  memory: Pick<MemoryEntry, "context" | "tags">,
+  groupBy: "context" | "tag"
+): string[] {
+  if (groupBy === "tag") return memory.tags;
+  return memory.context ? [memory.context] : [];
+}
+
+function alignToBucket(timestamp: number, bucket: HistogramBucket): number {
+  if (bucket === "week") {
+    // Weeks start on Monday, 00:00 UTC
+    const day = alignToBucket(timestamp, "day");
+    const weekday = (new Date(day).getUTCDay() + 6) % 7;
+    return day - weekday * BUCKET_MS.day;
+  }
+  return timestamp - (timestamp % BUCKET_MS[bucket]);
+}
@@ -6,7 +6,9 @@ import clpMcpConfig from "./config"
 import console from "node:console"
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
-import { KnowledgeGraph, Entity, Relationship } from "./knowledge-graph.js"
+import { type Entity } from "./knowledge-graph.js"
+import { type MemoryEntry as StoredMemory } from "./memory/index.js"
+import { MemoryService } from "./memory/service.js"
 
 export interface MemoryEntry {
   key: string;
@@ -16,34 +18,28 @@ export interface MemoryEntry {
     updated: Date;
     tags?: string[];
     category?: string;
-    entityId?: string; // Link to knowledge graph entity
+    entities?: string[]; // Linked knowledge graph entities
   };
 }
 
 export class ClpMcpServer {
-  private _memory: Map<string, MemoryEntry> = new Map();
   private _contexts: Map<string, any> = new Map();
-  private _reasoning: Array<{ timestamp: Date; context: string; decision: string }> = [];
-  private _knowledgeGraph: KnowledgeGraph = new KnowledgeGraph();
+  private _service: MemoryService;
+
+  constructor(service: MemoryService = new MemoryService()) {
+    this._service = service;
+  }
+
+  public get service(): MemoryService {
+    return this._service;
+  }
 
   public store(key: string, value: any, tags?: string[], category?: string): {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const now = new Date();
-    const entry: MemoryEntry = {
-      key,
-      value,
-      metadata: {
-        created: this._memory.has(key) ? this._memory.get(key)!.metadata!.created : now,
-        updated: now,
-        tags,
-        category,
-      },
-    };
-    
-    this._memory.set(key, entry);
-    
+    this._service.setFact(key, value, { tags, category });
+
     return {
       content: [
         {
@@ -59,8 +55,8 @@ export class ClpMcpServer {
     isError?: boolean;
   } {
     if (key) {
-      const entry = this._memory.get(key);
-      if (!entry) {
+      const fact = this._service.getFact(key);
+      if (!fact) {
         return {
           content: [
             {
@@ -75,19 +71,15 @@ export class ClpMcpServer {
         content: [
           {
             type: "text" as const,
-            text: JSON.stringify(entry, null, 2),
+            text: JSON.stringify(this.toEntry(fact.memory), null, 2),
           }
         ]
       };
     }
-    
+
     // Return all memory
-    const allMemory = Array.from(this._memory.entries()).map(([k, v]) => ({
-      key: k,
-      value: v.value,
-      metadata: v.metadata,
-    }));
-    
+    const allMemory = this._service.listFacts().map((fact) => this.toEntry(fact.memory));
+
     return {
       content: [
         {
@@ -102,7 +94,7 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const deleted = this._memory.delete(key);
+    const deleted = this._service.deleteFact(key);
     return {
       content: [
         {
@@ -118,16 +110,8 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const results = Array.from(this._memory.entries())
-      .filter(([key, entry]) => {
-        const matchesQuery = key.includes(query) || 
-                            JSON.stringify(entry.value).includes(query) ||
-                            (entry.metadata?.tags?.some(tag => tag.includes(query)) ?? false);
-        const matchesCategory = !category || entry.metadata?.category === category;
-        return matchesQuery && matchesCategory;
-      })
-      .map(([k, v]) => ({ key: k, value: v.value, metadata: v.metadata }));
-    
+    const results = this._service.searchFacts(query, { category }).map((fact) => this.toEntry(fact.memory));
+
     return {
       content: [
         {
@@ -139,17 +123,17 @@ export class ClpMcpServer {
   }
 
   public addReasoning(context: string, decision: string): void {
-    this._reasoning.push({
-      timestamp: new Date(),
-      context,
-      decision,
-    });
+    this._service.addReasoning(context, decision);
   }
 
   public getReasoningHistory(limit: number = 10): {
     content: Array<{ type: string; text: string }>;
   } {
-    const recent = this._reasoning.slice(-limit);
+    const recent = this._service.getReasoningHistory(limit).map(({ timestamp, context, decision }) => ({
+      timestamp: new Date(timestamp),
+      context,
+      decision,
+    }));
     return {
       content: [
         {
@@ -181,7 +165,7 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const entity = this._knowledgeGraph.addEntity(type, properties, undefined, tags);
+    const entity = this._service.graph.addEntity(type, properties, undefined, tags);
     
     return {
       content: [
@@ -197,7 +181,7 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const entity = this._knowledgeGraph.getEntity(entityId);
+    const entity = this._service.graph.getEntity(entityId);
     
     if (!entity) {
       return {
@@ -231,7 +215,7 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const relationship = this._knowledgeGraph.addRelationship(
+    const relationship = this._service.graph.addRelationship(
       sourceId,
       targetId,
       relationshipType,
@@ -271,12 +255,12 @@ export class ClpMcpServer {
     let entities: Entity[];
 
     if (query) {
-      entities = this._knowledgeGraph.searchEntities(query, type, tags);
+      entities = this._service.graph.searchEntities(query, type, tags);
     } else if (type) {
-      entities = this._knowledgeGraph.getEntitiesByType(type);
+      entities = this._service.graph.getEntitiesByType(type);
     } else {
       // Return all entities (limited for performance)
-      const stats = this._knowledgeGraph.getStats();
+      const stats = this._service.graph.getStats();
       return {
         content: [
           {
@@ -301,7 +285,7 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const entity = this._knowledgeGraph.getEntity(entityId);
+    const entity = this._service.graph.getEntity(entityId);
     
     if (!entity) {
       return {
@@ -315,8 +299,8 @@ export class ClpMcpServer {
       };
     }
 
-    const related = this._knowledgeGraph.getRelatedEntities(entityId, relationshipType);
-    const relationships = this._knowledgeGraph.getEntityRelationships(entityId);
+    const related = this._service.graph.getRelatedEntities(entityId, relationshipType);
+    const relationships = this._service.graph.getEntityRelationships(entityId);
 
     return {
       content: [
@@ -346,7 +330,7 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const result = this._knowledgeGraph.findPaths(sourceId, targetId, maxDepth || 5);
+    const result = this._service.graph.findPaths(sourceId, targetId, maxDepth || 5);
 
     if (result.entities.length === 0) {
       return {
@@ -378,7 +362,7 @@ export class ClpMcpServer {
   public getGraphStats(): {
     content: Array<{ type: string; text: string }>;
   } {
-    const stats = this._knowledgeGraph.getStats();
+    const stats = this._service.graph.getStats();
     
     return {
       content: [
@@ -393,7 +377,7 @@ export class ClpMcpServer {
   public exportGraph(): {
     content: Array<{ type: string; text: string }>;
   } {
-    const graph = this._knowledgeGraph.exportGraph();
+    const graph = this._service.graph.exportGraph();
     
     return {
       content: [
@@ -409,10 +393,9 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const memoryEntry = this._memory.get(key);
-    const entity = this._knowledgeGraph.getEntity(entityId);
+    const memory = this._service.resolve(key);
 
-    if (!memoryEntry) {
+    if (!memory) {
       return {
         content: [
           {
@@ -424,34 +407,24 @@ export class ClpMcpServer {
       };
     }
 
-    if (!entity) {
+    const linked = this._service.linkMemoryToEntity(memory.id, entityId);
+    if ("error" in linked) {
       return {
         content: [
           {
             type: "text" as const,
-            text: `Entity not found: ${entityId}`,
+            text: linked.error,
           }
         ],
         isError: true,
       };
     }
 
-    // Update memory entry to link to entity
-    if (memoryEntry.metadata) {
-      memoryEntry.metadata.entityId = entityId;
-    } else {
-      memoryEntry.metadata = {
-        created: new Date(),
-        updated: new Date(),
-        entityId,
-      };
-    }
-
     return {
       content: [
         {
           type: "text" as const,
-          text: `Linked memory key "${key}" to entity ${entityId} (${entity.type})`,
+          text: `Linked memory key "${key}" to entity ${entityId} (${linked.entity.type})`,
         }
       ]
     };
@@ -461,7 +434,7 @@ export class ClpMcpServer {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   } {
-    const entity = this._knowledgeGraph.getEntity(entityId);
+    const entity = this._service.graph.getEntity(entityId);
     
     if (!entity) {
       return {
@@ -475,9 +448,7 @@ export class ClpMcpServer {
       };
     }
 
-    const linkedMemory = Array.from(this._memory.entries())
-      .filter(([_, entry]) => entry.metadata?.entityId === entityId)
-      .map(([key, entry]) => ({ key, value: entry.value, metadata: entry.metadata }));
+    const linkedMemory = this._service.getMemoriesByEntity(entityId).map((memory) => this.toEntry(memory));
 
     return {
       content: [
@@ -488,7 +459,27 @@ export class ClpMcpServer {
       ]
     };
   }
+
+  /**
+   * A memory from the service in this server's key/value shape. Memories
+   * that are not facts are keyed by their ID.
+   */
+  private toEntry(memory: StoredMemory): MemoryEntry {
+    const isFact = memory.metadata.kind === "fact";
+    return {
+      key: isFact ? String(memory.metadata.key) : memory.id,
+      value: isFact ? memory.metadata.value : memory.content,
+      metadata: {
+        created: new Date(memory.timestamp),
+        updated: new Date(this._service.memory.getHistory(memory.id).at(-1)?.timestamp ?? memory.timestamp),
+        tags: memory.tags,
+        category: memory.context,
+        entities: memory.metadata.entities,
+      },
+    };
+  }
 }
+
 export default function createStatelessServer({
   config,
 }: {
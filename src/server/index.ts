@@ -1,9 +1,32 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { McpServer, ResourceTemplate, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js"
 import console from "node:console"
+import os from "node:os"
+import { join } from "node:path"
 import process from "node:process"
 import { } from "@smithery/sdk"
-import {z} from "zod"
-import { LongTermMemory, MemoryEntrySchema } from "../memory/index.js"
+import {z, type ZodRawShape} from "zod"
+import { LongTermMemory, MemoryEntrySchema, type ImportReport, type RecallPage } from "../memory/index.js"
+import { MemoryPersistence } from "../memory/persistence.js"
+import { createEmbedder } from "../memory/embedding.js"
+import { RetentionPolicySchema } from "../memory/retention.js"
+import { NamespaceResolver, readProjectProfile } from "../memory/namespace.js"
+import { QueryError } from "../memory/query.js"
+import { parseMemories, readLines, serializeMemories, writeChunks } from "../memory/formats.js"
+import { ExtractiveSummarizer, SamplingSummarizer } from "../memory/consolidation.js"
+import { MemoryService } from "../memory/service.js"
+import { KnowledgeGraph, type Entity, type GraphQueryResult, type Relationship } from "../knowledge-graph.js"
+import { GraphQueryError } from "../graph-query.js"
+import { MAX_PATH_DEPTH } from "../graph-paths.js"
+import { DEFAULT_DEPENDENCY_TYPES, criticalityLabel, entityName, impactMermaid, type ImpactReport } from "../graph-impact.js"
+import { GraphPersistence } from "../knowledge-graph-persistence.js"
+import { adrDirectory, type DecisionRecord } from "../memory/decisions.js"
+import { parseTime } from "../memory/timeline.js"
+import { SecretError, createSecretScanner, type Redaction } from "../memory/secrets.js"
+import { EncryptionError, loadContentCipher, loadKeyring } from "../memory/encryption.js"
+import { ImportanceScorer, explainScore } from "../memory/scoring.js"
+import { SharedDirectorySync, type SyncReport } from "../memory/sync.js"
+import { ResourceSubscriptions } from "./subscriptions.js"
+import clpMcpConfig from "../config.js"
 
 export class ClpMcp {
   readonly name: string = "clp-mcp"
@@ -13,9 +36,7 @@ export class ClpMcp {
   readonly websiteUrl: string = "pecunies.com"
 }
 
-export const configSchema = z.object({
-  debug: z.boolean().default(false),
-})
+export const configSchema = clpMcpConfig
 
 export default function serve({ config, }: { config: z.infer<typeof configSchema>; } ) {
   // If you want to support SSE, you can check for the --sse flag
@@ -36,98 +57,150 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
   });
 
   // Initialize long-term memory system
-  const memory = new LongTermMemory();
-
-  // Add a tool
-  mcp.registerTool(
-    "memory_store",
-    {
-      title: "Store in Memory",
-      description: "Store a key-value pair in memory with optional tags and category",
-      inputSchema: {
-        key: z.string().describe("The key to store"),
-        value: z.any().describe("The value to store"),
-        tags: z.array(z.string()).optional().describe("Tags for categorization"),
-        category: z.string().optional().describe("Category (e.g., jenkins, ansible, terraform, kubernetes, docker)"),
-      },
-    },
-    ({ key, value, tags, category }: { key: string; value: any; tags?: string[]; category?: string }) => 
-      memory.store(key, value, tags, category)
-  );
-
-  mcp.registerTool(
-    "memory_recall",
-    {
-      title: "Recall from Memory",
-      description: "Recall a specific key or all memory contents",
-      inputSchema: {
-        key: z.string().optional().describe("The key to recall (omit for all memory)"),
-      },
-    },
-    ({ key }: { key?: string }) => memory.recall(key)
-  );
-
-  mcp.registerTool(
-    "memory_delete",
-    {
-      title: "Delete from Memory",
-      description: "Delete a key from memory",
-      inputSchema: {
-        key: z.string().describe("The key to delete"),
-      },
-    },
-    ({ key }: { key: string }) => memory.delete(key)
-  );
+  const keyring = loadKeyring({
+    keyEnv: config.memory?.encryptionKeyEnv ?? "CLP_MEMORY_KEY",
+    keyFile: config.memory?.encryptionKeyFile,
+    previousKeyFiles: config.memory?.previousKeyFiles,
+  });
+  const memory = new LongTermMemory({
+    persistence: config.memory?.storageDir
+      ? new MemoryPersistence({
+          directory: config.memory.storageDir,
+          snapshotEvery: config.memory.snapshotEvery,
+        })
+      : undefined,
+    embedder: createEmbedder({
+      embedder: config.memory?.embedder,
+      embeddingModel: config.memory?.embeddingModel,
+    }),
+    semanticWeight: config.memory?.semanticWeight,
+    retention: config.memory?.retention,
+    dedupeThreshold: config.memory?.dedupeThreshold,
+    relatedThreshold: config.memory?.relatedThreshold,
+    secrets: createSecretScanner(config.memory?.secrets, keyring),
+    keyring,
+    scorer: new ImportanceScorer(config.memory?.scoring),
+    instanceId: config.memory?.sync?.instanceId ?? os.hostname().replace(/[^A-Za-z0-9._-]/g, "-"),
+  });
+  const sync = config.memory?.sync ? new SharedDirectorySync(memory, { directory: config.memory.sync.directory }) : undefined;
+  const graphDir = config.graph?.storageDir ?? (config.memory?.storageDir ? join(config.memory.storageDir, "graph") : undefined);
+  const graph = new KnowledgeGraph({
+    persistence: graphDir
+      ? new GraphPersistence({ directory: graphDir, snapshotEvery: config.graph?.snapshotEvery })
+      : undefined,
+  });
+  // Facts, reasoning steps and knowledge graph links share the same store
+  const service = new MemoryService(memory, graph);
+  const namespaces = new NamespaceResolver({
+    mode: config.memory?.namespaceFrom,
+    projectRoot: config.memory?.projectRoot,
+  });
 
-  mcp.registerTool(
-    "memory_search",
-    {
-      title: "Search Memory",
-      description: "Search memory by query string and optional category",
-      inputSchema: {
-        query: z.string().describe("Search query"),
-        category: z.string().optional().describe("Category to filter by"),
-      },
-    },
-    ({ query, category }: { query: string; category?: string }) => 
-      memory.search(query, category)
-  );
+  // Notify resource subscribers when memory changes
+  const subscriptions = new ResourceSubscriptions(mcp.server, config.memory?.notifyDebounceMs);
+  subscriptions.register();
+  const stopWatching = subscriptions.watch(memory);
+  mcp.server.onclose = stopWatching;
+
+  // Register a tool under its current name and the older names clients
+  // may still call
+  const registerToolWithAliases = <Args extends ZodRawShape>(
+    name: string,
+    aliases: string[],
+    config: { title: string; description: string; inputSchema: Args },
+    handler: ToolCallback<Args>
+  ) => {
+    mcp.registerTool(name, config, handler);
+    aliases.forEach((alias) =>
+      mcp.registerTool(alias, { ...config, description: `${config.description}. Alias of ${name}` }, handler)
+    );
+  };
 
   // Memory Tools
   mcp.registerTool(
     "memory_store",
     {
       title: "Store Memory",
-      description: "Store a new memory with optional context, tags, importance, and metadata",
-      outputSchema: {
-        content: z.array(
-          z.object({
-            type: z.literal("text"),
-            text: z.string().describe("The stored memory details"),
-          }),
-        ),
-      },
+      description: "Store a new memory with optional context, tags, importance, and metadata, or a key/value fact when `key` is given. Storing an existing key updates its fact",
       inputSchema: {
-        content: z.string().describe("The content to store in memory"),
+        content: z.string().optional().describe("The content to store in memory"),
+        key: z.string().optional().describe("Store a key/value fact under this key instead of free-form content"),
+        value: z.any().optional().describe("The fact's value (with `key`)"),
         context: z.string().optional().describe("Context or category for the memory"),
+        category: z.string().optional().describe("Alias of `context` (e.g., jenkins, ansible, terraform, kubernetes, docker)"),
         tags: z.array(z.string()).optional().describe("Tags for categorization"),
         importance: z.number().min(0).max(1).optional().describe("Importance score (0-1)"),
         metadata: z.record(z.any()).optional().describe("Additional metadata"),
+        ttlSeconds: z.number().positive().optional().describe("Expire the memory after this many seconds"),
+        namespace: z.string().optional().describe("Namespace to store in (defaults to the active project or session)"),
+        dedupe: z.boolean().default(true).describe("Merge into an existing near-duplicate memory instead of storing a copy"),
+        sensitive: z.boolean().optional().describe("Encrypt the content at rest and keep it out of search (needs an encryption key)"),
       },
     },
-    ({ content, context, tags, importance, metadata }) => {
-      const storedMemory = memory.store({
-        content,
-        context,
-        tags,
-        importance,
-        metadata,
-      });
+    ({ content, key, value, context, category, tags, importance, metadata, ttlSeconds, namespace, dedupe, sensitive }, extra) => {
+      if (key !== undefined) {
+        let result: ReturnType<typeof service.setFact>;
+        try {
+          result = service.setFact(key, value ?? content ?? null, {
+            tags,
+            category: context ?? category,
+            namespace: namespace ?? namespaces.resolve(extra.sessionId),
+            author: extra.sessionId,
+          });
+        } catch (error) {
+          if (!(error instanceof SecretError)) throw error;
+          return { content: [{ type: "text", text: error.message }], isError: true };
+        }
+        const { fact, created } = result;
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${created ? "Stored" : "Updated"}: ${fact.key} = ${JSON.stringify(fact.value)}\n\nID: ${fact.memory.id}\nNamespace: ${fact.memory.namespace}${describeRedactions(fact.memory.metadata.redactions)}`,
+            },
+          ],
+        };
+      }
+      if (content === undefined) {
+        return {
+          content: [{ type: "text", text: "Provide either `content` or a `key` and `value`" }],
+          isError: true,
+        };
+      }
+
+      let stored: ReturnType<typeof memory.storeOrMerge>;
+      try {
+        stored = memory.storeOrMerge({
+          content,
+          context: context ?? category,
+          tags,
+          importance,
+          metadata,
+          ttl: ttlSeconds !== undefined ? ttlSeconds * 1000 : undefined,
+          namespace: namespace ?? namespaces.resolve(extra.sessionId),
+          dedupe,
+          sensitive,
+        });
+      } catch (error) {
+        if (!(error instanceof SecretError || error instanceof EncryptionError)) throw error;
+        return { content: [{ type: "text", text: error.message }], isError: true };
+      }
+      const { memory: storedMemory, merged } = stored;
+      if (merged) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Merged into existing memory (similarity ${merged.similarity.toFixed(2)})\n\nID: ${storedMemory.id}\nNamespace: ${storedMemory.namespace}\nContent: ${storedMemory.sensitive ? "[encrypted]" : storedMemory.content}\nTags added: ${merged.addedTags.join(", ") || "None"}\nImportance: ${merged.importance.before} -> ${merged.importance.after}`,
+            },
+          ],
+        };
+      }
       return {
         content: [
           {
             type: "text",
-            text: `Memory stored successfully!\n\nID: ${storedMemory.id}\nContent: ${storedMemory.content}\nContext: ${storedMemory.context || "None"}\nTags: ${storedMemory.tags.join(", ") || "None"}\nImportance: ${storedMemory.importance}\nTimestamp: ${new Date(storedMemory.timestamp).toISOString()}`,
+            text: `Memory stored successfully!\n\nID: ${storedMemory.id}\nNamespace: ${storedMemory.namespace}\nContent: ${storedMemory.sensitive ? "[encrypted]" : storedMemory.content}\nContext: ${storedMemory.context || "None"}\nTags: ${storedMemory.tags.join(", ") || "None"}\nImportance: ${storedMemory.importance}\nTimestamp: ${new Date(storedMemory.timestamp).toISOString()}${describeRedactions(storedMemory.metadata.redactions)}`,
           },
         ],
       };
@@ -135,19 +208,54 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
   );
 
   mcp.registerTool(
-    "add_reasoning",
+    "memory_delete",
+    {
+      title: "Delete Memory",
+      description: "Delete a memory by ID, or a fact by key",
+      inputSchema: {
+        id: z.string().optional().describe("ID of the memory to delete"),
+        key: z.string().optional().describe("Key of the fact to delete"),
+        namespace: z.string().optional().describe("Namespace the fact is in (defaults to the active project or session)"),
+      },
+    },
+    ({ id, key, namespace }, extra) => {
+      if (id === undefined && key === undefined) {
+        return {
+          content: [{ type: "text", text: "Provide the `id` of a memory or the `key` of a fact" }],
+          isError: true,
+        };
+      }
+      const deleted =
+        id !== undefined
+          ? memory.delete(id)
+          : service.deleteFact(key!, namespace ?? namespaces.resolve(extra.sessionId));
+      const target = id !== undefined ? `memory ${id}` : `key ${key}`;
+      return {
+        content: [{ type: "text", text: deleted ? `Deleted ${target}` : `Not found: ${target}` }],
+        isError: !deleted,
+      };
+    }
+  );
+
+  registerToolWithAliases(
+    "memory_reason",
+    ["add_reasoning"],
     {
-      title: "Add Reasoning",
-      description: "Record a reasoning step with context and decision",
+      title: "Record Reasoning",
+      description: "Record a reasoning step with context and decision. It is kept as an accepted decision record",
       inputSchema: {
         context: z.string().describe("The context or problem being considered"),
         decision: z.string().describe("The decision or conclusion reached"),
+        namespace: z.string().optional().describe("Namespace to store in (defaults to the active project or session)"),
       },
     },
-    ({ context, decision }: { context: string; decision: string }) => {
-      memory.addReasoning(context, decision);
+    ({ context, decision, namespace }, extra) => {
+      const step = service.addReasoning(context, decision, {
+        namespace: namespace ?? namespaces.resolve(extra.sessionId),
+        author: extra.sessionId,
+      });
       return {
-        content: [{ type: "text" as const, text: "Reasoning recorded" }]
+        content: [{ type: "text", text: `Reasoning recorded as decision ${step.number}: ${step.id}` }],
       };
     }
   );
@@ -156,31 +264,71 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
     "memory_recall",
     {
       title: "Recall Memories",
-      description: "Recall memories based on various criteria including query, context, tags, importance, and time range",
-      outputSchema: {
-        content: z.array(
-          z.object({
-            type: z.literal("text"),
-            text: z.string().describe("The recalled memories"),
-          }),
-        ),
-      },
+      description: "Recall memories based on various criteria including query, context, tags, importance, and time range. Queries are ranked by a blend of semantic and lexical relevance. Pass `key` to recall a single fact",
       inputSchema: {
         query: z.string().optional().describe("Search query for full-text search"),
+        key: z.string().optional().describe("Recall the fact stored under this key"),
         context: z.string().optional().describe("Filter by context"),
         tags: z.array(z.string()).optional().describe("Filter by tags"),
         limit: z.number().optional().describe("Maximum number of results (default: 10)"),
         minImportance: z.number().min(0).max(1).optional().describe("Minimum importance score"),
+        includeArchived: z.boolean().optional().describe("Include archived and expired memories"),
+        namespace: z.string().optional().describe("Namespace to recall from (defaults to the active project or session)"),
+        namespaces: z.union([z.array(z.string()), z.literal("*")]).optional().describe("Search across these namespaces, or \"*\" for all"),
+        where: z.string().optional().describe("Filter expression, e.g. `security AND NOT deprecated AND metadata.env = prod AND importance > 0.8`"),
+        sort: z.string().optional().describe("Sort keys, e.g. `importance desc, timestamp` (default: relevance for queries, otherwise recency and importance)"),
+        cursor: z.string().optional().describe("Cursor from a previous page of results"),
+        decrypt: z.boolean().default(false).describe("Show sensitive content and encrypted secrets decrypted"),
       },
     },
-    ({ query, context, tags, limit, minImportance }) => {
-      const memories = memory.recall({
-        query,
-        context,
-        tags,
-        limit,
-        minImportance,
-      });
+    async ({ query, key, context, tags, limit, minImportance, includeArchived, namespace, namespaces: scope, where, sort, cursor, decrypt }, extra) => {
+      if (key !== undefined) {
+        const fact = service.getFact(key, namespace ?? namespaces.resolve(extra.sessionId));
+        if (!fact) {
+          return {
+            content: [{ type: "text", text: `Key not found: ${key}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ key: fact.key, value: fact.value, id: fact.memory.id, category: fact.memory.context, tags: fact.memory.tags, entities: fact.memory.metadata.entities }, null, 2),
+            },
+          ],
+        };
+      }
+
+      let page: RecallPage;
+      try {
+        page = await memory.recallPageAsync({
+          query,
+          context,
+          tags,
+          limit,
+          minImportance,
+          includeArchived,
+          namespace: namespace ?? namespaces.resolve(extra.sessionId),
+          namespaces: scope,
+          where,
+          sort,
+          cursor,
+        });
+      } catch (error) {
+        if (!(error instanceof QueryError)) throw error;
+        return {
+          content: [{ type: "text", text: `Invalid query: ${error.message}` }],
+          isError: true,
+        };
+      }
+      let memories = page.memories;
+      try {
+        if (decrypt) memories = memories.map((m) => memory.decrypt(m));
+      } catch (error) {
+        if (!(error instanceof EncryptionError)) throw error;
+        return { content: [{ type: "text", text: `Cannot decrypt: ${error.message}` }], isError: true };
+      }
 
       if (memories.length === 0) {
         return {
@@ -196,7 +344,7 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
       const memoriesText = memories
         .map(
           (m, i) =>
-            `${i + 1}. [${new Date(m.timestamp).toISOString()}]\n   ID: ${m.id}\n   Content: ${m.content}\n   Context: ${m.context || "None"}\n   Tags: ${m.tags.join(", ") || "None"}\n   Importance: ${m.importance}\n   Access Count: ${m.accessCount}\n   Related: ${m.relatedMemories.length} memories`
+            `${i + 1}. [${new Date(m.timestamp).toISOString()}]\n   ID: ${m.id}\n   Namespace: ${m.namespace}\n   Content: ${m.sensitive && !decrypt ? "[encrypted]" : m.content}\n   Context: ${m.context || "None"}\n   Tags: ${m.tags.join(", ") || "None"}\n   Importance: ${m.importance}\n   Access Count: ${m.accessCount}\n   Related: ${m.relatedMemories.length} memories`
         )
         .join("\n\n");
 
@@ -204,7 +352,7 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
         content: [
           {
             type: "text",
-            text: `Found ${memories.length} memories:\n\n${memoriesText}`,
+            text: `Found ${memories.length} memories:\n\n${memoriesText}${page.nextCursor ? `\n\nNext cursor: ${page.nextCursor}` : ""}`,
           },
         ],
       };
@@ -215,22 +363,24 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
     "memory_search",
     {
       title: "Search Memories",
-      description: "Search memories with full-text search",
-      outputSchema: {
-        content: z.array(
-          z.object({
-            type: z.literal("text"),
-            text: z.string().describe("Search results"),
-          }),
-        ),
-      },
+      description: "Search memories with semantic and full-text search",
       inputSchema: {
         query: z.string().describe("Search query"),
+        category: z.string().optional().describe("Only search memories and facts in this context"),
         limit: z.number().optional().describe("Maximum number of results (default: 10)"),
+        namespace: z.string().optional().describe("Namespace to search (defaults to the active project or session)"),
+        namespaces: z.union([z.array(z.string()), z.literal("*")]).optional().describe("Search across these namespaces, or \"*\" for all"),
       },
     },
-    ({ query, limit }) => {
-      const results = memory.search(query, limit);
+    async ({ query, category, limit, namespace, namespaces: scope }, extra) => {
+      const results = await memory.recallAsync({
+        query,
+        context: category,
+        limit,
+        includeArchived: true,
+        namespace: namespace ?? namespaces.resolve(extra.sessionId),
+        namespaces: scope,
+      });
 
       if (results.length === 0) {
         return {
@@ -246,7 +396,7 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
       const resultsText = results
         .map(
           (m, i) =>
-            `${i + 1}. ${m.content}\n   [${new Date(m.timestamp).toISOString()}] - Importance: ${m.importance}`
+            `${i + 1}. ${m.archivedAt !== undefined ? "[archived] " : ""}${m.sensitive ? "[encrypted]" : m.content}\n   [${new Date(m.timestamp).toISOString()}] - Importance: ${m.importance}`
         )
         .join("\n\n");
 
@@ -266,20 +416,13 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
     {
       title: "Get Recent Memories",
       description: "Get the most recent memories",
-      outputSchema: {
-        content: z.array(
-          z.object({
-            type: z.literal("text"),
-            text: z.string().describe("Recent memories"),
-          }),
-        ),
-      },
       inputSchema: {
         limit: z.number().optional().describe("Maximum number of results (default: 10)"),
+        namespace: z.string().optional().describe("Namespace to read from (defaults to the active project or session)"),
       },
     },
-    ({ limit }) => {
-      const recent = memory.getRecent(limit);
+    ({ limit, namespace }, extra) => {
+      const recent = memory.getRecent(limit, namespace ?? namespaces.resolve(extra.sessionId));
 
       if (recent.length === 0) {
         return {
@@ -294,8 +437,10 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
 
       const recentText = recent
         .map(
-          (m, i) =>
-            `${i + 1}. [${new Date(m.timestamp).toISOString()}] ${m.content.substring(0, 100)}${m.content.length > 100 ? "..." : ""}`
+          (m, i) => {
+            const content = m.sensitive ? "[encrypted]" : m.content;
+            return `${i + 1}. [${new Date(m.timestamp).toISOString()}] ${content.substring(0, 100)}${content.length > 100 ? "..." : ""}`;
+          }
         )
         .join("\n");
 
@@ -315,21 +460,14 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
     {
       title: "Get Important Memories",
       description: "Get the most important memories",
-      outputSchema: {
-        content: z.array(
-          z.object({
-            type: z.literal("text"),
-            text: z.string().describe("Important memories"),
-          }),
-        ),
-      },
       inputSchema: {
         minImportance: z.number().min(0).max(1).optional().describe("Minimum importance (default: 0.7)"),
         limit: z.number().optional().describe("Maximum number of results (default: 10)"),
+        namespace: z.string().optional().describe("Namespace to read from (defaults to the active project or session)"),
       },
     },
-    ({ minImportance, limit }) => {
-      const important = memory.getImportant(minImportance, limit);
+    ({ minImportance, limit, namespace }, extra) => {
+      const important = memory.getImportant(minImportance, limit, namespace ?? namespaces.resolve(extra.sessionId));
 
       if (important.length === 0) {
         return {
@@ -345,7 +483,7 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
       const importantText = important
         .map(
           (m, i) =>
-            `${i + 1}. [Importance: ${m.importance}] ${m.content}\n   ${new Date(m.timestamp).toISOString()}`
+            `${i + 1}. [Importance: ${m.importance}] ${m.sensitive ? "[encrypted]" : m.content}\n   ${new Date(m.timestamp).toISOString()}`
         )
         .join("\n\n");
 
@@ -365,14 +503,6 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
     {
       title: "Memory Statistics",
       description: "Get statistics about the memory system",
-      outputSchema: {
-        content: z.array(
-          z.object({
-            type: z.literal("text"),
-            text: z.string().describe("Memory statistics"),
-          }),
-        ),
-      },
       inputSchema: {},
     },
     () => {
@@ -384,12 +514,20 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
         `Total Contexts: ${stats.totalContexts}`,
         `Total Tags: ${stats.totalTags}`,
         `Average Importance: ${stats.avgImportance.toFixed(2)}`,
+        `Archived Memories: ${stats.archivedMemories}`,
+        `Expired Memories: ${stats.expiredMemories}`,
         stats.oldestMemory
           ? `Oldest Memory: ${new Date(stats.oldestMemory).toISOString()}`
           : "Oldest Memory: N/A",
         stats.newestMemory
           ? `Newest Memory: ${new Date(stats.newestMemory).toISOString()}`
           : "Newest Memory: N/A",
+        "",
+        "Namespaces:",
+        ...Object.entries(stats.namespaces).map(
+          ([name, ns]) =>
+            `- ${name}: ${ns.totalMemories} memories, ${ns.totalContexts} contexts, ${ns.totalTags} tags, avg importance ${ns.avgImportance.toFixed(2)}`
+        ),
       ].join("\n");
 
       return {
@@ -407,21 +545,39 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
     "memory_consolidate",
     {
       title: "Consolidate Memories",
-      description: "Analyze memories to identify patterns and generate summaries",
-      outputSchema: {
-        content: z.array(
-          z.object({
-            type: z.literal("text"),
-            text: z.string().describe("Consolidation results"),
-          }),
-        ),
-      },
+      description: "Cluster related memories by context, tags and content, and write a summary memory for each cluster that links back to its sources. Summaries use the client's model via sampling when available, otherwise extractive summarization",
       inputSchema: {
         context: z.string().optional().describe("Consolidate memories for a specific context"),
+        namespace: z.string().optional().describe("Namespace to consolidate (defaults to the active project or session)"),
+        minClusterSize: z.number().int().min(2).optional().describe("Smallest cluster that gets a summary (default: 3)"),
+        threshold: z.number().min(0).max(1).optional().describe("Similarity needed to join a cluster (default: 0.5)"),
+        demote: z.enum(["none", "lower", "archive"]).default("none").describe("Halve the originals' importance or archive them once summarized"),
+        summarizer: z.enum(["auto", "extractive", "sampling"]).default("auto").describe("How to write summaries (auto uses sampling when the client supports it)"),
+        dryRun: z.boolean().default(false).describe("Report clusters and summaries without storing anything"),
       },
     },
-    ({ context }) => {
-      const result = memory.consolidate(context);
+    async ({ context, namespace, minClusterSize, threshold, demote, summarizer, dryRun }, extra) => {
+      const canSample = !!mcp.server.getClientCapabilities()?.sampling;
+      if (summarizer === "sampling" && !canSample) {
+        return {
+          content: [{ type: "text", text: "The client does not support sampling." }],
+          isError: true,
+        };
+      }
+
+      const result = await memory.consolidate({
+        context,
+        namespace: namespace ?? namespaces.resolve(extra.sessionId),
+        minClusterSize,
+        threshold,
+        demote,
+        dryRun,
+        author: extra.sessionId,
+        summarizer:
+          summarizer !== "extractive" && canSample
+            ? new SamplingSummarizer((request) => mcp.server.createMessage(request))
+            : new ExtractiveSummarizer(),
+      });
 
       const patternsText =
         result.patterns.length > 0
@@ -430,13 +586,28 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
               .join("\n")
           : "No patterns found";
 
+      const clustersText =
+        result.clusters.length > 0
+          ? result.clusters
+              .map(
+                (c, i) =>
+                  `${i + 1}. ${c.label} (${c.memoryIds.length} memories)${c.summaryId ? `\n   Summary ID: ${c.summaryId}` : ""}\n   Sources: ${c.memoryIds.join(", ")}\n   ${c.summary}`
+              )
+              .join("\n\n")
+          : "No clusters large enough to summarize";
+
       const consolidationText = [
-        "Memory Consolidation Results:",
+        result.dryRun ? "Memory Consolidation Dry Run:" : "Memory Consolidation Results:",
+        "",
+        `Scanned: ${result.scanned}`,
+        `Summarizer: ${result.summarizer}`,
+        `Demoted: ${result.demoted.length}`,
         "",
         "Patterns:",
         patternsText,
         "",
-        result.summary,
+        "Clusters:",
+        clustersText,
       ].join("\n");
 
       return {
@@ -449,85 +620,1106 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
       };
     }
   );
-  // Memory Resources
-  mcp.registerResource(
-    "all_memories",
-    "memory://all",
+  mcp.registerTool(
+    "memory_update",
     {
-      title: "All Memories",
-      description: "Access all stored memories",
+      title: "Update Memory",
+      description: "Update an existing memory. Every change is kept in the memory's revision history",
+      inputSchema: {
+        id: z.string().describe("ID of the memory to update"),
+        content: z.string().optional().describe("New content"),
+        context: z.string().optional().describe("New context"),
+        tags: z.array(z.string()).optional().describe("New tags (replaces existing tags)"),
+        importance: z.number().min(0).max(1).optional().describe("New importance score (0-1)"),
+        metadata: z.record(z.any()).optional().describe("New metadata (replaces existing metadata)"),
+        sensitive: z.boolean().optional().describe("Encrypt the content at rest, or decrypt it back into search"),
+        author: z.string().optional().describe("Who is making the change (defaults to the MCP session)"),
+      },
     },
-    (uri) => {
-      const allMemories = memory.export();
+    ({ id, author, ...fields }, extra) => {
+      const updates = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      );
+      let updated: ReturnType<typeof memory.update>;
+      try {
+        updated = memory.update(id, updates, { author: author ?? extra.sessionId });
+      } catch (error) {
+        if (!(error instanceof SecretError || error instanceof EncryptionError)) throw error;
+        return { content: [{ type: "text", text: error.message }], isError: true };
+      }
+
+      if (!updated) {
+        return {
+          content: [{ type: "text", text: `Memory not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const latest = memory.getHistory(id).at(-1);
       return {
-        contents: [
+        content: [
           {
-            uri: uri.href,
-            text: JSON.stringify(allMemories, null, 2),
-            mimeType: "application/json",
+            type: "text",
+            text: `Memory updated: ${id}\nRevision: ${latest?.revision ?? "unchanged"}\nChanged: ${latest?.changes.join(", ") || "nothing"}${describeRedactions(updated.metadata.redactions)}`,
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_feedback",
+    {
+      title: "Memory Feedback",
+      description: "Mark a memory as useful, wrong or outdated. Feedback feeds the automatic importance score, which also weighs access frequency, co-recall with important memories and content signals",
+      inputSchema: {
+        id: z.string().describe("ID of the memory"),
+        feedback: z.enum(["useful", "wrong", "outdated"]).describe("How the memory held up"),
+        note: z.string().optional().describe("Why, kept in the score history"),
+      },
+    },
+    ({ id, feedback, note }) => {
+      const result = memory.feedback(id, feedback, { note });
+      if (!result) {
+        return {
+          content: [{ type: "text", text: `Memory not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Recorded "${feedback}" for ${id}\nImportance: ${result.previous} -> ${result.score.importance}\n${explainScore([result.score])[0]}`,
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_score",
+    {
+      title: "Explain Memory Score",
+      description: "Show how a memory's importance was scored over time: base importance, feedback, access, co-recall and content signals",
+      inputSchema: {
+        id: z.string().describe("ID of the memory"),
+      },
+    },
+    ({ id }) => {
+      const entry = memory.get(id);
+      if (!entry) {
+        return {
+          content: [{ type: "text", text: `Memory not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const counts = entry.feedback ?? { useful: 0, wrong: 0, outdated: 0 };
+      const lines = explainScore(entry.scoreHistory || []);
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `Importance: ${entry.importance}`,
+              `Feedback: ${counts.useful} useful, ${counts.wrong} wrong, ${counts.outdated} outdated`,
+              `Accesses: ${entry.accessCount}, co-recalls: ${entry.coRecalls ?? 0}`,
+              "",
+              lines.length > 0 ? `Score history:\n${lines.join("\n")}` : "Not scored yet",
+            ].join("\n"),
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_related",
+    {
+      title: "Related Memories",
+      description: "Walk the related-memory graph from a memory to a given depth. Links are weighted by content, context and tag overlap, and a path scores the product of its link weights",
+      inputSchema: {
+        id: z.string().describe("ID of the memory to start from"),
+        depth: z.number().int().min(1).max(5).optional().default(2).describe("Links to follow"),
+        minScore: z.number().min(0).max(1).optional().describe("Skip links weighted below this"),
+        minPathScore: z.number().min(0).max(1).optional().describe("Stop at paths scoring below this"),
+        limit: z.number().int().positive().optional().default(20).describe("Maximum memories to return"),
+        includeArchived: z.boolean().optional().default(false).describe("Follow links into the archive tier"),
+      },
+    },
+    ({ id, depth, minScore, minPathScore, limit, includeArchived }) => {
+      const related = memory.related(id, { depth, minScore, minPathScore, limit, includeArchived });
+      if (!related) {
+        return {
+          content: [{ type: "text", text: `Memory not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const lines = related.map(
+        (r, i) =>
+          `${i + 1}. ${r.memory.id} (depth ${r.depth}, score ${r.score})\n   Content: ${r.memory.sensitive ? "[encrypted]" : r.memory.content}\n   Path: ${r.path.join(" -> ")}`
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: related.length > 0
+              ? `Found ${related.length} related memories within depth ${depth}:\n\n${lines.join("\n\n")}`
+              : `No related memories within depth ${depth}`,
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_history",
+    {
+      title: "Memory History",
+      description: "List the revisions of a memory, or show the diff between two revisions",
+      inputSchema: {
+        id: z.string().describe("Memory ID"),
+        from: z.number().int().optional().describe("Revision to diff from (defaults to the previous revision)"),
+        to: z.number().int().optional().describe("Revision to diff to (defaults to the latest revision)"),
+      },
+    },
+    ({ id, from, to }) => {
+      const revisions = memory.getHistory(id);
+      if (revisions.length === 0) {
+        return {
+          content: [{ type: "text", text: `No history found for memory: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const revisionsText = revisions
+        .map(
+          (r) =>
+            `r${r.revision} [${new Date(r.timestamp).toISOString()}] ${r.action}${r.revertedTo ? ` to r${r.revertedTo}` : ""} by ${r.author || "unknown"}: ${r.changes.join(", ")}`
+        )
+        .join("\n");
+
+      const toRevision = to ?? revisions[revisions.length - 1]!.revision;
+      const fromRevision = from ?? toRevision - 1;
+      const diff = memory.diffRevisions(id, fromRevision, toRevision);
+      const sealed = revisions.some(
+        (r) => (r.revision === fromRevision || r.revision === toRevision) && r.snapshot.sensitive
+      );
+
+      const diffText = diff
+        ? [
+            `Diff r${diff.from} -> r${diff.to}:`,
+            ...diff.fields
+              .filter((f) => f.field !== "content")
+              .map((f) => `${f.field}: ${JSON.stringify(f.before)} -> ${JSON.stringify(f.after)}`),
+            "content:",
+            ...(sealed ? ["[encrypted]"] : diff.contentDiff),
+          ].join("\n")
+        : `No diff available between r${fromRevision} and r${toRevision}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Revisions of ${id}:\n\n${revisionsText}\n\n${diffText}`,
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_revert",
+    {
+      title: "Revert Memory",
+      description: "Restore a memory to an earlier revision. The revert is recorded as a new revision",
+      inputSchema: {
+        id: z.string().describe("Memory ID"),
+        revision: z.number().int().describe("Revision number to restore"),
+        author: z.string().optional().describe("Who is reverting (defaults to the MCP session)"),
+      },
+    },
+    ({ id, revision, author }, extra) => {
+      const reverted = memory.revert(id, revision, { author: author ?? extra.sessionId });
+
+      if (!reverted) {
+        return {
+          content: [{ type: "text", text: `Memory ${id} or revision r${revision} not found` }],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Reverted ${id} to r${revision}\nContent: ${reverted.sensitive ? "[encrypted]" : reverted.content}`,
           },
         ],
       };
     }
   );
 
-  mcp.registerResource(
-    "memory_stats",
-    "memory://stats",
+  mcp.registerTool(
+    "memory_archive",
+    {
+      title: "Archive Memories",
+      description: "Move memories to the archive tier. Archived memories are excluded from default recall but remain searchable",
+      inputSchema: {
+        ids: z.array(z.string()).describe("IDs of the memories to archive"),
+      },
+    },
+    ({ ids }) => {
+      const archived = ids.filter((id) => memory.archive(id) !== null);
+      const missing = ids.filter((id) => !archived.includes(id));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `Archived ${archived.length} memories.`,
+              ...(missing.length > 0 ? [`Not found: ${missing.join(", ")}`] : []),
+            ].join("\n"),
+          },
+        ],
+        isError: archived.length === 0,
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_restore",
+    {
+      title: "Restore Memories",
+      description: "Restore archived or expired memories to default recall",
+      inputSchema: {
+        ids: z.array(z.string()).describe("IDs of the memories to restore"),
+      },
+    },
+    ({ ids }) => {
+      const restored = ids.filter((id) => memory.restore(id) !== null);
+      const missing = ids.filter((id) => !restored.includes(id));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `Restored ${restored.length} memories.`,
+              ...(missing.length > 0 ? [`Not found: ${missing.join(", ")}`] : []),
+            ].join("\n"),
+          },
+        ],
+        isError: restored.length === 0,
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_export",
+    {
+      title: "Export Memories",
+      description: "Export memories as JSONL, Markdown (front matter per memory) or CSV, either to a file or inline",
+      inputSchema: {
+        format: z.enum(["jsonl", "markdown", "csv"]).default("jsonl").describe("Export format"),
+        path: z.string().optional().describe("File to write the export to (returned inline when unset)"),
+        namespace: z.string().optional().describe("Namespace to export (defaults to the active project or session; \"*\" for all)"),
+        decrypt: z.boolean().default(false).describe("Export sensitive content and encrypted secrets decrypted (they stay encrypted otherwise)"),
+      },
+    },
+    async ({ format, path, namespace, decrypt }, extra) => {
+      const scope = namespace ?? namespaces.resolve(extra.sessionId);
+      let memories: ReturnType<typeof memory.export>;
+      try {
+        memories = memory.export({ namespace: scope === "*" ? undefined : scope, decrypt });
+      } catch (error) {
+        if (!(error instanceof EncryptionError)) throw error;
+        return { content: [{ type: "text", text: `Cannot decrypt: ${error.message}` }], isError: true };
+      }
+
+      if (!path) {
+        return {
+          content: [{ type: "text", text: Array.from(serializeMemories(memories, format)).join("") }],
+        };
+      }
+
+      try {
+        const bytes = await writeChunks(path, serializeMemories(memories, format));
+        return {
+          content: [{ type: "text", text: `Exported ${memories.length} memories to ${path} (${bytes} bytes, ${format})` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Export to ${path} failed: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  mcp.registerTool(
+    "memory_import",
+    {
+      title: "Import Memories",
+      description: "Import memories from JSONL, Markdown or CSV. Every record is validated; invalid rows are reported and skipped, and ID collisions follow the conflict strategy",
+      inputSchema: {
+        format: z.enum(["jsonl", "markdown", "csv"]).default("jsonl").describe("Import format"),
+        path: z.string().optional().describe("File to import, read as a stream"),
+        data: z.string().optional().describe("Inline data to import instead of a file"),
+        conflict: z.enum(["skip", "overwrite", "keep-newest", "rename"]).default("skip").describe("What to do when a memory ID already exists"),
+        dryRun: z.boolean().default(false).describe("Validate and report without storing anything"),
+        namespace: z.string().optional().describe("Namespace for records that don't name one (defaults to the active project or session)"),
+      },
+    },
+    async ({ format, path, data, conflict, dryRun, namespace }, extra) => {
+      if ((path === undefined) === (data === undefined)) {
+        return {
+          content: [{ type: "text", text: "Provide exactly one of path or data." }],
+          isError: true,
+        };
+      }
+
+      let report: ImportReport;
+      try {
+        report = await memory.importStream(
+          parseMemories(path !== undefined ? readLines(path) : data!.split(/\r?\n/), format),
+          {
+            conflict,
+            dryRun,
+            namespace: namespace ?? namespaces.resolve(extra.sessionId),
+            author: extra.sessionId,
+          }
+        );
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Import failed: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+
+      const errorsText = report.errors.map((e) => `- row ${e.row}: ${e.message}`).join("\n");
+      const renamedText = report.renamed.map((r) => `- ${r.from} -> ${r.to}`).join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              report.dryRun ? "Import Dry Run:" : "Import Complete:",
+              "",
+              `Imported: ${report.imported}`,
+              `Overwritten: ${report.overwritten}`,
+              `Skipped (conflicts): ${report.skipped}`,
+              `Renamed: ${report.renamed.length}`,
+              `Invalid: ${report.errors.length}`,
+              ...(renamedText ? ["", "Renamed:", renamedText] : []),
+              ...(errorsText ? ["", "Errors:", errorsText] : []),
+            ].join("\n"),
+          },
+        ],
+        isError: report.imported === 0 && report.errors.length > 0,
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_rotate_key",
+    {
+      title: "Rotate Encryption Key",
+      description: "Re-encrypt every sensitive memory, encrypted secret and revision with a new key, read from an environment variable or key file so it never passes through the conversation",
+      inputSchema: {
+        keyEnv: z.string().optional().describe("Environment variable holding the new key"),
+        keyFile: z.string().optional().describe("File holding the new key"),
+      },
+    },
+    ({ keyEnv, keyFile }) => {
+      try {
+        const next = loadContentCipher({ keyEnv, keyFile });
+        if (!next) {
+          return {
+            content: [{ type: "text", text: keyEnv ? `${keyEnv} is not set` : "Provide `keyEnv` or `keyFile` for the new key" }],
+            isError: true,
+          };
+        }
+        const result = memory.rotateKey(next);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Rotated to key ${result.keyId}: re-encrypted ${result.memories} memories and ${result.revisions} revisions.\nPoint memory.encryptionKeyEnv or memory.encryptionKeyFile at the new key before restarting.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Key rotation failed: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  mcp.registerTool(
+    "memory_sync",
+    {
+      title: "Sync Memories",
+      description: "Exchange memory changes with other instances through the shared sync directory: merge their new changesets (pull), publish local changes (push), or both. Conflicts go to the most recent change, deletes included",
+      inputSchema: {
+        direction: z.enum(["pull", "push", "both"]).optional().default("both").describe("Which way to sync"),
+      },
+    },
+    ({ direction }) => {
+      if (!sync) {
+        return {
+          content: [{ type: "text", text: "Sync is not configured: set memory.sync.directory" }],
+          isError: true,
+        };
+      }
+
+      try {
+        const report = direction === "pull" ? sync.pull() : direction === "push" ? sync.push() : sync.sync();
+        return {
+          content: [{ type: "text", text: formatSyncReport(memory.instanceId, report) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Sync failed: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  mcp.registerTool(
+    "memory_dedupe",
+    {
+      title: "Deduplicate Memories",
+      description: "Find clusters of near-duplicate memories and merge each into its most important member. Defaults to a dry run that only reports the clusters",
+      inputSchema: {
+        dryRun: z.boolean().default(true).describe("Only report the duplicate clusters"),
+        threshold: z.number().min(0).max(1).optional().describe("Content similarity needed to count as a duplicate (defaults to the configured threshold)"),
+        namespace: z.string().optional().describe("Only deduplicate this namespace (all namespaces when unset)"),
+      },
+    },
+    ({ dryRun, threshold, namespace }) => {
+      const { clusters, removed } = memory.dedupe({ dryRun, threshold, namespace });
+      const clustersText =
+        clusters.length > 0
+          ? clusters
+              .map(
+                (c) =>
+                  `- keep ${c.canonicalId}, merge ${c.duplicateIds.join(", ")} (similarity >= ${c.similarity.toFixed(2)})`
+              )
+              .join("\n")
+          : "No duplicates found";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              dryRun ? "Deduplication Dry Run:" : "Deduplication Applied:",
+              "",
+              `Clusters: ${clusters.length}`,
+              `Removed: ${removed}`,
+              "",
+              clustersText,
+            ].join("\n"),
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_prune",
+    {
+      title: "Prune Memories",
+      description: "Apply the retention policy: archive expired or decayed memories and delete long-archived ones. Defaults to a dry run that only reports what would be evicted",
+      inputSchema: {
+        dryRun: z.boolean().default(true).describe("Only report what the policy would evict"),
+        policy: RetentionPolicySchema.optional().describe("Policy to evaluate instead of the configured one"),
+      },
+    },
+    ({ dryRun, policy }) => {
+      if (!policy && !config.memory?.retention) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No retention policy configured. Pass a policy or set memory.retention in the server config.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const report = memory.prune({ dryRun, policy });
+      const actionsText =
+        report.actions.length > 0
+          ? report.actions
+              .map(
+                (a) =>
+                  `- ${a.action} ${a.id} (${a.reason}, effective importance ${a.effectiveImportance.toFixed(2)}): ${a.content}`
+              )
+              .join("\n")
+          : "Nothing to evict";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              report.dryRun ? "Retention Dry Run:" : "Retention Applied:",
+              "",
+              `Scanned: ${report.scanned}`,
+              `Archive: ${report.actions.filter((a) => a.action === "archive").length}`,
+              `Delete: ${report.actions.filter((a) => a.action === "delete").length}`,
+              "",
+              actionsText,
+            ].join("\n"),
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "memory_timeline",
+    {
+      title: "Memory Timeline",
+      description: "Reconstruct what the memory store knew over time: memories created in a window, what changed between two points in time (creations and revisions with before/after state), or an activity histogram by context or tag",
+      inputSchema: {
+        from: z.string().describe("Start of the window: ISO date, epoch milliseconds, or an offset such as -24h, -7d"),
+        to: z.string().default("now").describe("End of the window (default: now)"),
+        view: z.enum(["changes", "range", "histogram"]).default("changes").describe("What to report"),
+        groupBy: z.enum(["context", "tag"]).default("context").describe("Histogram breakdown"),
+        bucket: z.enum(["hour", "day", "week"]).optional().describe("Histogram bucket size (default: chosen from the window)"),
+        limit: z.number().int().positive().default(50).describe("Maximum memories or changes to list"),
+        namespace: z.string().optional().describe("Namespace to report on (defaults to the active project or session)"),
+      },
+    },
+    ({ from, to, view, groupBy, bucket, limit, namespace }, extra) => {
+      const window = parseWindow(from, to);
+      if ("error" in window) {
+        return { content: [{ type: "text", text: window.error }], isError: true };
+      }
+      const scope = { namespace: namespace ?? namespaces.resolve(extra.sessionId) };
+      const header = `${new Date(window.from).toISOString()} -> ${new Date(window.to).toISOString()}`;
+
+      if (view === "range") {
+        const created = memory.getTimeRange(window.from, window.to, scope);
+        const listed = created.slice(0, limit);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Memories created ${header}: ${created.length}\n\n${listed
+                .map((m) => `[${new Date(m.timestamp).toISOString()}] ${m.id}${m.archivedAt !== undefined ? " [archived]" : ""}\n   ${m.sensitive ? "[encrypted]" : m.content}`)
+                .join("\n")}${created.length > listed.length ? `\n\n... ${created.length - listed.length} more` : ""}`,
+            },
+          ],
+        };
+      }
+
+      if (view === "histogram") {
+        const histogram = memory.activityHistogram(window.from, window.to, { ...scope, groupBy, bucket });
+        const rows = histogram.buckets
+          .filter((b) => b.total > 0)
+          .map(
+            (b) =>
+              `${new Date(b.start).toISOString()}  ${String(b.total).padStart(4)}  ${Object.entries(b.counts)
+                .sort((x, y) => y[1] - x[1])
+                .map(([group, count]) => `${group}=${count}`)
+                .join(", ")}`
+          );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Activity by ${histogram.groupBy} per ${histogram.bucket}, ${header}:\n\n${rows.join("\n") || "No activity"}`,
+            },
+          ],
+        };
+      }
+
+      const diff = memory.changesBetween(window.from, window.to, scope);
+      const changesText = diff.changes.slice(-limit).map((c) => {
+        const last = c.revisions.at(-1)!;
+        const actions = Array.from(new Set(c.revisions.map((r) => r.action))).join("/");
+        const authors = Array.from(new Set(c.revisions.map((r) => r.author).filter(Boolean))).join(", ");
+        const lines = [
+          `[${new Date(last.timestamp).toISOString()}] ${c.status} ${c.memoryId} (${actions}${authors ? ` by ${authors}` : ""})`,
+        ];
+        if (c.status === "updated") {
+          lines.push(`   Changed: ${c.fields.join(", ") || "nothing (reverted within the window)"}`);
+          if (c.fields.includes("content")) lines.push(`   Before: ${c.before!.sensitive ? "[encrypted]" : c.before!.content}`);
+        }
+        lines.push(`   ${c.status === "updated" ? "After: " : ""}${c.after.sensitive ? "[encrypted]" : c.after.content}`);
+        return lines.join("\n");
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Changes ${header}: ${diff.created} created, ${diff.updated} updated\n\n${changesText.join("\n\n") || "No changes"}${diff.changes.length > limit ? `\n\n(showing the latest ${limit} of ${diff.changes.length})` : ""}`,
+          },
+        ],
+      };
+    }
+  );
+
+  // Memory Resources
+  mcp.registerResource(
+    "all_memories",
+    "memory://all",
+    {
+      title: "All Memories",
+      description: "Access all memories in the session's namespace",
+    },
+    (uri, extra) => {
+      const allMemories = memory.export({ namespace: namespaces.resolve(extra.sessionId) });
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(allMemories, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "memory_history",
+    new ResourceTemplate("memory://id/{id}/history", { list: undefined }),
+    {
+      title: "Memory History",
+      description: "Revision history of a single memory",
+    },
+    (uri, { id }, extra) => {
+      if (memory.get(String(id))?.namespace !== namespaces.resolve(extra.sessionId)) {
+        throw new Error(`Memory not found: ${String(id)}`);
+      }
+      const revisions = memory
+        .getHistory(String(id))
+        .map((r) => (r.snapshot.sensitive ? { ...r, snapshot: { ...r.snapshot, content: "[encrypted]" } } : r));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(revisions, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  // Registered before memory_by_id, whose {id} would take the query too
+  mcp.registerResource(
+    "memory_by_id_in_namespace",
+    new ResourceTemplate("memory://id/{id}{?namespace}", { list: undefined }),
+    {
+      title: "Memory in a Namespace",
+      description: "A single memory by ID from another namespace, or from any with namespace=*",
+    },
+    (uri, { id, namespace }) => {
+      const scope = decodeVariable(namespace);
+      const entry = memory.get(decodeVariable(id));
+      if (!entry || (scope !== "*" && entry.namespace !== scope)) {
+        throw new Error(`Memory not found: ${decodeVariable(id)}`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(entry, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "memory_by_id",
+    new ResourceTemplate("memory://id/{id}", {
+      list: undefined,
+      complete: {
+        // Completion requests carry no session, so they see the project namespace
+        id: (value) =>
+          memory
+            .export({ namespace: namespaces.resolve() })
+            .map((m) => m.id)
+            .filter((id) => id.startsWith(value))
+            .slice(0, 100),
+      },
+    }),
+    {
+      title: "Memory",
+      description: "A single memory by ID, in the session's namespace",
+    },
+    (uri, { id }, extra) => {
+      const entry = memory.get(decodeVariable(id));
+      if (!entry || entry.namespace !== namespaces.resolve(extra.sessionId)) {
+        throw new Error(`Memory not found: ${decodeVariable(id)}`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(entry, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "memories_by_context",
+    new ResourceTemplate("memory://context/{context}", {
+      list: (extra) => ({
+        resources: memory.getContexts("", namespaces.resolve(extra.sessionId)).map((context) => ({
+          uri: `memory://context/${encodeURIComponent(context)}`,
+          name: `Memories in context "${context}"`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        context: (value) => memory.getContexts(value, namespaces.resolve()).slice(0, 100),
+      },
+    }),
+    {
+      title: "Memories by Context",
+      description: "Memories in one context, ranked by recency and importance",
+    },
+    (uri, { context }, extra) => {
+      const memories = memory.getByContext(decodeVariable(context), 50, namespaces.resolve(extra.sessionId));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(memories, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "memories_by_tag",
+    new ResourceTemplate("memory://tag/{tag}", {
+      list: (extra) => ({
+        resources: memory.getTags("", namespaces.resolve(extra.sessionId)).map((tag) => ({
+          uri: `memory://tag/${encodeURIComponent(tag)}`,
+          name: `Memories tagged "${tag}"`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        tag: (value) => memory.getTags(value, namespaces.resolve()).slice(0, 100),
+      },
+    }),
+    {
+      title: "Memories by Tag",
+      description: "Memories with one tag, ranked by recency and importance",
+    },
+    (uri, { tag }, extra) => {
+      const memories = memory.getByTags([decodeVariable(tag)], 50, namespaces.resolve(extra.sessionId));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(memories, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "memory_search_results",
+    new ResourceTemplate("memory://search/{query}", {
+      list: undefined,
+      complete: {
+        query: (value) => {
+          const namespace = namespaces.resolve();
+          return [...memory.getTags(value, namespace), ...memory.getContexts(value, namespace)].slice(0, 100);
+        },
+      },
+    }),
+    {
+      title: "Memory Search",
+      description: "Memories matching a search query, ranked by relevance",
+    },
+    async (uri, { query }, extra) => {
+      const memories = await memory.recallAsync({
+        query: decodeVariable(query),
+        limit: 20,
+        namespace: namespaces.resolve(extra.sessionId),
+      });
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(memories, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "memory_timeline",
+    new ResourceTemplate("memory://timeline/{from}/{to}", { list: undefined }),
+    {
+      title: "Memory Timeline",
+      description: "Memories created and changed between two times (ISO dates, epoch milliseconds, `now` or offsets such as -24h), with an activity histogram by context",
+    },
+    (uri, { from, to }, extra) => {
+      const window = parseWindow(decodeVariable(from), decodeVariable(to));
+      if ("error" in window) throw new Error(window.error);
+
+      const scope = { namespace: namespaces.resolve(extra.sessionId) };
+      const timeline = {
+        from: new Date(window.from).toISOString(),
+        to: new Date(window.to).toISOString(),
+        created: memory.getTimeRange(window.from, window.to, scope),
+        changes: memory.changesBetween(window.from, window.to, scope).changes,
+        histogram: memory.activityHistogram(window.from, window.to, scope).buckets.filter((b) => b.total > 0),
+      };
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(timeline, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "memory_stats",
+    "memory://stats",
+    {
+      title: "Memory Statistics",
+      description: "Current statistics about the memory system",
+    },
+    (uri) => {
+      const stats = memory.getStats();
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(stats, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "recent_memories",
+    "memory://recent",
+    {
+      title: "Recent Memories",
+      description: "Most recently stored memories in the session's namespace",
+    },
+    (uri, extra) => {
+      const recent = memory.getRecent(20, namespaces.resolve(extra.sessionId));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(recent, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerResource(
+    "important_memories",
+    "memory://important",
+    {
+      title: "Important Memories",
+      description: "High-importance memories in the session's namespace",
+    },
+    (uri, extra) => {
+      const important = memory.getImportant(0.7, 20, namespaces.resolve(extra.sessionId));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(important, null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  registerToolWithAliases(
+    "memory_reasoning",
+    ["get_reasoning_history"],
+    {
+      title: "Reasoning History",
+      description: "Retrieve recent reasoning steps, oldest first",
+      inputSchema: {
+        limit: z.number().default(10).describe("Number of recent entries to retrieve"),
+        namespace: z.string().optional().describe("Namespace to read from (defaults to the active project or session)"),
+      },
+    },
+    ({ limit, namespace }, extra) => {
+      const steps = service.getReasoningHistory(limit, namespace ?? namespaces.resolve(extra.sessionId));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              steps.map((step) => ({ ...step, timestamp: new Date(step.timestamp).toISOString() })),
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  // Decision record tools
+  const decisionInput = {
+    title: z.string().describe("Short title, e.g. 'Use Postgres for billing'"),
+    context: z.string().describe("The forces and problem behind the decision"),
+    decision: z.string().describe("What was decided"),
+    alternatives: z
+      .array(z.object({ option: z.string(), reason: z.string().optional().describe("Why it was not chosen") }))
+      .optional()
+      .describe("Alternatives considered"),
+    consequences: z.array(z.string()).optional().describe("Consequences of the decision, good and bad"),
+    entities: z.array(z.string()).optional().describe("Knowledge graph entity IDs the decision affects"),
+    memories: z.array(z.string()).optional().describe("IDs or fact keys of related memories"),
+  };
+
+  mcp.registerTool(
+    "decision_record",
+    {
+      title: "Record Decision",
+      description: "Record an architecture decision with its alternatives, consequences and links to entities and memories",
+      inputSchema: {
+        ...decisionInput,
+        status: z.enum(["proposed", "accepted"]).default("proposed").describe("Decision status"),
+        namespace: z.string().optional().describe("Namespace to store in (defaults to the active project or session)"),
+      },
+    },
+    ({ namespace, ...input }, extra) => {
+      const result = service.recordDecision(input, {
+        namespace: namespace ?? namespaces.resolve(extra.sessionId),
+        author: extra.sessionId,
+      });
+      if ("error" in result) {
+        return { content: [{ type: "text", text: result.error }], isError: true };
+      }
+      return {
+        content: [{ type: "text", text: `Decision recorded:\n\n${formatDecision(result.record)}` }],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "decision_status",
     {
-      title: "Memory Statistics",
-      description: "Current statistics about the memory system",
+      title: "Set Decision Status",
+      description: "Move a decision between proposed and accepted. Use decision_supersede to replace a decision",
+      inputSchema: {
+        id: z.string().describe("Decision ID"),
+        status: z.enum(["proposed", "accepted"]).describe("New status"),
+      },
     },
-    (uri) => {
-      const stats = memory.getStats();
+    ({ id, status }, extra) => {
+      const result = service.setDecisionStatus(id, status, { author: extra.sessionId });
+      if ("error" in result) {
+        return { content: [{ type: "text", text: result.error }], isError: true };
+      }
       return {
-        contents: [
-          {
-            uri: uri.href,
-            text: JSON.stringify(stats, null, 2),
-            mimeType: "application/json",
-          },
-        ],
+        content: [{ type: "text", text: `Decision ${result.record.number} is now ${result.record.status}` }],
       };
     }
   );
 
-  mcp.registerResource(
-    "recent_memories",
-    "memory://recent",
+  mcp.registerTool(
+    "decision_supersede",
     {
-      title: "Recent Memories",
-      description: "Most recently stored memories",
+      title: "Supersede Decision",
+      description: "Record a new decision that replaces an existing one. The old decision is marked superseded and both link to each other",
+      inputSchema: {
+        id: z.string().describe("ID of the decision being replaced"),
+        ...decisionInput,
+      },
     },
-    (uri) => {
-      const recent = memory.getRecent(20);
+    ({ id, ...input }, extra) => {
+      const result = service.supersede(id, input, { author: extra.sessionId });
+      if ("error" in result) {
+        return { content: [{ type: "text", text: result.error }], isError: true };
+      }
       return {
-        contents: [
+        content: [
           {
-            uri: uri.href,
-            text: JSON.stringify(recent, null, 2),
-            mimeType: "application/json",
+            type: "text",
+            text: `Decision ${result.superseded.number} superseded by decision ${result.record.number}:\n\n${formatDecision(result.record)}`,
           },
         ],
       };
     }
   );
 
-  mcp.registerResource(
-    "important_memories",
-    "memory://important",
+  mcp.registerTool(
+    "decision_query",
     {
-      title: "Important Memories",
-      description: "High-importance memories",
+      title: "Query Decisions",
+      description: "List decisions, optionally those linked to an entity, with a given status or mentioning some text",
+      inputSchema: {
+        entityId: z.string().optional().describe("Only decisions linked to this knowledge graph entity"),
+        status: z.enum(["proposed", "accepted", "superseded"]).optional().describe("Only decisions with this status"),
+        query: z.string().optional().describe("Text to look for in the title, context or decision"),
+        namespace: z.string().optional().describe("Namespace to read from (defaults to the active project or session; all namespaces with entityId)"),
+      },
     },
-    (uri) => {
-      const important = memory.getImportant(0.7, 20);
+    ({ entityId, status, query, namespace }, extra) => {
+      const needle = query?.toLowerCase();
+      const records = service
+        .listDecisions({
+          entityId,
+          status,
+          namespace: namespace ?? (entityId ? undefined : namespaces.resolve(extra.sessionId)),
+        })
+        .filter(
+          (r) => !needle || [r.title, r.context, r.decision].some((text) => text.toLowerCase().includes(needle))
+        );
+
+      if (records.length === 0) {
+        return { content: [{ type: "text", text: "No decisions found matching the criteria." }] };
+      }
       return {
-        contents: [
+        content: [
           {
-            uri: uri.href,
-            text: JSON.stringify(important, null, 2),
-            mimeType: "application/json",
+            type: "text",
+            text: `Found ${records.length} decisions:\n\n${records.map(formatDecision).join("\n\n")}`,
           },
         ],
       };
@@ -535,15 +1727,42 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
   );
 
   mcp.registerTool(
-    "get_reasoning_history",
+    "decision_export_adr",
     {
-      title: "Get Reasoning History",
-      description: "Retrieve recent reasoning history",
+      title: "Export Decisions as ADRs",
+      description: "Write decisions as ADR markdown files (NNNN-title.md). Defaults to `adr/` under the docs path of the project profile",
       inputSchema: {
-        limit: z.number().default(10).describe("Number of recent entries to retrieve"),
+        directory: z.string().optional().describe("Directory to write to (overrides the project docs path)"),
+        namespace: z.string().optional().describe("Namespace to export (defaults to the active project or session)"),
       },
     },
-    ({ limit }: { limit: number }) => memory.getReasoningHistory(limit)
+    async ({ directory, namespace }, extra) => {
+      const profile = readProjectProfile(namespaces.projectRoot);
+      const target = directory ?? (profile ? adrDirectory(profile) : undefined);
+      if (!target) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No directory given and ${profile ? "the project profile has no paths.docs" : `no project profile found in ${namespaces.projectRoot}`}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const written = await service.exportDecisions(target, {
+        namespace: namespace ?? namespaces.resolve(extra.sessionId),
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: written.length > 0 ? `Wrote ${written.length} ADRs to ${target}:\n${written.map((f) => `- ${f}`).join("\n")}` : "No decisions to export.",
+          },
+        ],
+      };
+    }
   );
 
   // Knowledge Graph and Entity Tools
@@ -558,20 +1777,45 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
         tags: z.array(z.string()).optional().describe("Tags for categorization"),
       },
     },
-    ({ type, properties, tags }: { type: string; properties: Record<string, any>; tags?: string[] }) =>
-      memory.addEntity(type, properties, tags)
+    ({ type, properties, tags }) => {
+      const entity = service.graph.addEntity(type, properties, undefined, tags);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Entity created: ${entity.id}\nType: ${entity.type}\nProperties: ${JSON.stringify(entity.properties, null, 2)}`,
+          },
+        ],
+      };
+    }
   );
 
   mcp.registerTool(
     "get_entity",
     {
       title: "Get Entity",
-      description: "Get an entity by ID from the knowledge graph",
+      description: "Get an entity by ID from the knowledge graph, with the memories linked to it",
       inputSchema: {
         entityId: z.string().describe("Entity ID to retrieve"),
       },
     },
-    ({ entityId }: { entityId: string }) => memory.getEntity(entityId)
+    ({ entityId }, extra) => {
+      const entity = service.graph.getEntity(entityId);
+      if (!entity) {
+        return {
+          content: [{ type: "text", text: `Entity not found: ${entityId}` }],
+          isError: true,
+        };
+      }
+      const namespace = namespaces.resolve(extra.sessionId);
+      const linkedMemories = service
+        .getMemoriesByEntity(entityId)
+        .filter((m) => m.namespace === namespace)
+        .map((m) => m.id);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ ...entity, linkedMemories }, null, 2) }],
+      };
+    }
   );
 
   mcp.registerTool(
@@ -587,13 +1831,23 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
         weight: z.number().optional().describe("Relationship weight/strength"),
       },
     },
-    ({ sourceId, targetId, relationshipType, properties, weight }: {
-      sourceId: string;
-      targetId: string;
-      relationshipType: string;
-      properties?: Record<string, any>;
-      weight?: number;
-    }) => memory.addRelationship(sourceId, targetId, relationshipType, properties, weight)
+    ({ sourceId, targetId, relationshipType, properties, weight }) => {
+      const relationship = service.graph.addRelationship(sourceId, targetId, relationshipType, properties, weight);
+      if (!relationship) {
+        return {
+          content: [{ type: "text", text: "Failed to create relationship: source or target entity not found" }],
+          isError: true,
+        };
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Relationship created: ${relationship.id}\nType: ${relationship.type}\nFrom: ${relationship.sourceId}\nTo: ${relationship.targetId}`,
+          },
+        ],
+      };
+    }
   );
 
   mcp.registerTool(
@@ -607,8 +1861,25 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
         tags: z.array(z.string()).optional().describe("Tags to filter by"),
       },
     },
-    ({ query, type, tags }: { query?: string; type?: string; tags?: string[] }) =>
-      memory.queryEntities(query, type, tags)
+    ({ query, type, tags }) => {
+      if (!query && !type) {
+        const stats = service.graph.getStats();
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Total entities: ${stats.entityCount}\nType distribution: ${JSON.stringify(stats.typeDistribution, null, 2)}\n\nProvide a query or type to search for specific entities.`,
+            },
+          ],
+        };
+      }
+      const entities = query
+        ? service.graph.searchEntities(query, type, tags)
+        : service.graph.getEntitiesByType(type!);
+      return {
+        content: [{ type: "text", text: `Found ${entities.length} entities:\n\n${JSON.stringify(entities, null, 2)}` }],
+      };
+    }
   );
 
   mcp.registerTool(
@@ -621,23 +1892,247 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
         relationshipType: z.string().optional().describe("Relationship type to filter by"),
       },
     },
-    ({ entityId, relationshipType }: { entityId: string; relationshipType?: string }) =>
-      memory.queryRelationships(entityId, relationshipType)
+    ({ entityId, relationshipType }) => {
+      const entity = service.graph.getEntity(entityId);
+      if (!entity) {
+        return {
+          content: [{ type: "text", text: `Entity not found: ${entityId}` }],
+          isError: true,
+        };
+      }
+      const related = service.graph.getRelatedEntities(entityId, relationshipType).map((r) => ({
+        entity: { id: r.entity.id, type: r.entity.type, properties: r.entity.properties },
+        relationship: { type: r.relationship.type, properties: r.relationship.properties },
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Entity: ${entity.type} (${entity.id})\n\nRelationships: ${service.graph.getEntityRelationships(entityId).length}\n\nRelated Entities:\n${JSON.stringify(related, null, 2)}`,
+          },
+        ],
+      };
+    }
   );
 
   mcp.registerTool(
     "traverse_graph",
     {
       title: "Traverse Knowledge Graph",
-      description: "Find paths between two entities in the knowledge graph",
+      description: "Find paths between two entities in the knowledge graph, cheapest first, or the k shortest paths by relationship weight",
       inputSchema: {
         sourceId: z.string().describe("Source entity ID"),
         targetId: z.string().describe("Target entity ID"),
-        maxDepth: z.number().optional().default(5).describe("Maximum traversal depth"),
+        maxDepth: z.number().int().positive().max(MAX_PATH_DEPTH).optional().default(5).describe("Maximum traversal depth"),
+        k: z.number().int().positive().optional().describe("Return only the k shortest paths (Dijkstra/Yen) instead of every path"),
+        relationshipTypes: z.array(z.string()).optional().describe("Follow only these relationship types"),
+        direction: z.enum(["out", "in", "both"]).optional().default("both").describe("Follow relationships from source to target (out), against it (in) or either way"),
+        weighting: z
+          .enum(["cost", "strength", "hops"])
+          .optional()
+          .default("cost")
+          .describe("cost: weight is the cost of a relationship; strength: stronger relationships are cheaper (1/weight); hops: ignore weights"),
+        maxResults: z.number().int().positive().optional().default(100).describe("Maximum paths returned"),
+      },
+    },
+    ({ sourceId, targetId, maxDepth, k, relationshipTypes, direction, weighting, maxResults }) => {
+      const result = service.graph.findPaths(sourceId, targetId, maxDepth, { k, relationshipTypes, direction, weighting, maxResults });
+      if (result.entities.length === 0) {
+        return {
+          content: [{ type: "text", text: `No path found between ${sourceId} and ${targetId}` }],
+        };
+      }
+      const paths = (result.paths || []).map((path, i) => ({
+        path: i + 1,
+        length: path.entities.length,
+        cost: path.cost,
+        entities: path.entities.map((e) => `${e.type}:${e.id}`),
+        relationships: path.relationships.map((r) => r.type),
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Found ${paths.length} paths between entities${result.truncated ? ` (the cheapest ${maxResults}; raise maxResults or narrow the search for more)` : ""}:\n\nEntities involved: ${result.entities.length}\nRelationships: ${result.relationships.length}\n\nPaths:\n${JSON.stringify(paths, null, 2)}`,
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "graph_impact",
+    {
+      title: "Graph Impact Analysis",
+      description:
+        "What breaks if an entity goes down: every entity that depends on it, directly or transitively, " +
+        "ranked by criticality, with a Mermaid diagram",
+      inputSchema: {
+        entityId: z.string().describe("Entity to take down"),
+        dependencyTypes: z
+          .array(z.string())
+          .optional()
+          .describe("Relationship types meaning the source depends on the target (defaults to graph.dependencyTypes)"),
+        maxDepth: z.number().int().positive().optional().describe("Dependency hops to follow (unlimited by default)"),
+      },
+    },
+    ({ entityId, dependencyTypes, maxDepth }) => {
+      const report = service.graph.impact(entityId, {
+        dependencyTypes: dependencyTypes ?? config.graph?.dependencyTypes,
+        maxDepth,
+      });
+      if (!report) {
+        return {
+          content: [{ type: "text", text: `Entity not found: ${entityId}` }],
+          isError: true,
+        };
+      }
+      return {
+        content: [{ type: "text", text: `${formatImpactReport(report)}\n\n\`\`\`mermaid\n${impactMermaid(report)}\n\`\`\`` }],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "graph_query",
+    {
+      title: "Query Knowledge Graph",
+      description:
+        "Match patterns in the knowledge graph with a read-only subset of Cypher, e.g. " +
+        "MATCH (s:service)-[:depends_on*1..3]->(d:database) WHERE d.properties.env = 'prod' RETURN s, d",
+      inputSchema: {
+        query: z.string().describe("MATCH pattern, optional WHERE, RETURN variables and optional LIMIT"),
+        limit: z.number().optional().default(100).describe("Maximum matches when the query has no LIMIT"),
+      },
+    },
+    ({ query, limit }) => {
+      let result: GraphQueryResult;
+      try {
+        result = service.graph.query(query, { limit });
+      } catch (error) {
+        if (!(error instanceof GraphQueryError)) throw error;
+        return {
+          content: [{ type: "text", text: `Invalid graph query: ${error.message}` }],
+          isError: true,
+        };
+      }
+      const matches = result.paths ?? [];
+      if (matches.length === 0) {
+        return { content: [{ type: "text", text: "No matches found." }] };
+      }
+      const paths = matches.map((path) => ({
+        entities: path.entities.map((e) => `${e.type}:${e.id}`),
+        relationships: path.relationships.map((r) => r.type),
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Found ${matches.length} matches${result.truncated ? ` (more exist; raise the limit to see them)` : ""}:\n\n` +
+              JSON.stringify({ entities: result.entities, relationships: result.relationships, paths }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "graph_centrality",
+    {
+      title: "Graph Centrality",
+      description:
+        "Rank entities by PageRank (how much highly ranked entities point at them) or betweenness " +
+        "(how many shortest paths run through them)",
+      inputSchema: {
+        algorithm: z.enum(["pagerank", "betweenness"]).optional().default("pagerank").describe("Centrality measure"),
+        type: z.string().optional().describe("Only list entities of this type (scores still use the whole graph)"),
+        relationshipTypes: z.array(z.string()).optional().describe("Only consider these relationship types"),
+        limit: z.number().int().positive().optional().default(10).describe("Number of entities to list"),
+      },
+    },
+    ({ algorithm, type, relationshipTypes, limit }) => {
+      const scores = algorithm === "pagerank"
+        ? service.graph.pageRank({ relationshipTypes })
+        : service.graph.betweenness({ relationshipTypes });
+      const top = scores.filter((s) => !type || s.entity.type === type).slice(0, limit);
+      if (top.length === 0) {
+        return { content: [{ type: "text", text: "No entities to rank." }] };
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Top ${top.length} entities by ${algorithm}:\n${top
+              .map((s, i) => `${i + 1}. ${s.entity.type} "${entityName(s.entity)}" (${s.entity.id}): ${s.score}`)
+              .join("\n")}`,
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "graph_cycles",
+    {
+      title: "Find Circular Dependencies",
+      description: "Find strongly connected components of the dependency graph, i.e. entities that depend on each other in a circle",
+      inputSchema: {
+        relationshipTypes: z
+          .array(z.string())
+          .optional()
+          .describe("Relationship types to follow (defaults to graph.dependencyTypes)"),
+      },
+    },
+    ({ relationshipTypes }) => {
+      const cycles = service.graph.findCycles({
+        relationshipTypes: relationshipTypes ?? config.graph?.dependencyTypes ?? DEFAULT_DEPENDENCY_TYPES,
+      });
+      if (cycles.length === 0) {
+        return { content: [{ type: "text", text: "No circular dependencies found." }] };
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Found ${cycles.length} circular dependencies:\n${cycles
+              .map(
+                (c, i) =>
+                  `${i + 1}. ${c.entities.length} entities: ${c.entities.map((e) => `${e.type} "${entityName(e)}"`).join(", ")}\n` +
+                  `   e.g. ${formatChain(c.cycle.entities, c.cycle.relationships)}`
+              )
+              .join("\n")}`,
+          },
+        ],
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "graph_single_points_of_failure",
+    {
+      title: "Find Single Points of Failure",
+      description:
+        "Find articulation points (entities) and bridges (relationships) whose loss would split the graph, ignoring relationship direction",
+      inputSchema: {
+        relationshipTypes: z.array(z.string()).optional().describe("Only consider these relationship types"),
       },
     },
-    ({ sourceId, targetId, maxDepth }: { sourceId: string; targetId: string; maxDepth?: number }) =>
-      memory.traverseGraph(sourceId, targetId, maxDepth)
+    ({ relationshipTypes }) => {
+      const { articulationPoints, bridges } = service.graph.singlePointsOfFailure({ relationshipTypes });
+      const name = (id: string) => {
+        const entity = service.graph.getEntity(id);
+        return entity ? entityName(entity) : id;
+      };
+      const lines = [
+        `Articulation points (${articulationPoints.length}):`,
+        ...articulationPoints.map((e) => `- ${e.type} "${entityName(e)}" (${e.id})`),
+        "",
+        `Bridges (${bridges.length}):`,
+        ...bridges.map((r) => `- ${name(r.sourceId)} -${r.type}-> ${name(r.targetId)} (${r.id})`),
+      ];
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
   );
 
   mcp.registerTool(
@@ -647,7 +2142,17 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
       description: "Get statistics about the knowledge graph",
       inputSchema: {},
     },
-    () => memory.getGraphStats()
+    () => {
+      const stats = service.graph.getStats();
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Knowledge Graph Statistics:\n\nTotal Entities: ${stats.entityCount}\nTotal Relationships: ${stats.relationshipCount}\n\nEntity Types:\n${JSON.stringify(stats.typeDistribution, null, 2)}`,
+          },
+        ],
+      };
+    }
   );
 
   mcp.registerTool(
@@ -657,33 +2162,89 @@ export default function serve({ config, }: { config: z.infer<typeof configSchema
       description: "Export the knowledge graph in a visualization-ready format",
       inputSchema: {},
     },
-    () => memory.exportGraph()
+    () => ({
+      content: [{ type: "text", text: JSON.stringify(service.graph.exportGraph(), null, 2) }],
+    })
   );
 
-  mcp.registerTool(
-    "link_memory_to_entity",
+  registerToolWithAliases(
+    "memory_link",
+    ["link_memory_to_entity"],
     {
       title: "Link Memory to Entity",
-      description: "Link a memory entry to a knowledge graph entity",
+      description: "Link a memory, or the fact stored under a key, to a knowledge graph entity",
       inputSchema: {
-        key: z.string().describe("Memory key to link"),
+        key: z.string().describe("Memory ID or fact key to link"),
         entityId: z.string().describe("Entity ID to link to"),
+        namespace: z.string().optional().describe("Namespace of the fact (defaults to the active project or session)"),
       },
     },
-    ({ key, entityId }: { key: string; entityId: string }) =>
-      memory.linkMemoryToEntity(key, entityId)
+    ({ key, entityId, namespace }, extra) => {
+      const target = service.resolve(key, namespace ?? namespaces.resolve(extra.sessionId));
+      if (!target) {
+        return {
+          content: [{ type: "text", text: `Memory or key not found: ${key}` }],
+          isError: true,
+        };
+      }
+      const linked = service.linkMemoryToEntity(target.id, entityId, { author: extra.sessionId });
+      if ("error" in linked) {
+        return {
+          content: [{ type: "text", text: linked.error }],
+          isError: true,
+        };
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Linked memory ${linked.memory.id}${key !== linked.memory.id ? ` ("${key}")` : ""} to entity ${entityId} (${linked.entity.type})`,
+          },
+        ],
+      };
+    }
   );
 
-  mcp.registerTool(
-    "get_memory_by_entity",
+  registerToolWithAliases(
+    "memory_by_entity",
+    ["get_memory_by_entity"],
     {
       title: "Get Memory by Entity",
-      description: "Get all memory entries linked to a specific entity",
+      description: "Get all memories and facts linked to a specific entity",
       inputSchema: {
         entityId: z.string().describe("Entity ID to get memory for"),
+        namespace: z.string().optional().describe("Namespace to read from (defaults to the active project or session; \"*\" for all)"),
       },
     },
-    ({ entityId }: { entityId: string }) => memory.getMemoryByEntity(entityId)
+    ({ entityId, namespace }, extra) => {
+      const entity = service.graph.getEntity(entityId);
+      if (!entity) {
+        return {
+          content: [{ type: "text", text: `Entity not found: ${entityId}` }],
+          isError: true,
+        };
+      }
+      const scope = namespace ?? namespaces.resolve(extra.sessionId);
+      const linked = service
+        .getMemoriesByEntity(entityId)
+        .filter((m) => scope === "*" || m.namespace === scope)
+        .map((m) => ({
+          id: m.id,
+          key: m.metadata.kind === "fact" ? m.metadata.key : undefined,
+          content: m.sensitive ? "[encrypted]" : m.content,
+          context: m.context,
+          tags: m.tags,
+          namespace: m.namespace,
+        }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Memory entries linked to entity ${entityId} (${entity.type}):\n\n${JSON.stringify(linked, null, 2)}`,
+          },
+        ],
+      };
+    }
   );
 
   // Jenkins Tools
@@ -1718,3 +3279,104 @@ modules/vpc/
 
   return mcp.server;
 }
+
+/**
+ * Human-readable summary of a decision record
+ */
+function formatDecision(record: DecisionRecord): string {
+  return [
+    `${record.number}. ${record.title} [${record.status}]`,
+    `   ID: ${record.id}`,
+    `   Date: ${new Date(record.date).toISOString()}`,
+    `   Context: ${record.context}`,
+    `   Decision: ${record.decision}`,
+    ...(record.alternatives.length > 0
+      ? [`   Alternatives: ${record.alternatives.map((a) => (a.reason ? `${a.option} (${a.reason})` : a.option)).join("; ")}`]
+      : []),
+    ...(record.consequences.length > 0 ? [`   Consequences: ${record.consequences.join("; ")}`] : []),
+    ...(record.entities.length > 0 ? [`   Entities: ${record.entities.join(", ")}`] : []),
+    ...(record.memories.length > 0 ? [`   Memories: ${record.memories.join(", ")}`] : []),
+    ...(record.supersedes ? [`   Supersedes: ${record.supersedes}`] : []),
+    ...(record.supersededBy ? [`   Superseded by: ${record.supersededBy}`] : []),
+  ].join("\n");
+}
+
+/**
+ * Parse the two ends of a timeline window
+ */
+function parseWindow(from: string, to: string): { from: number; to: number } | { error: string } {
+  const start = parseTime(from);
+  const end = parseTime(to);
+  if (start === undefined) return { error: `Invalid time: "${from}"` };
+  if (end === undefined) return { error: `Invalid time: "${to}"` };
+  if (start > end) return { error: `Window starts after it ends: ${from} > ${to}` };
+  return { from: start, to: end };
+}
+
+/**
+ * Decode a URI template variable (the SDK hands them over still encoded)
+ */
+function decodeVariable(value: string | string[] | undefined): string {
+  const raw = Array.isArray(value) ? value.join(",") : value ?? "";
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Summary of the secrets taken out of a memory, for tool output
+ */
+function describeRedactions(redactions: Redaction[] | undefined): string {
+  if (!redactions || redactions.length === 0) return "";
+  const detectors = Array.from(new Set(redactions.map((r) => r.detector)));
+  const encrypted = redactions.filter((r) => r.action === "encrypted").length;
+  return `\nSecrets removed: ${redactions.length} (${detectors.join(", ")})${encrypted > 0 ? `, ${encrypted} kept encrypted` : ""}`;
+}
+
+/**
+ * Tool output for a sync through the shared directory
+ */
+function formatSyncReport(instanceId: string, report: SyncReport): string {
+  const { merge } = report;
+  const lines = [
+    `Instance: ${instanceId}`,
+    report.pushed
+      ? `Pushed changeset ${report.pushed.seq}: ${report.pushed.entries} memories, ${report.pushed.tombstones} deletions`
+      : "Pushed: nothing new",
+    report.pulled.length > 0
+      ? `Pulled ${report.pulled.length} changesets from ${Array.from(new Set(report.pulled.map((p) => p.instanceId))).join(", ")}: ${merge.applied} applied, ${merge.deleted} deleted, ${merge.ignored} already superseded`
+      : "Pulled: nothing new",
+  ];
+  merge.errors.forEach((e) => lines.push(`Skipped ${e.id}: ${e.message}`));
+  report.errors.forEach((e) => lines.push(`Unreadable changeset ${e.file}: ${e.message}`));
+  return lines.join("\n");
+}
+
+function formatImpactReport(report: ImpactReport): string {
+  const { root, affected } = report;
+  const direct = affected.filter((a) => a.distance === 1).length;
+  const critical = affected.filter((a) => a.criticality >= 0.75).length;
+  const lines = [
+    `Impact of taking down ${root.type} "${entityName(root)}" (${root.id})`,
+    `Dependency types: ${report.dependencyTypes.join(", ")}`,
+    affected.length > 0
+      ? `Affected: ${affected.length} entities (${direct} direct, ${affected.length - direct} transitive), ${critical} critical or high`
+      : "Affected: nothing depends on this entity",
+  ];
+  affected.forEach((a, i) => {
+    lines.push(`${i + 1}. [${criticalityLabel(a.criticality)}] ${a.entity.type} "${entityName(a.entity)}" (${a.entity.id}), distance ${a.distance}`);
+    lines.push(`   ${formatChain(a.path.entities, a.path.relationships)}`);
+  });
+  return lines.join("\n");
+}
+
+/**
+ * `a -depends_on-> b -calls-> c`
+ */
+function formatChain(entities: Entity[], relationships: Relationship[]): string {
+  return entities
+    .map((e, i) => (i === 0 ? entityName(e) : `-${relationships[i - 1]!.type}-> ${entityName(e)}`))
+    .join(" ");
+}
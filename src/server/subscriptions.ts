@@ -0,0 +1,112 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { LongTermMemory, MemoryChange } from "../memory/index.js";
+
+/**
+ * Resources whose contents can change with any memory
+ */
+export const AGGREGATE_MEMORY_URIS = [
+  "memory://all",
+  "memory://stats",
+  "memory://recent",
+  "memory://important",
+];
+
+/**
+ * Templated resources that select memories by a query, so any change may
+ * move memories in or out of them
+ */
+export const QUERY_MEMORY_PREFIXES = ["memory://context/", "memory://tag/", "memory://search/", "memory://timeline/"];
+
+/**
+ * Whether a memory change can affect the resource at `uri`. Per-entry
+ * resources (`memory://id/{id}` and its history) only change with that entry.
+ */
+export function affectsResource(uri: string, change: MemoryChange): boolean {
+  if (change.action === "clear") return uri.startsWith("memory://");
+  if (AGGREGATE_MEMORY_URIS.includes(uri)) return true;
+  if (QUERY_MEMORY_PREFIXES.some((prefix) => uri.startsWith(prefix))) return true;
+
+  const entryUri = `memory://id/${encodeURIComponent(change.id!)}`;
+  return uri === entryUri || uri.startsWith(`${entryUri}?`) || uri === `${entryUri}/history`;
+}
+
+/**
+ * Tracks `resources/subscribe` requests and sends
+ * `notifications/resources/updated` for subscribed memory resources.
+ * Changes are collected for `debounceMs` so a burst of writes (an import or
+ * a consolidation run) produces one notification per resource.
+ */
+export class ResourceSubscriptions {
+  private subscribed: Set<string> = new Set();
+  private pending: Set<string> = new Set();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly server: Server,
+    private readonly debounceMs: number = 250,
+  ) {}
+
+  /**
+   * Advertise the subscribe capability and handle (un)subscribe requests.
+   * Must run before the server connects to a transport.
+   */
+  register(): void {
+    this.server.registerCapabilities({ resources: { subscribe: true } });
+    this.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+      this.subscribed.add(request.params.uri);
+      return {};
+    });
+    this.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+      this.subscribed.delete(request.params.uri);
+      this.pending.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Notify subscribers when the memory store changes. Returns a function
+   * that stops watching.
+   */
+  watch(memory: LongTermMemory): () => void {
+    const unsubscribe = memory.onChange((change) => this.changed(change));
+    return () => {
+      unsubscribe();
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = undefined;
+      this.pending.clear();
+    };
+  }
+
+  get subscriptions(): string[] {
+    return Array.from(this.subscribed);
+  }
+
+  private changed(change: MemoryChange): void {
+    this.subscribed.forEach((uri) => {
+      if (affectsResource(uri, change)) this.pending.add(uri);
+    });
+    if (this.pending.size === 0 || this.timer) return;
+
+    this.timer = setTimeout(() => void this.flush(), this.debounceMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Send the collected notifications now
+   */
+  async flush(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const uris = Array.from(this.pending);
+    this.pending.clear();
+    for (const uri of uris) {
+      try {
+        await this.server.sendResourceUpdated({ uri });
+      } catch (error) {
+        console.error(`[memory] Failed to notify subscribers of ${uri}:`, error);
+      }
+    }
+  }
+}